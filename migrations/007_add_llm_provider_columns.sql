@@ -0,0 +1,5 @@
+-- Record which LLM provider, model and reasoning effort produced each model decision
+
+ALTER TABLE tweets ADD COLUMN provider TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN model TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN reasoningEffort TEXT DEFAULT NULL;
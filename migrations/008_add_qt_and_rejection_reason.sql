@@ -0,0 +1,20 @@
+-- Store the parsed QT text and rejection reason separately from the raw `quote` output
+
+ALTER TABLE tweets ADD COLUMN qt TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN rejectionReason TEXT DEFAULT NULL;
+
+-- Backfill from legacy "Rejected: <reason>" responses
+UPDATE tweets
+SET rejectionReason = trim(substr(quote, length('Rejected:') + 1))
+WHERE approved = 0 AND quote LIKE 'Rejected:%' AND rejectionReason IS NULL;
+
+-- Backfill from legacy "Approved.\nQT: <lines>\nPercentile: N" responses
+UPDATE tweets
+SET qt = trim(
+  CASE
+    WHEN instr(quote, char(10) || 'Percentile:') > instr(quote, 'QT:')
+      THEN substr(quote, instr(quote, 'QT:') + 3, instr(quote, char(10) || 'Percentile:') - instr(quote, 'QT:') - 3)
+    ELSE substr(quote, instr(quote, 'QT:') + 3)
+  END
+)
+WHERE approved = 1 AND instr(quote, 'QT:') > 0 AND qt IS NULL;
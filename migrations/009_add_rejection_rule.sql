@@ -0,0 +1,7 @@
+-- Rejection rule category for rejected tweets (see src/rejectionRules.ts)
+-- Existing rejections are classified from their reason text when the app next opens the database
+
+ALTER TABLE tweets ADD COLUMN rejectionRule TEXT DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tweets_rejection_rule ON tweets(rejectionRule)
+  WHERE rejectionRule IS NOT NULL;
@@ -0,0 +1,16 @@
+-- Persistent processing queue: retry state and dead letters for model evaluation
+-- Items are removed once a tweet has been processed successfully
+
+CREATE TABLE IF NOT EXISTS processing_queue (
+  tweetId TEXT PRIMARY KEY REFERENCES tweets(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending','dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  lastError TEXT DEFAULT NULL,
+  lastErrorKind TEXT DEFAULT NULL,
+  rawResponse TEXT DEFAULT NULL,
+  nextAttemptAt TEXT NOT NULL DEFAULT (datetime('now')),
+  createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+  updatedAt TEXT DEFAULT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_processing_queue_due ON processing_queue(status, nextAttemptAt);
@@ -0,0 +1,16 @@
+-- Last-run status of the CLI processor (one-shot or --watch), read by the web dashboard
+
+CREATE TABLE IF NOT EXISTS processor_status (
+  id TEXT PRIMARY KEY,
+  mode TEXT DEFAULT NULL,
+  state TEXT DEFAULT NULL,
+  pid INTEGER DEFAULT NULL,
+  startedAt TEXT DEFAULT NULL,
+  lastPollAt TEXT DEFAULT NULL,
+  nextPollAt TEXT DEFAULT NULL,
+  lastSuccessAt TEXT DEFAULT NULL,
+  lastError TEXT DEFAULT NULL,
+  lastErrorAt TEXT DEFAULT NULL,
+  lastRunSummary TEXT DEFAULT NULL,
+  updatedAt TEXT DEFAULT NULL
+);
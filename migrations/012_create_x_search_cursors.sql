@@ -0,0 +1,7 @@
+-- Newest ingested tweet id per X search query, used as since_id on the next fetch
+
+CREATE TABLE IF NOT EXISTS x_search_cursors (
+  query TEXT PRIMARY KEY,
+  sinceId TEXT NOT NULL,
+  updatedAt TEXT NOT NULL DEFAULT (datetime('now'))
+);
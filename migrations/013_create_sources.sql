@@ -0,0 +1,21 @@
+-- Saved tweet sources (X queries, author watchlists, JSON feeds) and the source that found each tweet
+-- The default sources are seeded by the app the next time it opens the database
+
+ALTER TABLE tweets ADD COLUMN sourceId INTEGER DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tweets_source ON tweets(sourceId)
+  WHERE sourceId IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS sources (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE,
+  type TEXT NOT NULL CHECK(type IN ('x-search','x-authors','feed')),
+  value TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  intervalMinutes INTEGER DEFAULT NULL,
+  lastRunAt TEXT DEFAULT NULL,
+  lastFetchedCount INTEGER DEFAULT NULL,
+  lastError TEXT DEFAULT NULL,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+  updatedAt TEXT DEFAULT NULL
+);
@@ -0,0 +1,16 @@
+-- Tweet metadata from the X API expansions and feed payloads
+-- metrics, media and referencedTweets hold JSON; postedAt is when the tweet was posted
+
+ALTER TABLE tweets ADD COLUMN authorId TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN authorUsername TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN authorName TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN authorFollowers INTEGER DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN postedAt TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN lang TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN metrics TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN media TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN referencedTweets TEXT DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tweets_author_username ON tweets(authorUsername COLLATE NOCASE);
+CREATE INDEX IF NOT EXISTS idx_tweets_posted_at ON tweets(postedAt)
+  WHERE postedAt IS NOT NULL;
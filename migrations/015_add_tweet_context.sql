@@ -0,0 +1,6 @@
+-- Thread / quoted-tweet context fetched before evaluation, and the exact model input
+-- context is JSON (see src/tweetContext.ts)
+
+ALTER TABLE tweets ADD COLUMN conversationId TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN context TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN modelInput TEXT DEFAULT NULL;
@@ -0,0 +1,25 @@
+-- Publish workflow: scheduled / posted quote tweets for approved QTs, and the posted QT on each tweet
+
+ALTER TABLE tweets ADD COLUMN publishedTweetId TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN publishedUrl TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN publishedAt TEXT DEFAULT NULL;
+
+CREATE TABLE IF NOT EXISTS publications (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  tweetId TEXT NOT NULL REFERENCES tweets(id) ON DELETE CASCADE,
+  text TEXT NOT NULL,
+  status TEXT NOT NULL CHECK(status IN ('scheduled','sending','posted','failed','cancelled')),
+  scheduledAt TEXT DEFAULT NULL,
+  postedAt TEXT DEFAULT NULL,
+  postedTweetId TEXT DEFAULT NULL,
+  postedUrl TEXT DEFAULT NULL,
+  dryRun INTEGER NOT NULL DEFAULT 0,
+  lastError TEXT DEFAULT NULL,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+  updatedAt TEXT DEFAULT NULL
+);
+
+-- At most one live publication per tweet; failed and cancelled ones are history
+CREATE UNIQUE INDEX IF NOT EXISTS idx_publications_active ON publications(tweetId)
+  WHERE status IN ('scheduled','sending','posted');
+CREATE INDEX IF NOT EXISTS idx_publications_due ON publications(status, scheduledAt);
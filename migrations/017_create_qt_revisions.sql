@@ -0,0 +1,16 @@
+-- Human-edited QT versions alongside the immutable model drafts, and the version picked as final
+-- Existing model QTs are recorded as drafts by the app the next time it opens the database
+
+ALTER TABLE tweets ADD COLUMN finalQt TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN finalQtRevisionId INTEGER DEFAULT NULL;
+
+CREATE TABLE IF NOT EXISTS qt_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  tweetId TEXT NOT NULL REFERENCES tweets(id) ON DELETE CASCADE,
+  text TEXT NOT NULL,
+  source TEXT NOT NULL CHECK(source IN ('model','human')),
+  author TEXT NOT NULL,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_qt_revisions_tweet ON qt_revisions(tweetId, id);
@@ -0,0 +1,34 @@
+-- Append-only history of model calls per tweet; tweets point at the evaluation they currently reflect
+-- Decisions made before this table existed are copied in by the app the next time it opens the database
+
+ALTER TABLE tweets ADD COLUMN currentEvaluationId INTEGER DEFAULT NULL;
+
+CREATE TABLE IF NOT EXISTS evaluations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  tweetId TEXT NOT NULL REFERENCES tweets(id) ON DELETE CASCADE,
+  provider TEXT DEFAULT NULL,
+  model TEXT DEFAULT NULL,
+  reasoningEffort TEXT DEFAULT NULL,
+  promptVersion TEXT DEFAULT NULL,
+  examples TEXT DEFAULT NULL,
+  previousResponseId TEXT DEFAULT NULL,
+  responseId TEXT DEFAULT NULL,
+  modelInput TEXT DEFAULT NULL,
+  rawResponse TEXT DEFAULT NULL,
+  approved INTEGER DEFAULT NULL,
+  score INTEGER DEFAULT NULL,
+  quote TEXT DEFAULT NULL,
+  qt TEXT DEFAULT NULL,
+  rejectionReason TEXT DEFAULT NULL,
+  rejectionRule TEXT DEFAULT NULL,
+  categories TEXT DEFAULT NULL,
+  outputFormat TEXT DEFAULT NULL,
+  error TEXT DEFAULT NULL,
+  latencyMs INTEGER DEFAULT NULL,
+  inputTokens INTEGER DEFAULT NULL,
+  outputTokens INTEGER DEFAULT NULL,
+  totalTokens INTEGER DEFAULT NULL,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_evaluations_tweet ON evaluations(tweetId, id);
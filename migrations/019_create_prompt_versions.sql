@@ -0,0 +1,14 @@
+-- Versioned judge prompts, and the prompt version behind each decision
+-- The app seeds v1 from src/prompt.ts and marks it active the next time it opens the database
+
+ALTER TABLE tweets ADD COLUMN promptVersionId INTEGER DEFAULT NULL;
+ALTER TABLE evaluations ADD COLUMN promptVersionId INTEGER DEFAULT NULL;
+
+CREATE TABLE IF NOT EXISTS prompt_versions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  body TEXT NOT NULL,
+  note TEXT DEFAULT NULL,
+  author TEXT DEFAULT NULL,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+  activatedAt TEXT DEFAULT NULL
+);
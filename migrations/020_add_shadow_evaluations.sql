@@ -0,0 +1,6 @@
+-- Shadow mode: a candidate provider/model/prompt evaluated alongside production.
+-- Shadow calls are stored as evaluations linked to the production call they ran with.
+
+ALTER TABLE evaluations ADD COLUMN shadowOf INTEGER DEFAULT NULL REFERENCES evaluations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_evaluations_shadow ON evaluations(shadowOf) WHERE shadowOf IS NOT NULL;
@@ -0,0 +1,18 @@
+-- Named conversation chains that replace the global previousResponseId config key
+-- The app creates the "default" session from that key the next time it opens the database
+
+ALTER TABLE evaluations ADD COLUMN calibrationSessionId INTEGER DEFAULT NULL;
+
+CREATE TABLE IF NOT EXISTS calibration_sessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE,
+  headResponseId TEXT DEFAULT NULL,
+  tweetCount INTEGER NOT NULL DEFAULT 0,
+  generation INTEGER NOT NULL DEFAULT 1,
+  promptVersionId INTEGER DEFAULT NULL,
+  seedSummary TEXT DEFAULT NULL,
+  rolloverReason TEXT DEFAULT NULL CHECK(rolloverReason IN ('max-tweets','prompt-change','reset')),
+  rolledOverAt TEXT DEFAULT NULL,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+  updatedAt TEXT NOT NULL DEFAULT (datetime('now'))
+);
@@ -0,0 +1,6 @@
+-- Empirical percentile of each approved tweet's raw score among approved tweets.
+-- The app fills it in for existing approved tweets the next time it opens the database.
+
+ALTER TABLE tweets ADD COLUMN calibratedScore INTEGER DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tweets_calibrated_score ON tweets(calibratedScore) WHERE calibratedScore IS NOT NULL;
@@ -0,0 +1,3 @@
+-- Pinned gold examples are always included in the prompt, ahead of the per-tweet selection
+
+ALTER TABLE tweets ADD COLUMN goldExamplePinned INTEGER NOT NULL DEFAULT 0;
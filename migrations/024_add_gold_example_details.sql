@@ -0,0 +1,6 @@
+-- Curation notes and tags for gold examples, and when each was marked (for the usage report)
+-- The app fills goldExampleAddedAt for existing examples from their last update
+
+ALTER TABLE tweets ADD COLUMN goldExampleNote TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN goldExampleTags TEXT DEFAULT NULL;
+ALTER TABLE tweets ADD COLUMN goldExampleAddedAt TEXT DEFAULT NULL;
@@ -0,0 +1,22 @@
+-- Dashboard accounts with roles, replacing the shared ADMIN_PASSWORD
+-- Create the first admin with: npm run users -- create <username> --role admin
+
+CREATE TABLE IF NOT EXISTS users (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+  passwordHash TEXT NOT NULL,
+  role TEXT NOT NULL CHECK(role IN ('viewer','moderator','publisher','admin')),
+  disabled INTEGER NOT NULL DEFAULT 0,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+  lastLoginAt TEXT DEFAULT NULL
+);
+
+-- Dashboard logins; only a hash of each token is stored
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  tokenHash TEXT PRIMARY KEY,
+  userId INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+  expiresAt TEXT NOT NULL,
+  lastSeenAt TEXT DEFAULT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON auth_sessions(userId);
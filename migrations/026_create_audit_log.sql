@@ -0,0 +1,21 @@
+-- Append-only record of human actions in the dashboard (and the users CLI).
+-- tweetId has no foreign key so entries outlive deleted tweets; oldValue/newValue are JSON.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  at TEXT NOT NULL DEFAULT (datetime('now')),
+  actor TEXT NOT NULL,
+  action TEXT NOT NULL,
+  tweetId TEXT DEFAULT NULL,
+  target TEXT DEFAULT NULL,
+  oldValue TEXT DEFAULT NULL,
+  newValue TEXT DEFAULT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_audit_log_tweet ON audit_log(tweetId, at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor, at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_at ON audit_log(at);
+
+CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
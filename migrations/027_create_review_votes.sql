@@ -0,0 +1,14 @@
+-- Per-reviewer votes on tweets. tweets.humanDecision is now derived from these by the
+-- consensus rule (CONSENSUS_APPROVALS, CONSENSUS_REJECTIONS, CONSENSUS_REJECT_VETO).
+-- Decisions made before voting existed have no votes and are kept until someone votes.
+
+CREATE TABLE IF NOT EXISTS review_votes (
+  tweetId TEXT NOT NULL REFERENCES tweets(id) ON DELETE CASCADE,
+  userId INTEGER NOT NULL REFERENCES users(id),
+  vote TEXT NOT NULL CHECK(vote IN ('APPROVED','REJECTED')),
+  reason TEXT DEFAULT NULL,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+  updatedAt TEXT DEFAULT NULL,
+  PRIMARY KEY (tweetId, userId)
+);
+CREATE INDEX IF NOT EXISTS idx_review_votes_user ON review_votes(userId);
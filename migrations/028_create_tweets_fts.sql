@@ -0,0 +1,28 @@
+-- Full-text index for the `q` search parameter. Rows share the tweet's rowid and are kept
+-- in sync by the triggers below; the server also rebuilds the index if it has drifted
+-- (e.g. after a VACUUM renumbered the tweets' rowids).
+
+CREATE VIRTUAL TABLE IF NOT EXISTS tweets_fts USING fts5(
+  tweetId UNINDEXED, text, quote, qt, finalQt, rejectionReason, goldExampleCorrection,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS tweets_fts_insert AFTER INSERT ON tweets BEGIN
+  INSERT INTO tweets_fts (rowid, tweetId, text, quote, qt, finalQt, rejectionReason, goldExampleCorrection)
+  VALUES (new.rowid, new.id, new.text, new.quote, new.qt, new.finalQt, new.rejectionReason, new.goldExampleCorrection);
+END;
+
+CREATE TRIGGER IF NOT EXISTS tweets_fts_delete AFTER DELETE ON tweets BEGIN
+  DELETE FROM tweets_fts WHERE rowid = old.rowid;
+END;
+
+CREATE TRIGGER IF NOT EXISTS tweets_fts_update AFTER UPDATE OF text, quote, qt, finalQt, rejectionReason, goldExampleCorrection ON tweets BEGIN
+  DELETE FROM tweets_fts WHERE rowid = old.rowid;
+  INSERT INTO tweets_fts (rowid, tweetId, text, quote, qt, finalQt, rejectionReason, goldExampleCorrection)
+  VALUES (new.rowid, new.id, new.text, new.quote, new.qt, new.finalQt, new.rejectionReason, new.goldExampleCorrection);
+END;
+
+INSERT INTO tweets_fts (rowid, tweetId, text, quote, qt, finalQt, rejectionReason, goldExampleCorrection)
+SELECT rowid, id, text, quote, qt, finalQt, rejectionReason, goldExampleCorrection
+FROM tweets
+WHERE rowid NOT IN (SELECT rowid FROM tweets_fts);
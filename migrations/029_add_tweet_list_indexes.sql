@@ -0,0 +1,13 @@
+-- Indexes for keyset (cursor) pagination of the tweet lists and their range filters.
+-- Each covers one sort order with id as the tie-breaker; the expressions must stay
+-- identical to SORT_KEYS in src/tweetStore.ts for SQLite to use them.
+
+CREATE INDEX IF NOT EXISTS idx_tweets_updated_order ON tweets(datetime(COALESCE(updatedAt, createdAt)), id);
+CREATE INDEX IF NOT EXISTS idx_tweets_created_order ON tweets(datetime(createdAt), id);
+CREATE INDEX IF NOT EXISTS idx_tweets_posted_order ON tweets(datetime(COALESCE(postedAt, createdAt)), id);
+CREATE INDEX IF NOT EXISTS idx_tweets_score_order ON tweets(score, id);
+CREATE INDEX IF NOT EXISTS idx_tweets_calibrated_order ON tweets(calibratedScore, id);
+
+-- disagree=true: the model and the human decision differ (NULL unless both are set)
+CREATE INDEX IF NOT EXISTS idx_tweets_disagreement ON tweets(datetime(COALESCE(updatedAt, createdAt)), id)
+WHERE approved <> (humanDecision = 'APPROVED');
@@ -0,0 +1,6 @@
+-- Resume point for an X search window a run couldn't finish (page budget spent or rate
+-- limited): the oldest id read so far and the window's newest id, which becomes sinceId
+-- once the older tweets have been read. sinceId is '' while a query's first window is unfinished.
+
+ALTER TABLE x_search_cursors ADD COLUMN untilId TEXT DEFAULT NULL;
+ALTER TABLE x_search_cursors ADD COLUMN windowNewestId TEXT DEFAULT NULL;
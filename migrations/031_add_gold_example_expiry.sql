@@ -0,0 +1,4 @@
+-- Optional expiry for gold examples: once passed, the example is left out of prompts
+-- but stays marked, so the report still lists it
+
+ALTER TABLE tweets ADD COLUMN goldExampleExpiresAt TEXT DEFAULT NULL;
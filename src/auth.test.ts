@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import Database from "better-sqlite3";
+import type { Request, RequestHandler, Response } from "express";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+import {
+  authenticate,
+  checkCredentials,
+  currentUser,
+  endSession,
+  hashPassword,
+  hasRole,
+  requireRole,
+  SESSION_COOKIE,
+  startSession,
+  validatePassword,
+  verifyPassword,
+} from "./auth.js";
+import { createTweetStore } from "./tweetStore.js";
+
+const dir = mkdtempSync(path.join(tmpdir(), "kasfam-auth-"));
+process.env.SQLITE_DB_PATH = path.join(dir, "app.db");
+const store = createTweetStore();
+const db = new Database(process.env.SQLITE_DB_PATH);
+after(() => {
+  db.close();
+  store.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// Runs a middleware against a bare request; `next` says whether it let the request through
+function run(handler: RequestHandler, headers: Record<string, string> = {}, locals: Record<string, unknown> = {}) {
+  const req = { headers } as unknown as Request;
+  const outcome = { status: 200, body: "", passed: false, locals };
+  const res = {
+    locals,
+    status(code: number) {
+      outcome.status = code;
+      return this;
+    },
+    send(body: string) {
+      outcome.body = body;
+      return this;
+    },
+  } as unknown as Response;
+  handler(req, res, () => {
+    outcome.passed = true;
+  });
+  return { ...outcome, res };
+}
+
+test("passwords are salted scrypt hashes", async () => {
+  const hash = await hashPassword("correct horse");
+  assert.match(hash, /^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+  assert.notEqual(await hashPassword("correct horse"), hash);
+  assert.equal(await verifyPassword("correct horse", hash), true);
+  assert.equal(await verifyPassword("correct horsf", hash), false);
+  assert.equal(await verifyPassword("correct horse", "plain"), false);
+  assert.equal(validatePassword("short"), "Password must be at least 10 characters.");
+  assert.equal(validatePassword("long enough"), null);
+});
+
+test("only active users with the right password sign in", async () => {
+  const user = store.createUser("Dana", await hashPassword("password-dana"), "moderator")!;
+  assert.equal(store.createUser("dana", "x", "viewer"), null);
+
+  assert.equal((await checkCredentials(store, "dana", "password-dana"))?.id, user.id);
+  assert.equal(await checkCredentials(store, "dana", "password-nope"), null);
+  assert.equal(await checkCredentials(store, "nobody", "password-dana"), null);
+  store.updateUser(user.id, { disabled: true });
+  assert.equal(await checkCredentials(store, "dana", "password-dana"), null);
+  store.updateUser(user.id, { disabled: false });
+});
+
+test("sessions work by cookie or bearer token until they end", () => {
+  const user = store.getUserCredentials("dana")!.user;
+  const { token } = startSession(store, user);
+  assert.ok(store.getUser(user.id)!.lastLoginAt);
+
+  const byCookie = run(authenticate(store), { cookie: `theme=dark; ${SESSION_COOKIE}=${token}` });
+  assert.equal(byCookie.passed, true);
+  assert.equal(currentUser(byCookie.res)?.username, "Dana");
+  assert.equal(currentUser(run(authenticate(store), { authorization: `Bearer ${token}` }).res)?.id, user.id);
+  // A bad token is just signed out, not rejected
+  const unknown = run(authenticate(store), { authorization: "Bearer nope" });
+  assert.equal(unknown.passed, true);
+  assert.equal(currentUser(unknown.res), null);
+  // Only the token's hash is stored
+  assert.equal(db.prepare("SELECT COUNT(*) FROM auth_sessions WHERE tokenHash = ?").pluck().get(token), 0);
+
+  endSession(store, { headers: { authorization: `Bearer ${token}` } } as unknown as Request);
+  assert.equal(currentUser(run(authenticate(store), { authorization: `Bearer ${token}` }).res), null);
+});
+
+test("expired sessions, disabled users and password changes sign out", async () => {
+  const user = store.getUserCredentials("dana")!.user;
+  const signedIn = (token: string) => currentUser(run(authenticate(store), { authorization: `Bearer ${token}` }).res) !== null;
+
+  const expiring = startSession(store, user).token;
+  db.prepare("UPDATE auth_sessions SET expiresAt = datetime('now', '-1 minute')").run();
+  assert.equal(signedIn(expiring), false);
+
+  const disabled = startSession(store, user).token;
+  store.updateUser(user.id, { disabled: true });
+  store.updateUser(user.id, { disabled: false });
+  assert.equal(signedIn(disabled), false);
+
+  const changed = startSession(store, user).token;
+  store.updateUser(user.id, { role: "admin" });
+  assert.equal(signedIn(changed), true);
+  store.updateUser(user.id, { passwordHash: await hashPassword("password-new") });
+  assert.equal(signedIn(changed), false);
+});
+
+test("roles are ordered, and requireRole sends 401 or 403", () => {
+  const user = (role: "viewer" | "moderator" | "publisher" | "admin") => ({ ...store.getUserCredentials("dana")!.user, role });
+  assert.equal(hasRole(user("admin"), "publisher"), true);
+  assert.equal(hasRole(user("publisher"), "moderator"), true);
+  assert.equal(hasRole(user("moderator"), "publisher"), false);
+  assert.equal(hasRole(user("viewer"), "viewer"), true);
+
+  const signedOut = run(requireRole("viewer"), {}, { user: null });
+  assert.deepEqual([signedOut.status, signedOut.passed], [401, false]);
+  const tooLow = run(requireRole("publisher"), {}, { user: user("moderator") });
+  assert.deepEqual([tooLow.status, tooLow.body, tooLow.passed], [403, "Forbidden: Requires the publisher role.", false]);
+  assert.equal(run(requireRole("moderator"), {}, { user: user("moderator") }).passed, true);
+});
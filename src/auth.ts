@@ -0,0 +1,150 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { readPositiveIntEnv } from "./env.js";
+import type { createTweetStore, User, UserRole } from "./tweetStore.js";
+
+// Dashboard accounts. Users live in SQLite with scrypt password hashes; signing in creates
+// a random session token, sent back as an HttpOnly cookie for the browser or usable as a
+// bearer token by scripts. Only the token's SHA-256 is stored.
+
+type TweetStore = ReturnType<typeof createTweetStore>;
+
+// Lowest to highest; a role can do everything the roles before it can
+export const ROLES: UserRole[] = ["viewer", "moderator", "publisher", "admin"];
+
+export const SESSION_COOKIE = "kasfam_session";
+
+const DEFAULT_SESSION_HOURS = 168;
+const MIN_PASSWORD_LENGTH = 10;
+const SCRYPT_KEY_LENGTH = 64;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Compared against when the username is unknown, so both cases take the same time
+const DUMMY_HASH = `scrypt$${"00".repeat(16)}$${"00".repeat(SCRYPT_KEY_LENGTH)}`;
+
+export function parseRole(value?: string | null): UserRole | null {
+  return ROLES.find((role) => role === value) ?? null;
+}
+
+export function hasRole(user: User, role: UserRole): boolean {
+  return ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+}
+
+export function resolveSessionHours(): number {
+  return readPositiveIntEnv("AUTH_SESSION_HOURS", DEFAULT_SESSION_HOURS);
+}
+
+// Returns an error message, or null when the password is acceptable
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+  }
+  return null;
+}
+
+export function generatePassword(): string {
+  return randomBytes(15).toString("base64url");
+}
+
+// Stored as scrypt$<salt hex>$<key hex>
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = stored.split("$");
+  if (scheme !== "scrypt" || !saltHex || !keyHex) {
+    return false;
+  }
+  const expected = Buffer.from(keyHex, "hex");
+  const key = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(key, expected);
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// The user for these credentials, or null; disabled users cannot sign in
+export async function checkCredentials(store: TweetStore, username: string, password: string): Promise<User | null> {
+  const credentials = store.getUserCredentials(username);
+  const valid = await verifyPassword(password, credentials?.passwordHash ?? DUMMY_HASH);
+  if (!credentials || !valid || credentials.user.disabled) {
+    return null;
+  }
+  return credentials.user;
+}
+
+// Returns the raw token; it is only ever held by the client
+export function startSession(store: TweetStore, user: User): { token: string; expiresAt: Date } {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + resolveSessionHours() * 3600_000);
+  store.createAuthSession(hashToken(token), user.id, toSqliteTime(expiresAt));
+  return { token, expiresAt };
+}
+
+export function endSession(store: TweetStore, req: Request) {
+  const token = readToken(req);
+  if (token) {
+    store.deleteAuthSession(hashToken(token));
+  }
+}
+
+export function sessionCookie(token: string, expiresAt: Date): string {
+  const maxAge = Math.max(0, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+  return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}`;
+}
+
+export function clearedSessionCookie(): string {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+}
+
+// Sets res.locals.user when the request carries a valid session; never rejects
+export function authenticate(store: TweetStore): RequestHandler {
+  return (req, res, next) => {
+    const token = readToken(req);
+    res.locals.user = token ? store.getSessionUser(hashToken(token)) : null;
+    next();
+  };
+}
+
+// 401 when signed out, 403 when signed in with a lower role
+export function requireRole(role: UserRole): RequestHandler {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    const user = currentUser(res);
+    if (!user) {
+      return res.status(401).send("Unauthorized: Please sign in.");
+    }
+    if (!hasRole(user, role)) {
+      return res.status(403).send(`Forbidden: Requires the ${role} role.`);
+    }
+    next();
+  };
+}
+
+export function currentUser(res: Response): User | null {
+  return (res.locals.user as User | null | undefined) ?? null;
+}
+
+// Bearer token first (scripts), then the session cookie (browser)
+function readToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim() || null;
+  }
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === SESSION_COOKIE) {
+      return value.join("=") || null;
+    }
+  }
+  return null;
+}
+
+function toSqliteTime(date: Date): string {
+  return date.toISOString().replace("T", " ").slice(0, 19);
+}
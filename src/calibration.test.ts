@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+import {
+  beginCalibrationTurn,
+  finishCalibrationTurn,
+  resetCalibrationSession,
+  resolveCalibrationSession,
+  summarizeRecentDecisions,
+} from "./calibration.js";
+import { createTweetStore, type EvaluationInput } from "./tweetStore.js";
+
+const dir = mkdtempSync(path.join(tmpdir(), "kasfam-calibration-"));
+process.env.SQLITE_DB_PATH = path.join(dir, "app.db");
+process.env.CALIBRATION_SESSION_MAX_TWEETS = "3";
+const store = createTweetStore();
+after(() => {
+  store.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+store.saveRaw({ id: "t1", text: "tweet t1", url: "https://x.com/i/status/t1" });
+function recordDecision(approved: boolean, score: number) {
+  const input: EvaluationInput = {
+    tweetId: "t1", modelInput: "tweet t1", provider: "mock", model: "m", reasoningEffort: null,
+    promptVersionId: null, promptVersion: "test", examples: [], previousResponseId: null, responseId: null,
+    rawResponse: "", latencyMs: 1, usage: null, approved, score, rejectionRule: approved ? null : "drama",
+  };
+  store.recordEvaluation(input);
+}
+
+test("named sessions are created on first use; the default one starts active", () => {
+  const active = resolveCalibrationSession(store, undefined);
+  assert.equal(active.name, "default");
+  const named = resolveCalibrationSession(store, "experiment");
+  assert.equal(named.name, "experiment");
+  assert.equal(resolveCalibrationSession(store, "experiment").id, named.id);
+  assert.notEqual(named.id, active.id);
+});
+
+test("concurrent turns from the same head don't rewind each other's chain", () => {
+  const session = resolveCalibrationSession(store, "cas");
+  const first = beginCalibrationTurn(store, session.id);
+  const second = beginCalibrationTurn(store, session.id);
+  assert.equal(first.previousResponseId, null);
+
+  assert.equal(finishCalibrationTurn(store, first, "resp-1"), true);
+  assert.equal(finishCalibrationTurn(store, second, "resp-2"), false);
+  const after = store.getCalibrationSession(session.id)!;
+  assert.equal(after.headResponseId, "resp-1");
+  assert.equal(after.tweetCount, 2);  // The losing call still counts
+
+  // Providers without a chain only count
+  assert.equal(finishCalibrationTurn(store, beginCalibrationTurn(store, session.id), null), true);
+  assert.equal(store.getCalibrationSession(session.id)!.headResponseId, "resp-1");
+});
+
+test("a full session rolls over once, seeded with recent decisions", () => {
+  recordDecision(true, 80);
+  recordDecision(true, 40);
+  recordDecision(false, 0);
+  const session = resolveCalibrationSession(store, "full");
+  for (const id of ["a", "b", "c"]) {
+    const turn = beginCalibrationTurn(store, session.id);
+    assert.equal(turn.rolledOver, null);
+    finishCalibrationTurn(store, turn, id);
+  }
+
+  const stale = beginCalibrationTurn(store, session.id);
+  assert.equal(stale.rolledOver, "max-tweets");
+  assert.equal(stale.previousResponseId, null);
+  assert.equal(stale.session.generation, session.generation + 1);
+  assert.match(stale.calibrationNote!, /approved 2 \(67%\); percentiles given: min 40/);
+  assert.match(stale.calibrationNote!, /rejected 1: drama \/ conflict 1/);
+
+  // A turn started in the old generation can't move the new chain
+  const old = { ...stale, session: { ...stale.session, generation: session.generation }, previousResponseId: "c" };
+  assert.equal(finishCalibrationTurn(store, old, "late"), false);
+  assert.equal(store.getCalibrationSession(session.id)!.tweetCount, 0);
+  assert.equal(finishCalibrationTurn(store, stale, "d"), true);
+  assert.equal(beginCalibrationTurn(store, session.id).rolledOver, null);
+});
+
+test("activating another prompt version rolls the session over, once", () => {
+  const session = resolveCalibrationSession(store, "prompt");
+  finishCalibrationTurn(store, beginCalibrationTurn(store, session.id), "p1");
+  const version = store.createPromptVersion({ body: "new rules" });
+  store.activatePromptVersion(version.id);
+
+  const turn = beginCalibrationTurn(store, session.id);
+  assert.equal(turn.rolledOver, "prompt-change");
+  assert.equal(turn.session.promptVersionId, version.id);
+  assert.equal(turn.previousResponseId, null);
+  finishCalibrationTurn(store, turn, "p2");
+  const next = beginCalibrationTurn(store, session.id);
+  assert.equal(next.rolledOver, null);
+  assert.equal(next.previousResponseId, "p2");
+});
+
+test("a reset empties the chain without a seed", () => {
+  const session = resolveCalibrationSession(store, "cas");
+  const reset = resetCalibrationSession(store, session);
+  assert.equal(reset.headResponseId, null);
+  assert.equal(reset.seedSummary, null);
+  assert.equal(reset.rolloverReason, "reset");
+  assert.equal(reset.generation, session.generation + 1);
+  // Losing the race to another reset leaves the other generation in place
+  assert.equal(resetCalibrationSession(store, session).generation, reset.generation);
+});
+
+test("nothing to summarize gives no seed", () => {
+  assert.equal(summarizeRecentDecisions([]), null);
+  assert.equal(
+    summarizeRecentDecisions([{ approved: false, score: 0, rejectionRule: null }]),
+    [
+      "calibration notes: your conversation history was reset. your last 1 decisions, for reference:",
+      "- approved 0 (0%)",
+      "- rejected 1",
+      "keep scoring on the same scale.",
+    ].join("\n")
+  );
+});
@@ -0,0 +1,129 @@
+import { readPositiveIntEnv } from "./env.js";
+import { REJECTION_RULES } from "./rejectionRules.js";
+import type {
+  CalibrationRolloverReason,
+  CalibrationSession,
+  createTweetStore,
+  RecentDecision,
+} from "./tweetStore.js";
+
+// Calibration sessions replace the single global previous_response_id. Each session is a
+// named chain; it rolls over to an empty chain after CALIBRATION_SESSION_MAX_TWEETS calls
+// or when the active prompt changes, and the new chain is seeded with a short summary of
+// recent decisions (added to the system prompt) so scores stay on the same scale.
+
+export type CalibrationTurn = {
+  session: CalibrationSession;
+  previousResponseId: string | null;
+  calibrationNote: string | null;
+  rolledOver: CalibrationRolloverReason | null;  // Set when this turn started a new generation
+};
+
+type TweetStore = ReturnType<typeof createTweetStore>;
+
+const DEFAULT_MAX_SESSION_TWEETS = 100;
+const SUMMARY_DECISIONS = 100;
+
+export function resolveMaxSessionTweets(): number {
+  return readPositiveIntEnv("CALIBRATION_SESSION_MAX_TWEETS", DEFAULT_MAX_SESSION_TWEETS);
+}
+
+// The named session (created on first use), else the active one
+export function resolveCalibrationSession(store: TweetStore, name: string | undefined): CalibrationSession {
+  if (name) {
+    return store.getCalibrationSessionByName(name)
+      ?? store.createCalibrationSession(name, activePromptVersionId(store))
+      ?? store.getCalibrationSessionByName(name)!;  // Created concurrently by another process
+  }
+  const active = store.getActiveCalibrationSession();
+  if (!active) {
+    throw new Error("No active calibration session. Activate one from the dashboard.");
+  }
+  return active;
+}
+
+// Read the session's current head right before a call, rolling it over first if it is full
+// or the active prompt version changed since it started. Re-read every call so concurrent
+// processes see each other's progress. A process pinned to another version (--prompt-version)
+// shares the chain rather than rolling it over on every call against the unpinned ones.
+export function beginCalibrationTurn(store: TweetStore, sessionId: number): CalibrationTurn {
+  let session = store.getCalibrationSession(sessionId);
+  if (!session) {
+    throw new Error(`Calibration session ${sessionId} not found`);
+  }
+
+  const promptVersionId = activePromptVersionId(store);
+  const reason: CalibrationRolloverReason | null = session.promptVersionId !== promptVersionId
+    ? "prompt-change"
+    : session.tweetCount >= resolveMaxSessionTweets() ? "max-tweets" : null;
+  if (reason) {
+    session = store.rolloverCalibrationSession(session.id, session.generation, {
+      promptVersionId,
+      seedSummary: summarizeRecentDecisions(store.getRecentDecisions(SUMMARY_DECISIONS)),
+      reason,
+    })!;
+  }
+
+  return {
+    session,
+    previousResponseId: session.headResponseId,
+    calibrationNote: session.seedSummary,
+    rolledOver: reason,
+  };
+}
+
+function activePromptVersionId(store: TweetStore): number | null {
+  return store.getActivePromptVersion()?.id ?? null;
+}
+
+// Returns false when another process advanced the chain first; the call still counts
+export function finishCalibrationTurn(store: TweetStore, turn: CalibrationTurn, responseId: string | null): boolean {
+  return store.advanceCalibrationSession(
+    turn.session.id,
+    turn.session.generation,
+    turn.previousResponseId,
+    responseId
+  );
+}
+
+// Start the session over with an empty chain and no seed
+export function resetCalibrationSession(store: TweetStore, session: CalibrationSession): CalibrationSession {
+  return store.rolloverCalibrationSession(session.id, session.generation, {
+    promptVersionId: session.promptVersionId,
+    seedSummary: null,
+    reason: "reset",
+  })!;
+}
+
+// Written in the prompt's own voice; null when there is nothing to summarize yet
+export function summarizeRecentDecisions(decisions: RecentDecision[]): string | null {
+  if (decisions.length === 0) {
+    return null;
+  }
+
+  const approvedScores = decisions.filter((d) => d.approved).map((d) => d.score).sort((a, b) => a - b);
+  const rejected = decisions.filter((d) => !d.approved);
+  const lines = [
+    `calibration notes: your conversation history was reset. your last ${decisions.length} decisions, for reference:`,
+    `- approved ${approvedScores.length} (${Math.round((approvedScores.length / decisions.length) * 100)}%)` +
+      (approvedScores.length
+        ? `; percentiles given: min ${approvedScores[0]}, p25 ${quantile(approvedScores, 0.25)}, median ${quantile(approvedScores, 0.5)}, p75 ${quantile(approvedScores, 0.75)}, max ${approvedScores[approvedScores.length - 1]}`
+        : ""),
+  ];
+
+  if (rejected.length) {
+    const byRule = REJECTION_RULES
+      .map((rule) => ({ label: rule.label.toLowerCase(), count: rejected.filter((d) => d.rejectionRule === rule.id).length }))
+      .filter((entry) => entry.count > 0)
+      .sort((a, b) => b.count - a.count);
+    lines.push(`- rejected ${rejected.length}${byRule.length ? `: ${byRule.map((entry) => `${entry.label} ${entry.count}`).join(", ")}` : ""}`);
+  }
+
+  lines.push("keep scoring on the same scale.");
+  return lines.join("\n");
+}
+
+// Nearest-rank quantile of sorted values
+function quantile(sorted: number[], q: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(q * sorted.length) - 1))];
+}
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+import { buildAgreementReport, deriveHumanDecision, type ConsensusRule } from "./consensus.js";
+import { createTweetStore, type HumanDecision } from "./tweetStore.js";
+
+const single: ConsensusRule = { approvals: 1, rejections: 1, rejectVeto: false };
+
+test("one vote either way decides for a single reviewer", () => {
+  assert.equal(deriveHumanDecision(0, 0, single), null);
+  assert.equal(deriveHumanDecision(1, 0, single), "APPROVED");
+  assert.equal(deriveHumanDecision(0, 1, single), "REJECTED");
+});
+
+test("split votes go to the majority, and a tie stays undecided", () => {
+  assert.equal(deriveHumanDecision(2, 1, single), "APPROVED");
+  assert.equal(deriveHumanDecision(1, 2, single), "REJECTED");
+  assert.equal(deriveHumanDecision(1, 1, single), null);
+});
+
+test("thresholds need enough votes", () => {
+  const rule: ConsensusRule = { approvals: 2, rejections: 3, rejectVeto: false };
+  assert.equal(deriveHumanDecision(1, 0, rule), null);
+  assert.equal(deriveHumanDecision(2, 0, rule), "APPROVED");
+  assert.equal(deriveHumanDecision(0, 2, rule), null);
+  assert.equal(deriveHumanDecision(0, 3, rule), "REJECTED");
+  assert.equal(deriveHumanDecision(2, 2, rule), "APPROVED");
+});
+
+test("a reject veto blocks approval without deciding rejection", () => {
+  const rule: ConsensusRule = { approvals: 2, rejections: 2, rejectVeto: true };
+  assert.equal(deriveHumanDecision(3, 1, rule), null);
+  assert.equal(deriveHumanDecision(3, 2, rule), "REJECTED");
+  assert.equal(deriveHumanDecision(3, 0, rule), "APPROVED");
+});
+
+test("the agreement report computes Cohen's kappa per reviewer pair", () => {
+  const dir = mkdtempSync(path.join(tmpdir(), "kasfam-consensus-"));
+  process.env.SQLITE_DB_PATH = path.join(dir, "app.db");
+  const store = createTweetStore();
+  after(() => {
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const [alice, bob, carol] = ["alice", "bob", "carol"].map((name) => store.createUser(name, "x", "moderator")!);
+  const vote = (reviewer: typeof alice, tweetId: string, decision: HumanDecision) =>
+    store.castVote(tweetId, reviewer, decision, null, single);
+  for (const id of ["t1", "t2", "t3", "t4"]) {
+    store.saveRaw({ id, text: `tweet ${id}`, url: `https://x.com/i/status/${id}` });
+  }
+
+  // alice approves half, bob a quarter; they agree on 3 of 4
+  const aliceVotes: HumanDecision[] = ["APPROVED", "APPROVED", "REJECTED", "REJECTED"];
+  const bobVotes: HumanDecision[] = ["APPROVED", "REJECTED", "REJECTED", "REJECTED"];
+  ["t1", "t2", "t3", "t4"].forEach((id, i) => {
+    vote(alice, id, aliceVotes[i]);
+    vote(bob, id, bobVotes[i]);
+  });
+  // carol approves both tweets she votes on, as alice did
+  vote(carol, "t1", "APPROVED");
+  vote(carol, "t2", "APPROVED");
+
+  const report = buildAgreementReport(store, single);
+  const pair = (a: string, b: string) =>
+    report.pairs.find((p) => p.reviewers.includes(a) && p.reviewers.includes(b))!;
+
+  // observed 0.75, chance 0.5 * 0.25 + 0.5 * 0.75 = 0.5
+  assert.equal(pair("alice", "bob").shared, 4);
+  assert.equal(pair("alice", "bob").agreement, 0.75);
+  assert.equal(pair("alice", "bob").kappa, 0.5);
+  // Both approved everything they share: agreement is entirely by chance
+  assert.equal(pair("alice", "carol").agreement, 1);
+  assert.equal(pair("alice", "carol").kappa, null);
+  // observed 0.5, chance 0.5 (bob approves half of the shared tweets, carol all)
+  assert.equal(pair("bob", "carol").kappa, 0);
+
+  assert.equal(report.multiVoteTweets, 4);
+  assert.equal(report.unanimous, 3);
+  assert.equal(report.contested, 1);
+});
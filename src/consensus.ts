@@ -0,0 +1,105 @@
+import { readPositiveIntEnv } from "./env.js";
+import type { createTweetStore, HumanDecision } from "./tweetStore.js";
+
+// Each reviewer casts at most one vote per tweet, and the tweet's humanDecision is derived
+// from the votes by the consensus rule (CONSENSUS_APPROVALS, CONSENSUS_REJECTIONS,
+// CONSENSUS_REJECT_VETO). The defaults, one vote either way, behave like a single reviewer.
+
+export type ConsensusRule = {
+  approvals: number;  // Approve votes needed for APPROVED
+  rejections: number;  // Reject votes needed for REJECTED
+  rejectVeto: boolean;  // Any reject vote blocks approval
+};
+
+export type ReviewerStats = {
+  username: string;
+  votes: number;
+  approvalRate: number | null;
+  decided: number;  // Votes on tweets that now have a humanDecision
+  consensusAgreement: number | null;  // Share of those matching the decision
+  modelCompared: number;  // Votes on tweets the model has decided
+  modelAgreement: number | null;
+};
+
+export type ReviewerPairStats = {
+  reviewers: [string, string];
+  shared: number;  // Tweets both voted on
+  agreement: number;
+  kappa: number | null;  // Cohen's kappa; null when chance agreement is total
+};
+
+export type AgreementReport = {
+  rule: ConsensusRule;
+  multiVoteTweets: number;  // Tweets with two or more votes
+  unanimous: number;
+  contested: number;  // Both approve and reject votes
+  pairwiseAgreement: number | null;  // Over every pair of votes on the same tweet
+  reviewers: ReviewerStats[];
+  pairs: ReviewerPairStats[];
+};
+
+type TweetStore = ReturnType<typeof createTweetStore>;
+
+export function resolveConsensusRule(): ConsensusRule {
+  const rejectVeto = process.env.CONSENSUS_REJECT_VETO;
+  if (rejectVeto && rejectVeto !== "true" && rejectVeto !== "false") {
+    throw new Error(`Invalid CONSENSUS_REJECT_VETO: ${rejectVeto}. Use: true or false`);
+  }
+  return {
+    approvals: resolveVoteCount("CONSENSUS_APPROVALS"),
+    rejections: resolveVoteCount("CONSENSUS_REJECTIONS"),
+    rejectVeto: rejectVeto === "true",
+  };
+}
+
+function resolveVoteCount(name: string): number {
+  return readPositiveIntEnv(name, 1);
+}
+
+// null while the votes reach neither threshold, or reach both with a tie
+export function deriveHumanDecision(approvals: number, rejections: number, rule: ConsensusRule): HumanDecision | null {
+  const approved = approvals >= rule.approvals && !(rule.rejectVeto && rejections > 0);
+  const rejected = rejections >= rule.rejections;
+  if (approved && rejected) {
+    return approvals === rejections ? null : approvals > rejections ? "APPROVED" : "REJECTED";
+  }
+  return approved ? "APPROVED" : rejected ? "REJECTED" : null;
+}
+
+export function buildAgreementReport(store: TweetStore, rule: ConsensusRule = resolveConsensusRule()): AgreementReport {
+  const rate = (part: number, whole: number) => (whole ? part / whole : null);
+  const { multiVoteTweets, unanimous, contested, votePairs, agreeingPairs } = store.getVoteAgreementTotals();
+
+  const reviewers = store.getReviewerVoteCounts().map((row) => ({
+    username: row.username,
+    votes: row.votes,
+    approvalRate: rate(row.approvals, row.votes),
+    decided: row.decided,
+    consensusAgreement: rate(row.matchingDecision, row.decided),
+    modelCompared: row.modelCompared,
+    modelAgreement: rate(row.matchingModel, row.modelCompared),
+  }));
+
+  const pairs = store.getReviewerPairCounts().map((row): ReviewerPairStats => {
+    const observed = row.agreed / row.shared;
+    const firstApproves = row.firstApprovals / row.shared;
+    const secondApproves = row.secondApprovals / row.shared;
+    const chance = firstApproves * secondApproves + (1 - firstApproves) * (1 - secondApproves);
+    return {
+      reviewers: [row.first, row.second],
+      shared: row.shared,
+      agreement: observed,
+      kappa: chance === 1 ? null : (observed - chance) / (1 - chance),
+    };
+  });
+
+  return {
+    rule,
+    multiVoteTweets,
+    unanimous,
+    contested,
+    pairwiseAgreement: rate(agreeingPairs, votePairs),
+    reviewers,
+    pairs,
+  };
+}
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { formatLegacyDecision, MalformedResponseError, parseLegacyDecision } from "./decisionParser.js";
+
+test("approved responses give the QT lines and percentile", () => {
+  const decision = parseLegacyDecision("Approved.\nQT: first line\n  second line  \nPercentile: 87");
+  assert.equal(decision.approved, true);
+  assert.deepEqual(decision.qtLines, ["first line", "second line"]);
+  assert.equal(decision.score, 87);
+  assert.equal(decision.reason, null);
+  assert.equal(decision.format, "text");
+});
+
+test("the QT may follow the percentile", () => {
+  const decision = parseLegacyDecision("Approved.\nPercentile: 40\nQT: only line");
+  assert.deepEqual(decision.qtLines, ["only line"]);
+  assert.equal(decision.score, 40);
+});
+
+test("rejected responses give the reason", () => {
+  const decision = parseLegacyDecision("Rejected: talks about price");
+  assert.equal(decision.approved, false);
+  assert.equal(decision.reason, "talks about price");
+  assert.equal(decision.score, 0);
+  assert.deepEqual(decision.qtLines, []);
+  assert.equal(parseLegacyDecision("Rejected").reason, null);
+});
+
+test("malformed responses throw with the raw text", () => {
+  const cases = [
+    "Sure! Approved.\nQT: hi\nPercentile: 50",
+    "approved.\nQT: hi\nPercentile: 50",
+    "Approved.\nQT: hi",
+    "Approved.\nQT: hi\nPercentile: 150",
+  ];
+  for (const raw of cases) {
+    assert.throws(
+      () => parseLegacyDecision(raw),
+      (error: unknown) => error instanceof MalformedResponseError && error.rawResponse === raw,
+      raw
+    );
+  }
+});
+
+test("formatted decisions parse back to the same decision", () => {
+  const approved = parseLegacyDecision("Approved.\nQT: one\ntwo\nPercentile: 73");
+  assert.deepEqual(parseLegacyDecision(formatLegacyDecision(approved)), approved);
+  const rejected = parseLegacyDecision("Rejected: off-topic");
+  assert.equal(formatLegacyDecision(rejected), "Rejected: off-topic");
+  assert.deepEqual(parseLegacyDecision(formatLegacyDecision(rejected)), rejected);
+});
@@ -0,0 +1,250 @@
+import type { ModelCallDetails } from "./gptClient.js";
+
+export type OutputMode = "structured" | "text";
+
+export type HighBarCategory =
+  | "technical"
+  | "philosophical"
+  | "funny"
+  | "insightful"
+  | "relevant";
+
+export type ParsedDecision = {
+  approved: boolean;
+  rejectionRule: number | null;  // Rule number from the prompt's rejection list, if the model gave one
+  reason: string | null;  // Short rejection reason (rejected only)
+  qtLines: string[];  // One or two QT lines (approved only)
+  score: number;  // Percentile 0-100 (0 when rejected)
+  categories: HighBarCategory[];
+  format: OutputMode;  // Which parser produced this result
+};
+
+export class MalformedResponseError extends Error {
+  // Set by askTweetDecision so the failed call can be recorded
+  call?: ModelCallDetails;
+
+  constructor(message: string, public rawResponse: string) {
+    super(message);
+    this.name = "MalformedResponseError";
+  }
+}
+
+export const HIGH_BAR_CATEGORIES: HighBarCategory[] = [
+  "technical",
+  "philosophical",
+  "funny",
+  "insightful",
+  "relevant",
+];
+
+const MAX_QT_LINES = 2;
+
+export const DECISION_SCHEMA_NAME = "tweet_decision";
+
+// JSON schema for structured output (strict mode: every property required, nulls allowed explicitly)
+export const DECISION_JSON_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["decision", "rejectionRule", "reason", "qtLines", "percentile", "categories"],
+  properties: {
+    decision: { type: "string", enum: ["approved", "rejected"] },
+    rejectionRule: {
+      type: ["integer", "null"],
+      description: "number of the rejection rule that applies; null when approved or rejected as low-signal",
+    },
+    reason: {
+      type: ["string", "null"],
+      description: "one short rejection reason; null when approved",
+    },
+    qtLines: {
+      type: "array",
+      items: { type: "string" },
+      description: "one or two qt lines, together at most 20 words; empty when rejected",
+    },
+    percentile: {
+      type: ["integer", "null"],
+      description: "0-100 when approved; null when rejected",
+    },
+    categories: {
+      type: "array",
+      items: { type: "string", enum: HIGH_BAR_CATEGORIES },
+      description: "high-bar categories the tweet clears; empty when rejected",
+    },
+  },
+} as const;
+
+export function parseOutputMode(value?: string | null): OutputMode | null {
+  if (value === "structured" || value === "text") {
+    return value;
+  }
+  return null;
+}
+
+// Structured output first; anything that isn't a JSON object falls back to the legacy text format
+export function parseDecision(raw: string, mode: OutputMode): ParsedDecision {
+  const text = raw.trim();
+  if (!text) {
+    throw new MalformedResponseError("Empty response from model", raw);
+  }
+
+  if (mode === "structured") {
+    const json = tryParseJsonObject(text);
+    if (json !== null) {
+      return parseStructuredDecision(json, raw);
+    }
+  }
+
+  return parseLegacyDecision(text);
+}
+
+export function parseStructuredDecision(value: Record<string, unknown>, raw: string): ParsedDecision {
+  const { decision, rejectionRule, reason, qtLines, percentile, categories } = value;
+
+  if (decision !== "approved" && decision !== "rejected") {
+    throw new MalformedResponseError(
+      `"decision" must be "approved" or "rejected", got: ${JSON.stringify(decision)}`,
+      raw
+    );
+  }
+
+  if (rejectionRule !== null && rejectionRule !== undefined && !isIntegerInRange(rejectionRule, 1, 10)) {
+    throw new MalformedResponseError(
+      `"rejectionRule" must be an integer 1-10 or null, got: ${JSON.stringify(rejectionRule)}`,
+      raw
+    );
+  }
+
+  const parsedCategories = Array.isArray(categories) ? categories : [];
+  for (const category of parsedCategories) {
+    if (!HIGH_BAR_CATEGORIES.includes(category as HighBarCategory)) {
+      throw new MalformedResponseError(`Unknown high-bar category: ${JSON.stringify(category)}`, raw);
+    }
+  }
+
+  if (decision === "rejected") {
+    if (typeof reason !== "string" || !reason.trim()) {
+      throw new MalformedResponseError("Rejected response missing reason", raw);
+    }
+    return {
+      approved: false,
+      rejectionRule: typeof rejectionRule === "number" ? rejectionRule : null,
+      reason: reason.trim(),
+      qtLines: [],
+      score: 0,
+      categories: [],
+      format: "structured",
+    };
+  }
+
+  const lines = Array.isArray(qtLines)
+    ? qtLines.filter((line): line is string => typeof line === "string" && line.trim() !== "")
+    : [];
+  if (lines.length === 0 || lines.length > MAX_QT_LINES) {
+    throw new MalformedResponseError(
+      `Approved response must have 1-${MAX_QT_LINES} QT lines, got ${lines.length}`,
+      raw
+    );
+  }
+
+  if (!isIntegerInRange(percentile, 0, 100)) {
+    throw new MalformedResponseError(
+      `Percentile must be 0-100, got: ${JSON.stringify(percentile)}`,
+      raw
+    );
+  }
+
+  return {
+    approved: true,
+    rejectionRule: null,
+    reason: null,
+    qtLines: lines.map((line) => line.trim()),
+    score: percentile as number,
+    categories: parsedCategories as HighBarCategory[],
+    format: "structured",
+  };
+}
+
+export function parseLegacyDecision(text: string): ParsedDecision {
+  // Must start with "Approved" or "Rejected" (case-sensitive as per prompt)
+  const isApproved = text.startsWith("Approved");
+  const isRejected = text.startsWith("Rejected");
+
+  if (!isApproved && !isRejected) {
+    throw new MalformedResponseError(
+      `Response must start with "Approved" or "Rejected", got: "${text.slice(0, 50)}..."`,
+      text
+    );
+  }
+
+  if (isRejected) {
+    const reason = text.replace(/^Rejected:?\s*/, "").trim();
+    return {
+      approved: false,
+      rejectionRule: null,
+      reason: reason || null,
+      qtLines: [],
+      score: 0,
+      categories: [],
+      format: "text",
+    };
+  }
+
+  // Parse percentile for approved tweets
+  const percentileMatch = text.match(/Percentile:\s*(\d+)/i);
+  if (!percentileMatch) {
+    throw new MalformedResponseError(
+      `Approved response missing Percentile field: "${text.slice(0, 100)}..."`,
+      text
+    );
+  }
+  const score = parseInt(percentileMatch[1], 10);
+  if (score < 0 || score > 100) {
+    throw new MalformedResponseError(
+      `Percentile must be 0-100, got: ${score}`,
+      text
+    );
+  }
+
+  const qtMatch = text.match(/QT:\s*(.+?)(?=\nPercentile:|$)/is);
+  const qtLines = qtMatch
+    ? qtMatch[1].split("\n").map((line) => line.trim()).filter((line) => line.length > 0)
+    : [];
+
+  return {
+    approved: true,
+    rejectionRule: null,
+    reason: null,
+    qtLines,
+    score,
+    categories: [],
+    format: "text",
+  };
+}
+
+// Render a decision in the legacy text format (used for the `quote` column and few-shot examples)
+export function formatLegacyDecision(decision: ParsedDecision): string {
+  if (!decision.approved) {
+    return `Rejected: ${decision.reason ?? ""}`.trim();
+  }
+  return `Approved.\nQT: ${decision.qtLines.join("\n")}\nPercentile: ${decision.score}`;
+}
+
+function tryParseJsonObject(text: string): Record<string, unknown> | null {
+  // Tolerate models that wrap JSON in a ```json fence
+  const unfenced = text.replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  if (!unfenced.startsWith("{")) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(unfenced) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+}
@@ -0,0 +1,73 @@
+import type { createTweetStore, DecisionWindow, GoldExampleType } from "./tweetStore.js";
+
+// Model-vs-human drift around each change that can move the model's decisions: a new
+// prompt version reaching production, or a gold example being added, changed or removed.
+// Each change compares the `window` production calls on either side of it.
+
+export type DriftChangeKind = "prompt" | "gold-example";
+
+export type DriftChange = {
+  kind: DriftChangeKind;
+  at: string;
+  description: string;
+  tweetId: string | null;  // The gold example's tweet
+  promptVersionId: number | null;
+  actor: string | null;  // Who changed the gold example; prompt changes come from evaluations
+  before: DecisionWindow;
+  after: DecisionWindow;
+};
+
+type TweetStore = ReturnType<typeof createTweetStore>;
+
+export const DEFAULT_DRIFT_WINDOW = 50;
+const MAX_CHANGES = 50;
+
+type GoldExampleValue = { type: GoldExampleType | null } | null;
+
+function describePrompt(id: number | null): string {
+  return id === null ? "built-in prompt" : `prompt v${id}`;
+}
+
+function describeGoldChange(oldValue: GoldExampleValue, newValue: GoldExampleValue, tweetId: string): string {
+  const from = oldValue?.type ?? null;
+  const to = newValue?.type ?? null;
+  if (!from) {
+    return `${to} example added: ${tweetId}`;
+  }
+  if (!to) {
+    return `${from} example removed: ${tweetId}`;
+  }
+  return from === to ? `${to} example correction changed: ${tweetId}` : `${from} example changed to ${to}: ${tweetId}`;
+}
+
+// Newest first. Gold-example changes come from the audit log, so only those made since it exists.
+export function buildDriftReport(store: TweetStore, window: number = DEFAULT_DRIFT_WINDOW): DriftChange[] {
+  const promptChanges = store.listPromptChanges(MAX_CHANGES).map((change) => ({
+    kind: "prompt" as const,
+    at: change.at,
+    description: `${describePrompt(change.promptVersionId)} (was ${describePrompt(change.previousPromptVersionId)})`,
+    tweetId: null,
+    promptVersionId: change.promptVersionId,
+    actor: null,
+  }));
+  const goldChanges = store
+    .listAuditLog({ action: "tweet.gold-example" }, { pageSize: MAX_CHANGES })
+    .entries.map((entry) => ({
+      kind: "gold-example" as const,
+      at: entry.at,
+      description: describeGoldChange(entry.oldValue as GoldExampleValue, entry.newValue as GoldExampleValue, entry.tweetId!),
+      tweetId: entry.tweetId,
+      promptVersionId: null,
+      actor: entry.actor,
+    }));
+
+  return [...promptChanges, ...goldChanges]
+    .sort((a, b) => b.at.localeCompare(a.at))
+    .slice(0, MAX_CHANGES)
+    .map((change) => ({
+      ...change,
+      // A gold example's own tweet is left out, as in the gold example report
+      before: store.getDecisionWindow(change.at, "before", window, change.tweetId ?? ""),
+      after: store.getDecisionWindow(change.at, "after", window, change.tweetId ?? ""),
+    }));
+}
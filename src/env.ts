@@ -0,0 +1,19 @@
+// Integer settings from the environment. Unset or empty uses the fallback; anything else
+// must parse, so a typo fails at startup instead of quietly running with the default.
+export function readPositiveIntEnv(
+  name: string,
+  fallback: number,
+  options: { allowZero?: boolean } = {}
+): number {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+  const parsed = Number.parseInt(raw, 10);
+  const min = options.allowZero ? 0 : 1;
+  if (!Number.isFinite(parsed) || parsed < min) {
+    const expected = options.allowZero ? "a non-negative integer" : "a positive integer";
+    throw new Error(`Invalid ${name}: must be ${expected}, got ${raw}`);
+  }
+  return parsed;
+}
@@ -0,0 +1,216 @@
+import "dotenv/config";
+import { type OutputMode, resolveOutputMode } from "./gptClient.js";
+import { parseOutputMode } from "./decisionParser.js";
+import {
+  createLlmProvider,
+  parseProviderName,
+  parseReasoningEffort,
+  resolveLlmConfig,
+  type LlmConfig,
+} from "./llmProvider.js";
+import { createTweetStore, type PromptVersion } from "./tweetStore.js";
+import { parseInputContext, resolveInputContext, type InputContext } from "./tweetContext.js";
+import { loadFewShotExamples } from "./goldExamples.js";
+import {
+  parseExampleSelectionStrategy,
+  resolveExampleSelection,
+  type ExampleSelectionStrategy,
+} from "./exampleSelection.js";
+import {
+  compareReports,
+  formatMetric,
+  readReport,
+  runEval,
+  writeReport,
+  type EvalReport,
+} from "./evalHarness.js";
+
+// Replays human-labeled tweets through the model and reports how well its approvals
+// match the human decisions, e.g. to A/B a prompt version before activating it:
+//   npm run eval -- --prompt-version 3 --compare data/eval-reports/<baseline>.json
+
+type TweetStore = ReturnType<typeof createTweetStore>;
+
+const DEFAULT_DELAY_MS = 1000;
+
+type ParsedArgs = {
+  limit: number | undefined;
+  llm: Partial<LlmConfig>;
+  outputMode: OutputMode | undefined;
+  inputContext: InputContext[] | undefined;
+  promptVersion: number | undefined;  // Defaults to the active version
+  label: string | undefined;
+  compare: string | undefined;  // Baseline report (JSON) to diff against
+  examples: boolean;
+  exampleStrategy: ExampleSelectionStrategy | undefined;
+};
+
+function log(msg: string) {
+  console.log(`\x1b[90m${new Date().toISOString()}\x1b[0m ${msg}`);
+}
+
+function extractArguments(args: string[]): ParsedArgs {
+  let limit: number | undefined = undefined;
+  const llm: Partial<LlmConfig> = {};
+  let outputMode: OutputMode | undefined = undefined;
+  let inputContext: InputContext[] | undefined = undefined;
+  let promptVersion: number | undefined = undefined;
+  let label: string | undefined = undefined;
+  let compare: string | undefined = undefined;
+  let examples = true;
+  let exampleStrategy: ExampleSelectionStrategy | undefined = undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (flag === '--no-examples') {
+      examples = false;
+      continue;
+    }
+    if (!flag.startsWith('--')) {
+      throw new Error(`Unexpected argument: ${flag}`);
+    }
+    if (i + 1 >= args.length) {
+      throw new Error(`${flag} requires a value`);
+    }
+    const value = args[++i];
+
+    if (flag === '--limit') {
+      limit = parseInt(value, 10);
+    } else if (flag === '--provider') {
+      const provider = parseProviderName(value);
+      if (!provider) {
+        throw new Error(`Invalid provider: ${value}. Use: openai, openai-compatible, or mock`);
+      }
+      llm.provider = provider;
+    } else if (flag === '--model') {
+      llm.model = value;
+    } else if (flag === '--reasoning-effort') {
+      const effort = parseReasoningEffort(value);
+      if (!effort) {
+        throw new Error(`Invalid reasoning effort: ${value}. Use: none, minimal, low, medium, or high`);
+      }
+      llm.reasoningEffort = effort;
+    } else if (flag === '--output-mode') {
+      const mode = parseOutputMode(value);
+      if (!mode) {
+        throw new Error(`Invalid output mode: ${value}. Use: structured or text`);
+      }
+      outputMode = mode;
+    } else if (flag === '--input-context') {
+      const context = parseInputContext(value);
+      if (!context) {
+        throw new Error(`Invalid input context: ${value}. Use a comma-separated list of: author, quoted, thread (or none)`);
+      }
+      inputContext = context;
+    } else if (flag === '--prompt-version') {
+      promptVersion = parseInt(value.replace(/^v/i, ''), 10);
+    } else if (flag === '--label') {
+      label = value;
+    } else if (flag === '--compare') {
+      compare = value;
+    } else if (flag === '--example-strategy') {
+      const strategy = parseExampleSelectionStrategy(value);
+      if (!strategy) {
+        throw new Error(`Invalid example strategy: ${value}. Use: similar or recent`);
+      }
+      exampleStrategy = strategy;
+    } else {
+      throw new Error(`Unknown argument: ${flag}`);
+    }
+  }
+
+  if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+    throw new Error(`Invalid --limit value: must be a positive integer, got ${limit}`);
+  }
+  if (promptVersion !== undefined && (isNaN(promptVersion) || promptVersion <= 0)) {
+    throw new Error(`Invalid --prompt-version value: must be a version id, got ${promptVersion}`);
+  }
+
+  return { limit, llm, outputMode, inputContext, promptVersion, label, compare, examples, exampleStrategy };
+}
+
+function resolvePromptVersion(store: TweetStore, pinned?: number): PromptVersion | null {
+  if (pinned === undefined) {
+    return store.getActivePromptVersion();
+  }
+  const version = store.getPromptVersion(pinned);
+  if (!version) {
+    throw new Error(`Prompt version ${pinned} not found`);
+  }
+  return version;
+}
+
+function printSummary(report: EvalReport) {
+  const { metrics } = report;
+  const { confusion } = metrics;
+  log(`Precision ${formatMetric(metrics.precision)} · recall ${formatMetric(metrics.recall)} · F1 ${formatMetric(metrics.f1)} · accuracy ${formatMetric(metrics.accuracy)}`);
+  log(`Score correlation ${formatMetric(metrics.scoreCorrelation)} (mean score: human approved ${formatMetric(metrics.meanScoreHumanApproved, 1)}, rejected ${formatMetric(metrics.meanScoreHumanRejected, 1)})`);
+  log(`Confusion: TP ${confusion.truePositive} · FP ${confusion.falsePositive} · FN ${confusion.falseNegative} · TN ${confusion.trueNegative} · malformed ${metrics.errors}`);
+  for (const rule of metrics.rules) {
+    log(`  ${rule.label}: ${rule.rejected} rejected, ${rule.humanApproved} of them human-approved`);
+  }
+}
+
+async function main() {
+  let store: TweetStore | null = null;
+  try {
+    const args = extractArguments(process.argv.slice(2));
+    // Read the baseline first so a bad path fails before any model calls
+    const baseline = args.compare ? readReport(args.compare) : null;
+
+    store = createTweetStore();
+    const prompt = resolvePromptVersion(store, args.promptVersion);
+    const tweets = store.getLabeledTweets(args.limit);
+    if (tweets.length === 0) {
+      throw new Error("No human-labeled tweets to evaluate. Approve or reject some in the dashboard first.");
+    }
+    const examples = args.examples ? loadFewShotExamples(store) : [];
+    // Reports are written to disk only; the database is not touched after this
+    store.close();
+    store = null;
+
+    const provider = createLlmProvider(resolveLlmConfig(args.llm));
+    const inputContext = resolveInputContext(args.inputContext);
+    log(`Evaluating ${tweets.length} labeled tweets with ${provider.name}/${provider.model} and ${prompt ? `prompt v${prompt.id}` : "the built-in prompt"}`);
+
+    const report = await runEval(tweets, {
+      provider,
+      outputMode: resolveOutputMode(args.outputMode),
+      prompt,
+      examples,
+      exampleSelection: resolveExampleSelection(args.exampleStrategy ? { strategy: args.exampleStrategy } : {}),
+      inputContext,
+      label: args.label,
+      limit: args.limit,
+      delayMs: provider.name === "mock" ? 0 : DEFAULT_DELAY_MS,
+      onCase: (c, i, total) => {
+        const verdict = c.approved === null ? `error: ${c.error}` : c.approved ? `approve (${c.score})` : `reject [${c.rejectionRule}]`;
+        const match = c.approved !== null && c.approved === (c.humanDecision === "APPROVED");
+        log(`[${i + 1}/${total}] ${c.tweetId}: ${verdict} · human ${c.humanDecision}${match ? "" : " ✗"}`);
+      },
+    });
+
+    const comparison = baseline ? compareReports(report, baseline) : null;
+    printSummary(report);
+    if (comparison) {
+      log(`Compared with ${comparison.baselineLabel ?? comparison.baselineId} (${comparison.shared} shared tweets, ${comparison.flipped.length} flipped):`);
+      for (const m of comparison.metrics) {
+        log(`  ${m.metric}: ${formatMetric(m.baseline)} → ${formatMetric(m.current)}`);
+      }
+    }
+
+    const paths = writeReport(report, comparison);
+    log(`Report saved to ${paths.json} and ${paths.html}`);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error("Unknown error", error);
+    }
+    process.exitCode = 1;
+  } finally {
+    store?.close();
+  }
+}
+
+main();
@@ -0,0 +1,450 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import {
+  askTweetDecision,
+  MalformedResponseError,
+  type FewShotExample,
+  type LlmProvider,
+  type OutputMode,
+  type PromptOverride,
+} from "./gptClient.js";
+import { describeError } from "./processingQueue.js";
+import type { ExampleSelection } from "./exampleSelection.js";
+import { REJECTION_RULES, type RejectionRuleId } from "./rejectionRules.js";
+import { formatModelInput, type InputContext } from "./tweetContext.js";
+import type { HumanDecision, TweetRecord } from "./tweetStore.js";
+
+// Offline evaluation: replay human-labeled tweets through the model and score the
+// model's approvals against the human decisions. Nothing is written to the database;
+// each run is saved as a JSON + HTML report so prompt versions can be compared.
+
+export type EvalCase = {
+  tweetId: string;
+  text: string;
+  humanDecision: HumanDecision;
+  approved: boolean | null;  // null when the model output couldn't be parsed
+  score: number | null;
+  qt: string | null;
+  rejectionRule: RejectionRuleId | null;
+  rejectionReason: string | null;
+  latencyMs: number | null;
+  error: string | null;
+};
+
+export type ConfusionMatrix = {
+  truePositive: number;  // Model approved, human approved
+  falsePositive: number;  // Model approved, human rejected
+  falseNegative: number;  // Model rejected, human approved
+  trueNegative: number;  // Model rejected, human rejected
+};
+
+export type RuleBreakdown = {
+  rule: RejectionRuleId;
+  label: string;
+  rejected: number;  // Model rejections citing this rule
+  humanRejected: number;  // ... that the human also rejected
+  humanApproved: number;  // ... that the human approved (false rejections)
+  precision: number | null;
+};
+
+export type EvalMetrics = {
+  total: number;
+  evaluated: number;  // Cases with a parsed decision
+  errors: number;
+  confusion: ConfusionMatrix;
+  precision: number | null;  // Of model approvals, the share the human approved
+  recall: number | null;  // Of human approvals, the share the model approved
+  f1: number | null;
+  accuracy: number | null;
+  // Pearson correlation of the model score with human approval (1/0)
+  scoreCorrelation: number | null;
+  meanScoreHumanApproved: number | null;
+  meanScoreHumanRejected: number | null;
+  rules: RuleBreakdown[];
+};
+
+export type EvalRunConfig = {
+  provider: string;
+  model: string;
+  reasoningEffort: string | null;
+  outputMode: OutputMode;
+  promptVersionId: number | null;  // null = built-in prompt
+  promptVersion: string | null;  // Prompt hash, from the first completed call
+  inputContext: InputContext[];
+  examples: number;  // Few-shot examples available (the tweet being judged is always left out)
+  exampleSelection?: ExampleSelection;  // Missing in reports from before per-tweet selection
+  limit: number | null;
+};
+
+export type EvalReport = {
+  id: string;
+  label: string | null;
+  createdAt: string;
+  config: EvalRunConfig;
+  metrics: EvalMetrics;
+  cases: EvalCase[];
+};
+
+export type MetricDelta = {
+  metric: string;
+  baseline: number | null;
+  current: number | null;
+  delta: number | null;
+};
+
+export type EvalComparison = {
+  baselineId: string;
+  baselineLabel: string | null;
+  baselinePromptVersionId: number | null;
+  metrics: MetricDelta[];
+  shared: number;  // Tweets present in both runs
+  flipped: { tweetId: string; humanDecision: HumanDecision; baseline: boolean | null; current: boolean | null }[];
+};
+
+export type RunEvalOptions = {
+  provider: LlmProvider;
+  outputMode: OutputMode;
+  prompt: PromptOverride | null;
+  examples: FewShotExample[];
+  exampleSelection: ExampleSelection;
+  inputContext: InputContext[];
+  label?: string | null;
+  limit?: number | null;
+  delayMs?: number;  // Pause between calls, to stay under provider rate limits
+  onCase?: (evalCase: EvalCase, index: number, total: number) => void;
+};
+
+const DEFAULT_REPORTS_DIR = "data/eval-reports";
+
+export function getReportsDir(): string {
+  return path.resolve(process.env.EVAL_REPORTS_DIR || DEFAULT_REPORTS_DIR);
+}
+
+// Every call starts a fresh chain (previousResponseId: null) so the run neither reads
+// nor advances the conversation chain the processor uses
+export async function runEval(tweets: TweetRecord[], options: RunEvalOptions): Promise<EvalReport> {
+  const { provider, outputMode, prompt, examples, exampleSelection, inputContext } = options;
+  const cases: EvalCase[] = [];
+  let promptVersion: string | null = null;
+
+  for (let i = 0; i < tweets.length; i++) {
+    const tweet = tweets[i];
+    if (i > 0 && options.delayMs) {
+      await new Promise<void>((resolve) => setTimeout(resolve, options.delayMs));
+    }
+
+    const base: EvalCase = {
+      tweetId: tweet.id,
+      text: tweet.text,
+      humanDecision: tweet.humanDecision!,
+      approved: null,
+      score: null,
+      qt: null,
+      rejectionRule: null,
+      rejectionReason: null,
+      latencyMs: null,
+      error: null,
+    };
+
+    let evalCase: EvalCase;
+    try {
+      const decision = await askTweetDecision(formatModelInput(tweet, inputContext), {
+        prompt: prompt ?? undefined,
+        // A tweet that is also a gold example must not be shown its own answer
+        examples: examples.filter((ex) => ex.tweetId !== tweet.id),
+        exampleSelection,
+        previousResponseId: null,
+        provider,
+        outputMode,
+      });
+      promptVersion = promptVersion ?? decision.promptVersion;
+      evalCase = {
+        ...base,
+        approved: decision.approved,
+        score: decision.score,
+        qt: decision.qt,
+        rejectionRule: decision.rejectionRule,
+        rejectionReason: decision.rejectionReason,
+        latencyMs: decision.latencyMs,
+      };
+    } catch (error) {
+      // Malformed outputs count against the run; anything else (auth, network) aborts it
+      if (!(error instanceof MalformedResponseError)) {
+        throw error;
+      }
+      promptVersion = promptVersion ?? error.call?.promptVersion ?? null;
+      evalCase = { ...base, latencyMs: error.call?.latencyMs ?? null, error: describeError(error) };
+    }
+
+    cases.push(evalCase);
+    options.onCase?.(evalCase, i, tweets.length);
+  }
+
+  const createdAt = new Date().toISOString();
+  return {
+    id: `${createdAt.replace(/[:.]/g, "-")}-${prompt ? `v${prompt.id}` : "builtin"}`,
+    label: options.label ?? null,
+    createdAt,
+    config: {
+      provider: provider.name,
+      model: provider.model,
+      reasoningEffort: provider.reasoningEffort,
+      outputMode,
+      promptVersionId: prompt?.id ?? null,
+      promptVersion,
+      inputContext,
+      examples: examples.length,
+      exampleSelection,
+      limit: options.limit ?? null,
+    },
+    metrics: computeMetrics(cases),
+    cases,
+  };
+}
+
+export function computeMetrics(cases: EvalCase[]): EvalMetrics {
+  const confusion: ConfusionMatrix = { truePositive: 0, falsePositive: 0, falseNegative: 0, trueNegative: 0 };
+  const rules = new Map<RejectionRuleId, RuleBreakdown>(
+    REJECTION_RULES.map((rule) => [
+      rule.id,
+      { rule: rule.id, label: rule.label, rejected: 0, humanRejected: 0, humanApproved: 0, precision: null },
+    ])
+  );
+  const scores: number[] = [];
+  const labels: number[] = [];
+
+  for (const c of cases) {
+    if (c.approved === null) {
+      continue;
+    }
+    const humanApproved = c.humanDecision === "APPROVED";
+    if (c.approved) {
+      confusion[humanApproved ? "truePositive" : "falsePositive"]++;
+    } else {
+      confusion[humanApproved ? "falseNegative" : "trueNegative"]++;
+      const rule = c.rejectionRule ? rules.get(c.rejectionRule) : undefined;
+      if (rule) {
+        rule.rejected++;
+        rule[humanApproved ? "humanApproved" : "humanRejected"]++;
+      }
+    }
+    scores.push(c.score ?? 0);
+    labels.push(humanApproved ? 1 : 0);
+  }
+
+  const { truePositive: tp, falsePositive: fp, falseNegative: fn, trueNegative: tn } = confusion;
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  const evaluated = tp + fp + fn + tn;
+
+  return {
+    total: cases.length,
+    evaluated,
+    errors: cases.length - evaluated,
+    confusion,
+    precision,
+    recall,
+    f1: precision !== null && recall !== null && precision + recall > 0
+      ? (2 * precision * recall) / (precision + recall)
+      : null,
+    accuracy: ratio(tp + tn, evaluated),
+    scoreCorrelation: pearson(scores, labels),
+    meanScoreHumanApproved: mean(scores.filter((_, i) => labels[i] === 1)),
+    meanScoreHumanRejected: mean(scores.filter((_, i) => labels[i] === 0)),
+    rules: [...rules.values()]
+      .filter((rule) => rule.rejected > 0)
+      .map((rule) => ({ ...rule, precision: ratio(rule.humanRejected, rule.rejected) })),
+  };
+}
+
+export function compareReports(current: EvalReport, baseline: EvalReport): EvalComparison {
+  const keys = ["precision", "recall", "f1", "accuracy", "scoreCorrelation"] as const;
+  const baselineCases = new Map(baseline.cases.map((c) => [c.tweetId, c]));
+  const shared = current.cases.filter((c) => baselineCases.has(c.tweetId));
+
+  return {
+    baselineId: baseline.id,
+    baselineLabel: baseline.label,
+    baselinePromptVersionId: baseline.config.promptVersionId,
+    metrics: keys.map((metric) => {
+      const before = baseline.metrics[metric];
+      const after = current.metrics[metric];
+      return {
+        metric,
+        baseline: before,
+        current: after,
+        delta: before !== null && after !== null ? after - before : null,
+      };
+    }),
+    shared: shared.length,
+    flipped: shared
+      .filter((c) => baselineCases.get(c.tweetId)!.approved !== c.approved)
+      .map((c) => ({
+        tweetId: c.tweetId,
+        humanDecision: c.humanDecision,
+        baseline: baselineCases.get(c.tweetId)!.approved,
+        current: c.approved,
+      })),
+  };
+}
+
+export function readReport(file: string): EvalReport {
+  const report = JSON.parse(readFileSync(file, "utf8")) as EvalReport;
+  if (!report.id || !report.metrics || !Array.isArray(report.cases)) {
+    throw new Error(`${file} is not an eval report`);
+  }
+  return report;
+}
+
+// Writes <id>.json and <id>.html; returns both paths
+export function writeReport(
+  report: EvalReport,
+  comparison: EvalComparison | null,
+  dir: string = getReportsDir()
+): { json: string; html: string } {
+  mkdirSync(dir, { recursive: true });
+  const json = path.join(dir, `${report.id}.json`);
+  const html = path.join(dir, `${report.id}.html`);
+  writeFileSync(json, JSON.stringify({ ...report, comparison }, null, 2) + "\n");
+  writeFileSync(html, renderReportHtml(report, comparison));
+  return { json, html };
+}
+
+export function formatMetric(value: number | null, digits = 3): string {
+  return value === null ? "n/a" : value.toFixed(digits);
+}
+
+function renderReportHtml(report: EvalReport, comparison: EvalComparison | null): string {
+  const { config, metrics } = report;
+  const { confusion } = metrics;
+  const decision = (approved: boolean | null) =>
+    approved === null ? "error" : approved ? "approve" : "reject";
+
+  const comparisonSection = comparison
+    ? `
+  <h2>Compared with ${escapeHtml(comparison.baselineLabel ?? comparison.baselineId)}</h2>
+  <p class="muted">Baseline prompt: ${promptLabel(comparison.baselinePromptVersionId)} · ${comparison.shared} shared tweets · ${comparison.flipped.length} flipped</p>
+  <table>
+    <tr><th>Metric</th><th>Baseline</th><th>This run</th><th>Delta</th></tr>
+    ${comparison.metrics
+      .map(
+        (m) => `<tr><td>${m.metric}</td><td>${formatMetric(m.baseline)}</td><td>${formatMetric(m.current)}</td>` +
+          `<td class="${m.delta === null || m.delta === 0 ? "" : m.delta > 0 ? "up" : "down"}">` +
+          `${m.delta === null ? "n/a" : (m.delta > 0 ? "+" : "") + m.delta.toFixed(3)}</td></tr>`
+      )
+      .join("\n    ")}
+  </table>
+  ${comparison.flipped.length
+    ? `<table>
+    <tr><th>Tweet</th><th>Human</th><th>Baseline</th><th>This run</th></tr>
+    ${comparison.flipped
+      .map((f) => `<tr><td>${escapeHtml(f.tweetId)}</td><td>${f.humanDecision}</td><td>${decision(f.baseline)}</td><td>${decision(f.current)}</td></tr>`)
+      .join("\n    ")}
+  </table>`
+    : ""}`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Eval ${escapeHtml(report.label ?? report.id)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2933; }
+  table { border-collapse: collapse; margin: 0.5rem 0 1.5rem; }
+  th, td { border: 1px solid #d9dee3; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f3f5f7; }
+  .muted { color: #6b7785; }
+  .miss { background: #fff1f0; }
+  .up { color: #1a7f37; }
+  .down { color: #cf222e; }
+  td.text { max-width: 32rem; white-space: pre-wrap; }
+</style>
+</head>
+<body>
+  <h1>Eval ${escapeHtml(report.label ?? report.id)}</h1>
+  <p class="muted">${escapeHtml(report.createdAt)} · ${escapeHtml(config.provider)}/${escapeHtml(config.model)}${config.reasoningEffort ? ` (effort: ${escapeHtml(config.reasoningEffort)})` : ""} · prompt ${promptLabel(config.promptVersionId)}${config.promptVersion ? ` [${config.promptVersion}]` : ""} · ${config.outputMode} output · context: ${config.inputContext.join(", ") || "none"} · ${config.examples} few-shot examples${config.exampleSelection ? ` (${config.exampleSelection.strategy}, ${config.exampleSelection.goodCount} GOOD / ${config.exampleSelection.badCount} BAD)` : ""}</p>
+
+  <h2>Summary</h2>
+  <table>
+    <tr><th>Tweets</th><td>${metrics.total}</td></tr>
+    <tr><th>Malformed outputs</th><td>${metrics.errors}</td></tr>
+    <tr><th>Precision</th><td>${formatMetric(metrics.precision)}</td></tr>
+    <tr><th>Recall</th><td>${formatMetric(metrics.recall)}</td></tr>
+    <tr><th>F1</th><td>${formatMetric(metrics.f1)}</td></tr>
+    <tr><th>Accuracy</th><td>${formatMetric(metrics.accuracy)}</td></tr>
+    <tr><th>Score correlation</th><td>${formatMetric(metrics.scoreCorrelation)}</td></tr>
+    <tr><th>Mean score (human approved / rejected)</th><td>${formatMetric(metrics.meanScoreHumanApproved, 1)} / ${formatMetric(metrics.meanScoreHumanRejected, 1)}</td></tr>
+  </table>
+
+  <h2>Confusion matrix</h2>
+  <table>
+    <tr><th></th><th>Human approved</th><th>Human rejected</th></tr>
+    <tr><th>Model approved</th><td>${confusion.truePositive}</td><td>${confusion.falsePositive}</td></tr>
+    <tr><th>Model rejected</th><td>${confusion.falseNegative}</td><td>${confusion.trueNegative}</td></tr>
+  </table>
+
+  <h2>Rejections by rule</h2>
+  ${metrics.rules.length
+    ? `<table>
+    <tr><th>Rule</th><th>Rejected</th><th>Human agreed</th><th>Human approved</th><th>Precision</th></tr>
+    ${metrics.rules
+      .map((r) => `<tr><td>${escapeHtml(r.label)}</td><td>${r.rejected}</td><td>${r.humanRejected}</td><td>${r.humanApproved}</td><td>${formatMetric(r.precision)}</td></tr>`)
+      .join("\n    ")}
+  </table>`
+    : `<p class="muted">No rejections.</p>`}
+${comparisonSection}
+  <h2>Cases</h2>
+  <table>
+    <tr><th>Tweet</th><th>Text</th><th>Human</th><th>Model</th><th>Score</th><th>Rule / QT</th></tr>
+    ${report.cases
+      .map((c) => {
+        const miss = c.approved === null || c.approved !== (c.humanDecision === "APPROVED");
+        const detail = c.error ?? (c.approved ? c.qt : c.rejectionReason ?? c.rejectionRule) ?? "";
+        return `<tr${miss ? ' class="miss"' : ""}><td>${escapeHtml(c.tweetId)}</td><td class="text">${escapeHtml(c.text)}</td>` +
+          `<td>${c.humanDecision}</td><td>${decision(c.approved)}</td><td>${c.score ?? ""}</td><td class="text">${escapeHtml(detail)}</td></tr>`;
+      })
+      .join("\n    ")}
+  </table>
+</body>
+</html>
+`;
+}
+
+function promptLabel(promptVersionId: number | null): string {
+  return promptVersionId === null ? "built-in" : `v${promptVersionId}`;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+// null when either side has no variance (e.g. every tweet carries the same label)
+function pearson(xs: number[], ys: number[]): number | null {
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  if (meanX === null || meanY === null) {
+    return null;
+  }
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : null;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import { resolveExampleSelection, selectFewShotExamples, type ExampleSelection } from "./exampleSelection.js";
+import type { FewShotExample } from "./prompt.js";
+
+afterEach(() => {
+  for (const key of ["FEW_SHOT_STRATEGY", "FEW_SHOT_GOOD_COUNT", "FEW_SHOT_BAD_COUNT"]) delete process.env[key];
+});
+
+const good = (tweetId: string, tweetText: string, pinned = false): FewShotExample =>
+  ({ tweetId, tweetText, response: "Approved.", type: "GOOD", pinned });
+const bad = (tweetId: string, tweetText: string, pinned = false): FewShotExample =>
+  ({ tweetId, tweetText, response: "", correction: "Rejected: no", type: "BAD", pinned });
+
+// Newest first, as the store returns them
+const examples = [
+  good("g-mining", "New ASIC miners joined the network, hashrate at a record high"),
+  good("g-dagknight", "DAGKnight paper explained: parameterless consensus for the blockDAG"),
+  good("g-ghostdag", "GHOSTDAG ordering in the blockDAG is what lets blocks run in parallel"),
+  bad("b-price", "Price pump incoming, whales are loading up"),
+  bad("b-l2", "Our rollup L2 makes Kaspa scale"),
+];
+const ids = (selected: { tweetId?: string }[]) => selected.map((ex) => ex.tweetId);
+const selection = (goodCount: number, badCount: number, strategy: ExampleSelection["strategy"] = "similar") =>
+  ({ strategy, goodCount, badCount });
+
+test("similar picks the closest examples of each type", () => {
+  const picked = selectFewShotExamples(examples, "How does the blockDAG ordering handle parallel blocks?", selection(1, 1));
+  assert.deepEqual(ids(picked), ["g-ghostdag", "b-price"]);
+  assert.ok(picked[0].similarity! > 0);
+  // Nothing in common with either BAD example: the newest wins the tie
+  assert.equal(picked[1].similarity, 0);
+
+  assert.deepEqual(
+    ids(selectFewShotExamples(examples, "hashrate keeps climbing as miners plug in", selection(2, 1))),
+    ["g-mining", "g-dagknight", "b-price"]
+  );
+  assert.deepEqual(ids(selectFewShotExamples(examples, "is this rollup an L2?", selection(0, 1))), ["b-l2"]);
+});
+
+test("rare terms outweigh ones every example shares", () => {
+  const shared = [
+    good("g1", "kaspa kaspa kaspa network update"),
+    good("g2", "kaspa network kHeavyHash update"),
+  ];
+  assert.deepEqual(ids(selectFewShotExamples(shared, "kaspa kHeavyHash", selection(1, 0))), ["g2"]);
+});
+
+test("stopwords, links and case don't count", () => {
+  const picked = selectFewShotExamples(
+    [good("g1", "The DAG is here https://example.com/the"), good("g2", "what is the point of this")],
+    "WHAT IS THE DAG? https://example.com/point",
+    selection(2, 0)
+  );
+  assert.deepEqual(ids(picked), ["g1", "g2"]);
+  assert.equal(picked[1].similarity, 0);
+  assert.equal(picked[0].similarity, 1);
+});
+
+test("pinned examples always go in and take their type's slots first", () => {
+  const pinned = [...examples.slice(0, 2), good("g-pin", "gm", true), ...examples.slice(2)];
+  assert.deepEqual(ids(selectFewShotExamples(pinned, "blockDAG ordering", selection(1, 0))), ["g-pin"]);
+  assert.deepEqual(ids(selectFewShotExamples(pinned, "blockDAG ordering", selection(2, 0))), ["g-pin", "g-ghostdag"]);
+  // Pins beyond the slots are still used
+  assert.deepEqual(ids(selectFewShotExamples(pinned, "blockDAG ordering", selection(0, 0))), ["g-pin"]);
+});
+
+test("recent ignores the tweet and keeps store order", () => {
+  const picked = selectFewShotExamples(examples, "blockDAG ordering", selection(2, 1, "recent"));
+  assert.deepEqual(ids(picked), ["g-mining", "g-dagknight", "b-price"]);
+  assert.ok(picked.every((ex) => ex.similarity === null));
+});
+
+test("the selection comes from the environment, with overrides", () => {
+  assert.deepEqual(resolveExampleSelection(), { strategy: "similar", goodCount: 5, badCount: 5 });
+  process.env.FEW_SHOT_STRATEGY = "recent";
+  process.env.FEW_SHOT_GOOD_COUNT = "0";
+  process.env.FEW_SHOT_BAD_COUNT = "3";
+  assert.deepEqual(resolveExampleSelection(), { strategy: "recent", goodCount: 0, badCount: 3 });
+  assert.deepEqual(resolveExampleSelection({ strategy: "similar", badCount: 1 }), { strategy: "similar", goodCount: 0, badCount: 1 });
+  process.env.FEW_SHOT_STRATEGY = "random";
+  assert.throws(() => resolveExampleSelection(), /Invalid FEW_SHOT_STRATEGY: random/);
+  process.env.FEW_SHOT_STRATEGY = "similar";
+  process.env.FEW_SHOT_BAD_COUNT = "-1";
+  assert.throws(() => resolveExampleSelection(), /Invalid FEW_SHOT_BAD_COUNT/);
+});
@@ -0,0 +1,139 @@
+import { readPositiveIntEnv } from "./env.js";
+import type { FewShotExample } from "./prompt.js";
+
+// Which gold examples go into the prompt for a given tweet. "similar" ranks them by
+// TF-IDF cosine similarity to the tweet being judged, computed in-process over the gold
+// examples themselves; "recent" is the original behavior (most recently updated first).
+// Pinned examples are always included and fill their type's slots first.
+
+export type ExampleSelectionStrategy = "recent" | "similar";
+
+export type ExampleSelection = {
+  strategy: ExampleSelectionStrategy;
+  goodCount: number;  // Slots per type; pinned examples beyond this are still included
+  badCount: number;
+};
+
+export type SelectedExample = FewShotExample & {
+  similarity: number | null;  // Cosine similarity to the tweet; null for "recent"
+};
+
+const DEFAULT_EXAMPLES_PER_TYPE = 5;
+
+// Common English and crypto-twitter filler that would otherwise dominate short tweets
+const STOPWORDS = new Set([
+  "a", "about", "all", "also", "am", "an", "and", "any", "are", "as", "at", "be", "been", "but", "by",
+  "can", "could", "did", "do", "does", "for", "from", "get", "got", "had", "has", "have", "he", "her",
+  "here", "his", "how", "i", "if", "in", "into", "is", "it", "its", "just", "let", "like", "me", "more",
+  "my", "no", "not", "now", "of", "on", "one", "or", "our", "out", "over", "rt", "she", "so", "some",
+  "than", "that", "the", "their", "them", "then", "there", "these", "they", "this", "to", "up", "us",
+  "was", "we", "were", "what", "when", "which", "who", "why", "will", "with", "would", "you", "your",
+  "gm", "lol", "via", "amp",
+]);
+
+export function parseExampleSelectionStrategy(value?: string | null): ExampleSelectionStrategy | null {
+  if (value === "recent" || value === "similar") {
+    return value;
+  }
+  return null;
+}
+
+export function resolveExampleSelection(overrides: Partial<ExampleSelection> = {}): ExampleSelection {
+  const envStrategy = process.env.FEW_SHOT_STRATEGY;
+  if (envStrategy && !parseExampleSelectionStrategy(envStrategy)) {
+    throw new Error(`Invalid FEW_SHOT_STRATEGY: ${envStrategy}. Use: similar or recent`);
+  }
+  return {
+    strategy: overrides.strategy ?? parseExampleSelectionStrategy(envStrategy) ?? "similar",
+    goodCount: overrides.goodCount ?? resolveExampleCount("FEW_SHOT_GOOD_COUNT"),
+    badCount: overrides.badCount ?? resolveExampleCount("FEW_SHOT_BAD_COUNT"),
+  };
+}
+
+function resolveExampleCount(name: string): number {
+  return readPositiveIntEnv(name, DEFAULT_EXAMPLES_PER_TYPE, { allowZero: true });
+}
+
+// `examples` come newest first (as the store returns them), which breaks similarity ties
+export function selectFewShotExamples(
+  examples: FewShotExample[],
+  tweetText: string,
+  selection: ExampleSelection
+): SelectedExample[] {
+  const similarities = selection.strategy === "similar"
+    ? scoreSimilarity(examples.map((ex) => ex.tweetText), tweetText)
+    : null;
+  const ranked = examples
+    .map((ex, index) => ({ ex, index, similarity: similarities ? similarities[index] : null }))
+    .sort((a, b) =>
+      Number(Boolean(b.ex.pinned)) - Number(Boolean(a.ex.pinned))
+      || (b.similarity ?? 0) - (a.similarity ?? 0)
+      || a.index - b.index
+    );
+
+  const pick = (type: FewShotExample["type"], count: number) =>
+    ranked
+      .filter((entry) => entry.ex.type === type)
+      .filter((entry, i) => entry.ex.pinned || i < count)
+      .map((entry) => ({
+        ...entry.ex,
+        similarity: entry.similarity === null ? null : Math.round(entry.similarity * 1000) / 1000,
+      }));
+
+  return [...pick("GOOD", selection.goodCount), ...pick("BAD", selection.badCount)];
+}
+
+// Cosine similarity of each document to the query, with IDF weights from the documents
+function scoreSimilarity(documents: string[], query: string): number[] {
+  const docTerms = documents.map(termCounts);
+  const documentFrequency = new Map<string, number>();
+  for (const terms of docTerms) {
+    for (const term of terms.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+  const idf = (term: string) => Math.log((documents.length + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1;
+  const weigh = (terms: Map<string, number>) => {
+    const vector = new Map<string, number>();
+    for (const [term, count] of terms) {
+      vector.set(term, (1 + Math.log(count)) * idf(term));
+    }
+    return vector;
+  };
+
+  const queryVector = weigh(termCounts(query));
+  const queryNorm = norm(queryVector);
+  return docTerms.map((terms) => {
+    const vector = weigh(terms);
+    const denominator = norm(vector) * queryNorm;
+    if (denominator === 0) {
+      return 0;
+    }
+    let dot = 0;
+    for (const [term, weight] of vector) {
+      dot += weight * (queryVector.get(term) ?? 0);
+    }
+    return dot / denominator;
+  });
+}
+
+function termCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const tokens = text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ")
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function norm(vector: Map<string, number>): number {
+  let sum = 0;
+  for (const weight of vector.values()) {
+    sum += weight * weight;
+  }
+  return Math.sqrt(sum);
+}
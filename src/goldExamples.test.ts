@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+import { buildGoldExampleReport, isGoldExampleExpired, loadFewShotExamples } from "./goldExamples.js";
+import { createTweetStore } from "./tweetStore.js";
+
+const dir = mkdtempSync(path.join(tmpdir(), "kasfam-gold-"));
+process.env.SQLITE_DB_PATH = path.join(dir, "app.db");
+const store = createTweetStore();
+after(() => {
+  store.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+for (const id of ["g1", "g2", "g3"]) {
+  store.saveRaw({ id, text: `tweet ${id}`, url: `https://x.com/i/status/${id}` });
+  store.setGoldExample(id, "GOOD", null, "cli");
+}
+const selection = { strategy: "similar" as const, goodCount: 5, badCount: 5 };
+
+test("expired examples leave the prompt but stay in the report", () => {
+  const expired = store.updateGoldExampleDetails("g1", { note: null, tags: [], expiresAt: "2020-01-01" }, "cli");
+  assert.equal(expired?.expiresAt, "2020-01-01 00:00:00");
+  store.updateGoldExampleDetails("g2", { note: "keep", tags: [], expiresAt: "2999-01-01T12:00:00Z" }, "cli");
+
+  assert.deepEqual(loadFewShotExamples(store).map((ex) => ex.tweetId).sort(), ["g2", "g3"]);
+  const report = new Map(buildGoldExampleReport(store, selection).map((entry) => [entry.tweetId, entry]));
+  assert.equal(report.get("g1")!.status, "expired");
+  assert.equal(report.get("g1")!.expiresAt, "2020-01-01 00:00:00");
+  assert.equal(report.get("g2")!.status, "active");
+  assert.equal(report.get("g2")!.expiresAt, "2999-01-01 12:00:00");
+  assert.equal(report.get("g3")!.status, "active");
+});
+
+test("an example expires at its expiry time, in UTC", () => {
+  store.updateGoldExampleDetails("g3", { note: null, tags: [], expiresAt: "2030-06-01T08:00:00Z" }, "cli");
+  const tweet = store.get("g3")!;
+  assert.equal(isGoldExampleExpired(tweet, new Date("2030-06-01T07:59:59Z")), false);
+  assert.equal(isGoldExampleExpired(tweet, new Date("2030-06-01T08:00:00Z")), true);
+  assert.deepEqual(loadFewShotExamples(store, new Date("2030-06-02")).map((ex) => ex.tweetId), ["g2"]);
+});
+
+test("clearing an example drops its expiry", () => {
+  store.setGoldExample("g1", null, null, "cli");
+  store.setGoldExample("g1", "GOOD", null, "cli");
+  assert.equal(store.get("g1")!.goldExampleExpiresAt, null);
+  assert.equal(store.updateGoldExampleDetails("nope", { note: null, tags: [], expiresAt: null }, "cli"), null);
+});
@@ -0,0 +1,141 @@
+import { HIGH_BAR_CATEGORIES } from "./decisionParser.js";
+import { selectFewShotExamples, type ExampleSelection } from "./exampleSelection.js";
+import type { FewShotExample } from "./prompt.js";
+import { goldExampleResponse } from "./qtRevisions.js";
+import { REJECTION_RULES } from "./rejectionRules.js";
+import type { createTweetStore, DecisionWindow, GoldExampleType, TweetRecord } from "./tweetStore.js";
+
+// Gold examples are tweets marked GOOD or BAD. This module turns them into few-shot
+// examples, says whether each one can reach the prompt, and reports how often each was
+// injected and how production decisions moved after it was added.
+
+// "pinned" and "active": in every prompt; "in-rotation": picked when similar enough to
+// the tweet; "inactive": past its type's slots, so never used; "expired": past its expiry
+export type GoldExampleStatus = "pinned" | "active" | "in-rotation" | "inactive" | "expired";
+
+export type GoldExampleReportEntry = {
+  tweetId: string;
+  text: string;
+  url: string;
+  type: GoldExampleType;
+  correction: string | null;
+  pinned: boolean;
+  note: string | null;
+  tags: string[];
+  addedAt: string | null;
+  expiresAt: string | null;
+  status: GoldExampleStatus;
+  injected: number;
+  lastInjectedAt: string | null;
+  injectionRate: number | null;  // Share of production calls since it was added
+  before: DecisionWindow;  // The `window` production calls before it was added
+  after: DecisionWindow;  // ...and after
+};
+
+type TweetStore = ReturnType<typeof createTweetStore>;
+
+export const DEFAULT_IMPACT_WINDOW = 50;
+
+// What an example can be tagged with: the rule a BAD one breaks or the category a GOOD one clears
+export const GOLD_EXAMPLE_TAGS: string[] = [...REJECTION_RULES.map((rule) => rule.id), ...HIGH_BAR_CATEGORIES];
+
+export function toFewShotExample(tweet: TweetRecord): FewShotExample {
+  return {
+    tweetId: tweet.id,
+    tweetText: tweet.text,
+    response: goldExampleResponse(tweet),
+    correction: tweet.goldExampleCorrection ?? undefined,
+    type: tweet.goldExampleType!,
+    pinned: tweet.goldExamplePinned,
+  };
+}
+
+// Expiry is stored as SQLite UTC time ("YYYY-MM-DD HH:MM:SS")
+export function isGoldExampleExpired(tweet: TweetRecord, now: Date = new Date()): boolean {
+  return tweet.goldExampleExpiresAt !== null && new Date(`${tweet.goldExampleExpiresAt.replace(" ", "T")}Z`) <= now;
+}
+
+// The examples prompts can use: every gold example that hasn't expired
+export function loadFewShotExamples(store: TweetStore, now: Date = new Date()): FewShotExample[] {
+  return store.getGoldExamples().filter((tweet) => !isGoldExampleExpired(tweet, now)).map(toFewShotExample);
+}
+
+// Validate admin-submitted tags; returns an error message or the de-duplicated tags
+export function parseGoldExampleTags(input: unknown): string[] | string {
+  if (input === undefined || input === null) {
+    return [];
+  }
+  if (!Array.isArray(input) || input.some((tag) => typeof tag !== "string")) {
+    return "tags must be an array of strings.";
+  }
+  const unknown = input.filter((tag) => !GOLD_EXAMPLE_TAGS.includes(tag));
+  if (unknown.length) {
+    return `Unknown tags: ${unknown.join(", ")}. Use: ${GOLD_EXAMPLE_TAGS.join(", ")}`;
+  }
+  return [...new Set(input as string[])];
+}
+
+// `examples` in store order (newest first), as the processor loads them
+export function goldExampleStatuses(examples: FewShotExample[], selection: ExampleSelection): Map<string, GoldExampleStatus> {
+  const inEveryPrompt = new Set(
+    selectFewShotExamples(examples, "", { ...selection, strategy: "recent" }).map((ex) => ex.tweetId)
+  );
+  const slots = { GOOD: selection.goodCount, BAD: selection.badCount };
+  const ofType = (type: GoldExampleType) => examples.filter((ex) => ex.type === type);
+
+  const status = (ex: FewShotExample): GoldExampleStatus => {
+    if (ex.pinned) {
+      return "pinned";
+    }
+    if (selection.strategy === "recent") {
+      return inEveryPrompt.has(ex.tweetId) ? "active" : "inactive";
+    }
+    // Similarity only matters when there are more candidates than slots
+    const candidates = ofType(ex.type);
+    if (candidates.length <= slots[ex.type]) {
+      return "active";
+    }
+    return candidates.filter((other) => other.pinned).length < slots[ex.type] ? "in-rotation" : "inactive";
+  };
+
+  return new Map(examples.map((ex) => [ex.tweetId!, status(ex)]));
+}
+
+export function buildGoldExampleReport(
+  store: TweetStore,
+  selection: ExampleSelection,
+  window: number = DEFAULT_IMPACT_WINDOW
+): GoldExampleReportEntry[] {
+  const now = new Date();
+  const tweets = store.getGoldExamples();
+  // Expired examples are listed but don't compete for slots
+  const statuses = goldExampleStatuses(
+    tweets.filter((tweet) => !isGoldExampleExpired(tweet, now)).map(toFewShotExample),
+    selection
+  );
+  const usage = new Map(store.getGoldExampleUsage().map((row) => [row.tweetId, row]));
+
+  return tweets.map((tweet) => {
+    const used = usage.get(tweet.id);
+    const addedAt = tweet.goldExampleAddedAt;
+    const emptyWindow: DecisionWindow = { evaluations: 0, approvalRate: null, labeled: 0, humanAgreement: null };
+    return {
+      tweetId: tweet.id,
+      text: tweet.text,
+      url: tweet.url,
+      type: tweet.goldExampleType!,
+      correction: tweet.goldExampleCorrection,
+      pinned: tweet.goldExamplePinned,
+      note: tweet.goldExampleNote,
+      tags: tweet.goldExampleTags,
+      addedAt,
+      expiresAt: tweet.goldExampleExpiresAt,
+      status: statuses.get(tweet.id) ?? "expired",
+      injected: used?.injected ?? 0,
+      lastInjectedAt: used?.lastInjectedAt ?? null,
+      injectionRate: used?.evaluationsSinceAdded ? used.injected / used.evaluationsSinceAdded : null,
+      before: addedAt ? store.getDecisionWindow(addedAt, "before", window, tweet.id) : emptyWindow,
+      after: addedAt ? store.getDecisionWindow(addedAt, "after", window, tweet.id) : emptyWindow,
+    };
+  });
+}
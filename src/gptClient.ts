@@ -1,95 +1,187 @@
-import OpenAI from "openai";
-import { prompt as basePrompt, buildPromptWithExamples, type FewShotExample } from "./prompt.js";
+import { createHash } from "node:crypto";
+import {
+  prompt as basePrompt,
+  buildPromptWithExamples,
+  structuredOutputInstructions,
+  type FewShotExample,
+} from "./prompt.js";
+import {
+  createLlmProvider,
+  resolveLlmConfig,
+  type LlmProvider,
+  type LlmProviderName,
+  type LlmUsage,
+  type ReasoningEffort,
+} from "./llmProvider.js";
+import {
+  DECISION_JSON_SCHEMA,
+  DECISION_SCHEMA_NAME,
+  formatLegacyDecision,
+  MalformedResponseError,
+  parseDecision,
+  parseOutputMode,
+  type HighBarCategory,
+  type OutputMode,
+} from "./decisionParser.js";
+import { classifyRejection, type RejectionRuleId } from "./rejectionRules.js";
+import { resolveExampleSelection, selectFewShotExamples, type ExampleSelection } from "./exampleSelection.js";
 
-const openAiClient = new OpenAI({ apiKey: assertApiKey() });
+// Created on first use so importing this module never requires credentials
+let defaultProvider: LlmProvider | null = null;
 
-function assertApiKey(): string {
-  const key = process.env.OPENAI_API_KEY;
-  if (!key) {
-    throw new Error("Missing OPENAI_API_KEY environment variable.");
+export function getDefaultProvider(): LlmProvider {
+  if (!defaultProvider) {
+    defaultProvider = createLlmProvider(resolveLlmConfig());
   }
-  return key;
+  return defaultProvider;
 }
 
-export type AskTweetDecisionResult = {
-  quote: string;
+export function resolveOutputMode(override?: OutputMode): OutputMode {
+  if (override) {
+    return override;
+  }
+  const envMode = process.env.LLM_OUTPUT_MODE;
+  if (envMode && !parseOutputMode(envMode)) {
+    throw new Error(`Invalid LLM_OUTPUT_MODE: ${envMode}. Use: structured or text`);
+  }
+  return parseOutputMode(envMode) ?? "structured";
+}
+
+export type ExampleRef = {
+  tweetId: string | null;
+  type: FewShotExample["type"];
+  pinned: boolean;
+  similarity: number | null;  // To the tweet, when selected by similarity
+};
+
+// Everything about a model call except the parsed decision; also attached to
+// MalformedResponseError (as `call`) so unparseable outputs can be recorded too
+export type ModelCallDetails = {
+  provider: LlmProviderName;
+  model: string;
+  reasoningEffort: ReasoningEffort | null;
+  promptVersionId: number | null;  // Stored prompt version; null for the built-in prompt
+  promptVersion: string;  // Hash of the prompt without few-shot examples
+  modelInput: string;  // User content sent with the prompt
+  examples: ExampleRef[];  // Few-shot examples included in the prompt
+  previousResponseId: string | null;
+  responseId: string | null;  // For conversation chain persistence (null if provider has no chain)
+  rawResponse: string;
+  latencyMs: number;
+  usage: LlmUsage | null;
+};
+
+export type AskTweetDecisionResult = ModelCallDetails & {
+  quote: string;  // Decision rendered in the legacy "Approved./QT:/Percentile:" text format
   approved: boolean;
   score: number;  // Percentile 0-100
-  responseId: string;  // For conversation chain persistence
+  qt: string | null;  // QT text (approved only)
+  rejectionReason: string | null;  // Short reason (rejected only)
+  rejectionRule: RejectionRuleId | null;  // Rule category (rejected only)
+  rejectionRuleNumber: number | null;  // Prompt rule number, when the model reported one
+  categories: HighBarCategory[];
+  outputFormat: OutputMode;  // Format the response was actually parsed from
+};
+
+export type PromptOverride = {
+  id: number;
+  body: string;
 };
 
 export type AskTweetDecisionOptions = {
-  examples?: FewShotExample[];
+  prompt?: PromptOverride;  // Stored prompt version; defaults to the built-in prompt in src/prompt.ts
+  examples?: FewShotExample[];  // Candidates; the ones used are picked per tweet
+  exampleSelection?: ExampleSelection;  // Defaults to FEW_SHOT_* env settings
   previousResponseId?: string | null;  // For conversation memory chain
+  calibrationNote?: string | null;  // Summary of earlier decisions, for chains that were rolled over
+  provider?: LlmProvider;  // Defaults to the env-configured provider
+  outputMode?: OutputMode;  // Defaults to LLM_OUTPUT_MODE, then "structured"
 };
 
-export class MalformedResponseError extends Error {
-  constructor(message: string, public rawResponse: string) {
-    super(message);
-    this.name = "MalformedResponseError";
-  }
-}
-
 export async function askTweetDecision(
   tweetText: string,
   options: AskTweetDecisionOptions = {}
 ): Promise<AskTweetDecisionResult> {
   const { examples, previousResponseId } = options;
+  const provider = options.provider ?? getDefaultProvider();
+  const outputMode = resolveOutputMode(options.outputMode);
 
-  const systemPrompt = examples?.length
-    ? buildPromptWithExamples(examples)
-    : basePrompt;
-
-  const response = await openAiClient.responses.create({
-    model: "gpt-5.1",
-    input: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: tweetText },
-    ],
-    reasoning: {
-      effort: "high",
-    },
-    ...(previousResponseId ? { previous_response_id: previousResponseId } : {}),
-  });
-
-  const quote = response.output_text?.trim() ?? "";
-
-  // Validate response format
-  if (!quote) {
-    throw new MalformedResponseError("Empty response from model", quote);
-  }
+  const base = options.prompt?.body ?? basePrompt;
+  const selected = examples?.length
+    ? selectFewShotExamples(examples, tweetText, options.exampleSelection ?? resolveExampleSelection())
+    : [];
+  const withExamples = selected.length
+    ? buildPromptWithExamples(selected, base)
+    : base;
+  const promptBody = options.calibrationNote
+    ? `${withExamples}\n\n---\n\n${options.calibrationNote}\n`
+    : withExamples;
+  const systemPrompt =
+    outputMode === "structured" ? promptBody + structuredOutputInstructions : promptBody;
 
-  // Must start with "Approved" or "Rejected" (case-sensitive as per prompt)
-  const isApproved = quote.startsWith("Approved");
-  const isRejected = quote.startsWith("Rejected");
+  const startedAt = Date.now();
+  const response = await provider.complete({
+    systemPrompt,
+    userContent: tweetText,
+    previousResponseId,
+    ...(outputMode === "structured"
+      ? { responseFormat: { name: DECISION_SCHEMA_NAME, schema: DECISION_JSON_SCHEMA } }
+      : {}),
+  });
 
-  if (!isApproved && !isRejected) {
-    throw new MalformedResponseError(
-      `Response must start with "Approved" or "Rejected", got: "${quote.slice(0, 50)}..."`,
-      quote
-    );
-  }
+  const call: ModelCallDetails = {
+    provider: provider.name,
+    model: provider.model,
+    reasoningEffort: provider.reasoningEffort,
+    promptVersionId: options.prompt?.id ?? null,
+    promptVersion: hashPrompt(
+      outputMode === "structured" ? base + structuredOutputInstructions : base
+    ),
+    modelInput: tweetText,
+    examples: selected.map((ex) => ({
+      tweetId: ex.tweetId ?? null,
+      type: ex.type,
+      pinned: Boolean(ex.pinned),
+      similarity: ex.similarity,
+    })),
+    previousResponseId: previousResponseId ?? null,
+    responseId: response.responseId,
+    rawResponse: response.text,
+    latencyMs: Date.now() - startedAt,
+    usage: response.usage,
+  };
 
-  // Parse percentile for approved tweets
-  let score = 0;
-  if (isApproved) {
-    const percentileMatch = quote.match(/Percentile:\s*(\d+)/i);
-    if (!percentileMatch) {
-      throw new MalformedResponseError(
-        `Approved response missing Percentile field: "${quote.slice(0, 100)}..."`,
-        quote
-      );
-    }
-    score = parseInt(percentileMatch[1], 10);
-    if (score < 0 || score > 100) {
-      throw new MalformedResponseError(
-        `Percentile must be 0-100, got: ${score}`,
-        quote
-      );
+  // Throws MalformedResponseError on anything that doesn't validate
+  let decision;
+  try {
+    decision = parseDecision(response.text, outputMode);
+  } catch (error) {
+    if (error instanceof MalformedResponseError) {
+      error.call = call;
     }
+    throw error;
   }
 
-  return { quote, approved: isApproved, score, responseId: response.id };
+  return {
+    ...call,
+    quote: decision.format === "text" ? response.text.trim() : formatLegacyDecision(decision),
+    approved: decision.approved,
+    score: decision.score,
+    qt: decision.approved ? decision.qtLines.join("\n") : null,
+    rejectionReason: decision.reason,
+    rejectionRule: decision.approved
+      ? null
+      : classifyRejection(decision.reason, decision.rejectionRule),
+    rejectionRuleNumber: decision.rejectionRule,
+    categories: decision.categories,
+    outputFormat: decision.format,
+  };
+}
+
+function hashPrompt(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, 12);
 }
 
+export { MalformedResponseError, type OutputMode } from "./decisionParser.js";
 export { type FewShotExample } from "./prompt.js";
+export { type LlmProvider } from "./llmProvider.js";
@@ -3,52 +3,89 @@ import {
   askTweetDecision,
   MalformedResponseError,
   type FewShotExample,
+  type OutputMode,
 } from "./gptClient.js";
-import { createTweetStore, type TweetDecisionInput, type TweetRawInput } from "./tweetStore.js";
-import { createXClient } from "./xClient.js";
-
-type Tweet = {
-  id: string;
-  text: string;
-  url: string;
-  author: {
-    username: string;
-  };
+import { parseOutputMode } from "./decisionParser.js";
+import {
+  createLlmProvider,
+  parseProviderName,
+  parseReasoningEffort,
+  resolveLlmConfig,
+  type LlmConfig,
+} from "./llmProvider.js";
+import {
+  createTweetStore,
+  type PromptVersion,
+  type QueueItem,
+  type TweetDecisionInput,
+  type TweetRawInput,
+} from "./tweetStore.js";
+import {
+  classifyProcessingError,
+  describeError,
+  isRateLimitError,
+  resolveRetryPolicy,
+} from "./processingQueue.js";
+import { createXClient, searchFromCursor } from "./xClient.js";
+import {
+  DEFAULT_FEED_URL,
+  isSourceDue,
+  isXSource,
+  sourceSearchQuery,
+  type TweetSourceRecord,
+} from "./tweetSources.js";
+import { normalizeFeedTweet, type FetchedTweet } from "./tweetMetadata.js";
+import {
+  parseInputContext,
+  prepareModelInput,
+  resolveInputContext,
+  type InputContext,
+} from "./tweetContext.js";
+import { loadFewShotExamples } from "./goldExamples.js";
+import { describeShadowRun, resolveShadowRun, runShadowEvaluation } from "./shadow.js";
+import { beginCalibrationTurn, finishCalibrationTurn, resolveCalibrationSession } from "./calibration.js";
+import { resolveExampleSelection } from "./exampleSelection.js";
+import { readPositiveIntEnv } from "./env.js";
+
+type Tweet = FetchedTweet & {
+  sourceId?: number;  // Saved source that returned the tweet (feed runs only)
 };
 
 type TweetSource = "kaspa-news" | "x-api" | "both";
 
 type TweetStore = ReturnType<typeof createTweetStore>;
 
-const RESPONSE_ID_KEY = "previousResponseId";
+const DEFAULT_WATCH_INTERVAL_SECONDS = 300;
 
 function log(msg: string) {
   console.log(`\x1b[90m${new Date().toISOString()}\x1b[0m ${msg}`);
 }
 
-async function getKaspaNewsFeed(limit?: number): Promise<Tweet[]> {
-  const res = await fetch("https://kaspa.news/api/kaspa-tweets", {
+// Feeds use the kaspa.news response shape: { tweets: [{ id, text, url, author: { username } }] },
+// optionally with the metadata fields understood by normalizeFeedTweet
+async function getJsonFeed(url: string): Promise<Tweet[]> {
+  const res = await fetch(url, {
     headers: { Accept: "application/json" },
   });
   if (!res.ok) {
     throw new Error(
-      `Failed to fetch kaspa tweets: ${res.status} ${res.statusText}`
+      `Failed to fetch ${url}: ${res.status} ${res.statusText}`
     );
   }
   const response = await res.json();
-  const allTweets = response.tweets ?? [];
+  return normalizeFeedTweets(response.tweets);
+}
 
-  // apply client-side limiting if specified
-  if (limit !== undefined && limit > 0) {
-    return allTweets.slice(0, limit);
+function normalizeFeedTweets(raw: unknown): Tweet[] {
+  if (!Array.isArray(raw)) {
+    return [];
   }
-
-  return allTweets;
+  return raw.flatMap((entry) => normalizeFeedTweet(entry) ?? []);
 }
 
 // Returns { found, notFound } - does not throw on missing IDs
 async function findTweetsInKaspaNews(tweetIds: string[]): Promise<{ found: Tweet[]; notFound: string[] }> {
-  const res = await fetch("https://kaspa.news/api/kaspa-tweets", {
+  const res = await fetch(DEFAULT_FEED_URL, {
     headers: { Accept: "application/json" },
   });
   if (!res.ok) {
@@ -57,20 +94,15 @@ async function findTweetsInKaspaNews(tweetIds: string[]): Promise<{ found: Tweet
     );
   }
   const response = await res.json();
-  const allTweets = response.tweets ?? [];
+  const allTweets = normalizeFeedTweets(response.tweets);
 
-  const found = allTweets.filter((t: Tweet) => tweetIds.includes(t.id));
-  const foundIds = found.map((t: Tweet) => t.id);
+  const found = allTweets.filter((t) => tweetIds.includes(t.id));
+  const foundIds = found.map((t) => t.id);
   const notFound = tweetIds.filter(id => !foundIds.includes(id));
 
   return { found, notFound };
 }
 
-async function getXApiFeed(): Promise<Tweet[]> {
-  const client = createXClient();
-  return await client.searchTweets();
-}
-
 async function getXApiTweetsByIds(tweetIds: string[]): Promise<Tweet[]> {
   const client = createXClient();
   return await client.getTweetsByIds(tweetIds);
@@ -130,8 +162,34 @@ async function getTweetsByIds(source: TweetSource, tweetIds: string[]): Promise<
   return found;
 }
 
-// Fetch tweets from feed (no specific IDs)
-async function getTweetsFeed(source: TweetSource, limit?: number): Promise<Tweet[]> {
+function matchesSourceSelection(saved: TweetSourceRecord, source: TweetSource): boolean {
+  if (source === "kaspa-news") {
+    return saved.type === "feed";
+  }
+  if (source === "x-api") {
+    return isXSource(saved.type);
+  }
+  return true;
+}
+
+async function fetchSavedSource(
+  store: TweetStore,
+  saved: TweetSourceRecord,
+  advanceCursor: boolean
+): Promise<Tweet[]> {
+  if (saved.type === "feed") {
+    return getJsonFeed(saved.value);
+  }
+  return searchFromCursor(createXClient(), store, sourceSearchQuery(saved), advanceCursor, log);
+}
+
+// Fetch tweets from the enabled saved sources that are due (no specific IDs).
+// --source narrows the run to feed sources (kaspa-news) or X sources (x-api).
+async function getTweetsFeed(
+  store: TweetStore,
+  source: TweetSource,
+  limit?: number
+): Promise<Tweet[]> {
   const tweets: Tweet[] = [];
   const seenIds = new Set<string>();
 
@@ -144,33 +202,35 @@ async function getTweetsFeed(source: TweetSource, limit?: number): Promise<Tweet
     }
   };
 
-  if (source === "kaspa-news" || source === "both") {
-    try {
-      const kaspaNewsTweets = await getKaspaNewsFeed();
-      log(`Fetched ${kaspaNewsTweets.length} tweets from kaspa.news`);
-      addTweets(kaspaNewsTweets);
-    } catch (error) {
-      if (source === "both") {
-        console.warn(`Warning: Failed to fetch from kaspa.news: ${error}`);
-      } else {
-        throw error;
-      }
-    }
+  const enabled = store
+    .listSources({ enabledOnly: true })
+    .filter((saved) => matchesSourceSelection(saved, source));
+  const due = enabled.filter((saved) => isSourceDue(saved));
+  if (enabled.length === 0) {
+    console.warn(`Warning: No enabled sources match --source ${source}`);
+  } else if (due.length < enabled.length) {
+    log(`Skipping ${enabled.length - due.length} source(s) not due yet`);
   }
 
-  if (source === "x-api" || source === "both") {
+  let failures = 0;
+  for (const saved of due) {
     try {
-      const xApiTweets = await getXApiFeed();
-      log(`Fetched ${xApiTweets.length} tweets from X API`);
-      addTweets(xApiTweets);
+      const fetched = await fetchSavedSource(store, saved, limit === undefined);
+      store.recordSourceRun(saved.id, { fetched: fetched.length });
+      log(`Fetched ${fetched.length} tweets from ${saved.name}`);
+      addTweets(fetched.map((tweet) => ({ ...tweet, sourceId: saved.id })));
     } catch (error) {
-      if (source === "both") {
-        console.warn(`Warning: Failed to fetch from X API: ${error}`);
-      } else {
-        throw error;
-      }
+      failures++;
+      store.recordSourceRun(saved.id, { error: describeError(error) });
+      console.warn(`Warning: Failed to fetch from ${saved.name}: ${error}`);
     }
   }
+  // Not fatal: the queue may still hold retries from earlier runs that are due
+  if (due.length > 0 && failures === due.length) {
+    const message = `All ${due.length} due source(s) failed to fetch`;
+    console.error(`Error: ${message}`);
+    store.updateProcessorStatus({ lastError: message, lastErrorAt: new Date().toISOString() });
+  }
 
   log(`Total unique tweets: ${tweets.length}`);
 
@@ -183,20 +243,32 @@ async function getTweetsFeed(source: TweetSource, limit?: number): Promise<Tweet
   return tweets;
 }
 
-async function getTweets(source: TweetSource, limit?: number, tweetIds?: string[]): Promise<Tweet[]> {
+async function getTweets(
+  store: TweetStore,
+  source: TweetSource,
+  limit?: number,
+  tweetIds?: string[]
+): Promise<Tweet[]> {
   // If specific tweet IDs requested, use ID-based lookup
   if (tweetIds !== undefined && tweetIds.length > 0) {
     return getTweetsByIds(source, tweetIds);
   }
 
   // Otherwise fetch from feed
-  return getTweetsFeed(source, limit);
+  return getTweetsFeed(store, source, limit);
 }
 
 type ParsedArgs = {
   source: TweetSource;
   limit: number | undefined;
   tweetIds: string[] | undefined;
+  llm: Partial<LlmConfig>;
+  outputMode: OutputMode | undefined;
+  inputContext: InputContext[] | undefined;
+  promptVersion: number | undefined;  // Pin a stored prompt version instead of the active one
+  session: string | undefined;  // Calibration session to continue (created if missing) instead of the active one
+  watch: boolean;
+  intervalSeconds: number;
 };
 
 function getDefaultSource(): TweetSource {
@@ -207,10 +279,21 @@ function getDefaultSource(): TweetSource {
   return "kaspa-news";
 }
 
+function getDefaultInterval(): number {
+  return readPositiveIntEnv("WATCH_INTERVAL_SECONDS", DEFAULT_WATCH_INTERVAL_SECONDS);
+}
+
 function extractArguments(args: string[]): ParsedArgs {
   let source: TweetSource = getDefaultSource();
   let limit: number | undefined = undefined;
   let tweetIds: string[] | undefined = undefined;
+  const llm: Partial<LlmConfig> = {};
+  let outputMode: OutputMode | undefined = undefined;
+  let inputContext: InputContext[] | undefined = undefined;
+  let promptVersion: number | undefined = undefined;
+  let session: string | undefined = undefined;
+  let watch = false;
+  let intervalSeconds = getDefaultInterval();
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--source') {
@@ -236,15 +319,81 @@ function extractArguments(args: string[]): ParsedArgs {
       }
       tweetIds = args[i + 1].split(',').map(id => id.trim()).filter(id => id.length > 0);
       i++;
+    } else if (args[i] === '--provider') {
+      if (i + 1 >= args.length) {
+        throw new Error('--provider requires a value');
+      }
+      const provider = parseProviderName(args[i + 1]);
+      if (!provider) {
+        throw new Error(`Invalid provider: ${args[i + 1]}. Use: openai, openai-compatible, or mock`);
+      }
+      llm.provider = provider;
+      i++;
+    } else if (args[i] === '--model') {
+      if (i + 1 >= args.length) {
+        throw new Error('--model requires a value');
+      }
+      llm.model = args[i + 1];
+      i++;
+    } else if (args[i] === '--reasoning-effort') {
+      if (i + 1 >= args.length) {
+        throw new Error('--reasoning-effort requires a value');
+      }
+      const effort = parseReasoningEffort(args[i + 1]);
+      if (!effort) {
+        throw new Error(`Invalid reasoning effort: ${args[i + 1]}. Use: none, minimal, low, medium, or high`);
+      }
+      llm.reasoningEffort = effort;
+      i++;
+    } else if (args[i] === '--output-mode') {
+      if (i + 1 >= args.length) {
+        throw new Error('--output-mode requires a value');
+      }
+      const mode = parseOutputMode(args[i + 1]);
+      if (!mode) {
+        throw new Error(`Invalid output mode: ${args[i + 1]}. Use: structured or text`);
+      }
+      outputMode = mode;
+      i++;
+    } else if (args[i] === '--input-context') {
+      if (i + 1 >= args.length) {
+        throw new Error('--input-context requires a value');
+      }
+      const context = parseInputContext(args[i + 1]);
+      if (!context) {
+        throw new Error(`Invalid input context: ${args[i + 1]}. Use a comma-separated list of: author, quoted, thread (or none)`);
+      }
+      inputContext = context;
+      i++;
+    } else if (args[i] === '--prompt-version') {
+      if (i + 1 >= args.length) {
+        throw new Error('--prompt-version requires a value');
+      }
+      promptVersion = parseInt(args[i + 1].replace(/^v/i, ''), 10);
+      i++;
+    } else if (args[i] === '--session') {
+      if (i + 1 >= args.length) {
+        throw new Error('--session requires a value');
+      }
+      session = args[i + 1].trim();
+      i++;
+    } else if (args[i] === '--watch') {
+      watch = true;
+    } else if (args[i] === '--interval') {
+      if (i + 1 >= args.length) {
+        throw new Error('--interval requires a value');
+      }
+      intervalSeconds = parseInt(args[i + 1], 10);
+      i++;
     } else if (args[i].startsWith('--')) {
       throw new Error(`Unknown argument: ${args[i]}`);
-    } else if (i === 0 || !args[i - 1].startsWith('--')) {
+    } else if (i === 0 || !args[i - 1].startsWith('--') || args[i - 1] === '--watch') {
       // standalone value that's not following a flag
       throw new Error(`Unexpected argument: ${args[i]}`);
     }
   }
 
-  return { source, limit, tweetIds };
+  return { source, limit, tweetIds, llm, outputMode, inputContext, promptVersion, session, watch, intervalSeconds };
 }
 
 function validateArguments(parsed: ParsedArgs): void {
@@ -265,6 +414,22 @@ function validateArguments(parsed: ParsedArgs): void {
     }
   }
 
+  if (parsed.promptVersion !== undefined && (isNaN(parsed.promptVersion) || parsed.promptVersion <= 0)) {
+    throw new Error(`Invalid --prompt-version value: must be a version id, got ${parsed.promptVersion}`);
+  }
+
+  if (parsed.session !== undefined && parsed.session === '') {
+    throw new Error('--session cannot be empty');
+  }
+
+  if (isNaN(parsed.intervalSeconds) || parsed.intervalSeconds <= 0) {
+    throw new Error(`Invalid --interval value: must be a positive integer (seconds), got ${parsed.intervalSeconds}`);
+  }
+
+  if (parsed.watch && parsed.tweetIds !== undefined) {
+    throw new Error('--watch cannot be combined with --tweet-id');
+  }
+
   // warn if both limit and tweetIds are provided (tweetIds takes precedence)
   if (parsed.limit !== undefined && parsed.tweetIds !== undefined) {
     console.warn('Warning: both --limit and --tweet-id provided. --tweet-id takes precedence, --limit will be ignored.');
@@ -278,142 +443,377 @@ function parseArgs(): ParsedArgs {
   return parsed;
 }
 
-function loadFewShotExamples(store: TweetStore): FewShotExample[] {
-  const goldExamples = store.getGoldExamples();
-  return goldExamples.map(ex => ({
-    tweetText: ex.text,
-    response: ex.quote,
-    correction: ex.goldExampleCorrection ?? undefined,
-    type: ex.goldExampleType!,
-  }));
+// The pinned --prompt-version, else the version activated in the dashboard.
+// Re-read every run, so a watch daemon picks up a newly activated version on its next poll.
+function resolvePromptVersion(store: TweetStore, pinned?: number): PromptVersion | null {
+  if (pinned === undefined) {
+    return store.getActivePromptVersion();
+  }
+  const version = store.getPromptVersion(pinned);
+  if (!version) {
+    throw new Error(`Prompt version ${pinned} not found`);
+  }
+  return version;
 }
 
-async function main() {
-  const { source, limit, tweetIds } = parseArgs();
-  log(`Using source: ${source}`);
-
-  let store: TweetStore | null = null;
-  try {
-    store = createTweetStore();
-    const tweets = await getTweets(source, limit, tweetIds);
+// Explicit --tweet-id runs ignore backoff (but not dead letters); otherwise take everything that's due
+function selectQueueItems(store: TweetStore, tweetIds?: string[]): QueueItem[] {
+  if (tweetIds === undefined || tweetIds.length === 0) {
+    return store.getDueQueueItems();
+  }
 
-    // save all tweets to db first (without model decision)
-    for (const tweet of tweets) {
-      const rawInput: TweetRawInput = {
-        id: tweet.id,
-        text: tweet.text,
-        url: tweet.url,
-      };
-      store.saveRaw(rawInput);
+  const items: QueueItem[] = [];
+  for (const id of tweetIds) {
+    const item = store.getQueueItem(id);
+    if (!item) {
+      continue;
     }
-    log(`Saved ${tweets.length} tweets to database`);
-
-    // load gold examples for few-shot learning
-    const fewShotExamples = loadFewShotExamples(store);
-    if (fewShotExamples.length > 0) {
-      log(`Loaded ${fewShotExamples.length} gold examples for few-shot learning`);
+    if (item.status === "dead") {
+      log(`Skipping dead-lettered tweet ${id} (requeue it from the dashboard first)`);
+      continue;
     }
+    items.push(item);
+  }
+  return items;
+}
 
-    // Filter tweets that need processing
-    const tweetsToProcess: Tweet[] = [];
-    for (const tweet of tweets) {
-      if (tweet.author.username === "kaspaunchained") {
-        log(`Skipping self-tweet: ${tweet.id}`);
-        continue;
-      }
-      if (store.hasModelDecision(tweet.id)) {
+type RunSummary = {
+  fetched: number;
+  queued: number;
+  approved: number;
+  rejected: number;
+  retrying: number;
+  deadLettered: number;
+};
+
+// Set by SIGTERM/SIGINT: the in-flight tweet finishes, nothing new starts
+const shutdown = {
+  requested: false,
+  wake: null as (() => void) | null,
+};
+
+function requestShutdown(signal: string) {
+  if (shutdown.requested) {
+    log(`Received ${signal} again, exiting immediately`);
+    process.exit(1);
+  }
+  shutdown.requested = true;
+  log(`Received ${signal}, stopping after the current tweet...`);
+  shutdown.wake?.();
+}
+
+// setTimeout that returns early when shutdown is requested
+function interruptibleSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      shutdown.wake = null;
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    shutdown.wake = done;
+  });
+}
+
+// Fetch, queue and evaluate once; used both for one-shot runs and each watch cycle
+async function runOnce(store: TweetStore, args: ParsedArgs): Promise<RunSummary> {
+  const { source, limit, tweetIds, llm, outputMode } = args;
+  const summary: RunSummary = { fetched: 0, queued: 0, approved: 0, rejected: 0, retrying: 0, deadLettered: 0 };
+
+  store.updateProcessorStatus({ state: "polling", lastPollAt: new Date().toISOString() });
+  const tweets = await getTweets(store, source, limit, tweetIds);
+  summary.fetched = tweets.length;
+
+  // save all tweets to db first (without model decision)
+  for (const tweet of tweets) {
+    const rawInput: TweetRawInput = {
+      id: tweet.id,
+      text: tweet.text,
+      url: tweet.url,
+      sourceId: tweet.sourceId ?? null,
+      metadata: tweet,
+    };
+    store.saveRaw(rawInput);
+  }
+  log(`Saved ${tweets.length} tweets to database`);
+
+  // load gold examples for few-shot learning
+  const fewShotExamples = loadFewShotExamples(store);
+  if (fewShotExamples.length > 0) {
+    log(`Loaded ${fewShotExamples.length} gold examples for few-shot learning`);
+  }
+
+  // Queue tweets that need processing (the queue also carries retries from earlier runs)
+  for (const tweet of tweets) {
+    if (tweet.author.username === "kaspaunchained") {
+      log(`Skipping self-tweet: ${tweet.id}`);
+      continue;
+    }
+    if (store.hasModelDecision(tweet.id)) {
+      if (!args.watch) {
         log(`Skipping tweet ${tweet.id} (already has model decision)`);
-        continue;
       }
-      tweetsToProcess.push(tweet);
+      continue;
+    }
+    store.enqueue(tweet.id);
+  }
+
+  const queueItems = selectQueueItems(store, tweetIds);
+  summary.queued = queueItems.length;
+  if (queueItems.length === 0) {
+    log("No new tweets to process.");
+    return summary;
+  }
+
+  log(`Found ${queueItems.length} tweets needing evaluation`);
+  store.updateProcessorStatus({ state: "processing" });
+
+  const provider = createLlmProvider(resolveLlmConfig(llm));
+  log(`Using model: ${provider.name}/${provider.model}${provider.reasoningEffort ? ` (effort: ${provider.reasoningEffort})` : ""}`);
+  const retryPolicy = resolveRetryPolicy();
+  const inputContext = resolveInputContext(args.inputContext);
+  if (inputContext.length > 0) {
+    log(`Including ${inputContext.join(", ")} context in model input`);
+  }
+  const exampleSelection = resolveExampleSelection();
+  if (fewShotExamples.length > 0) {
+    log(`Picking up to ${exampleSelection.goodCount} GOOD / ${exampleSelection.badCount} BAD examples per tweet (${exampleSelection.strategy})`);
+  }
+  const promptVersion = resolvePromptVersion(store, args.promptVersion);
+  log(promptVersion ? `Using prompt version v${promptVersion.id}` : "Using built-in prompt");
+  const shadowRun = resolveShadowRun(store, promptVersion);
+  if (shadowRun) {
+    log(`Shadow mode: also evaluating with ${describeShadowRun(shadowRun)}`);
+  }
+
+  // Conversation memory lives in a calibration session; its head is re-read before every call
+  const session = resolveCalibrationSession(store, args.session);
+  log(
+    session.headResponseId
+      ? `Resuming calibration session "${session.name}" from: ${session.headResponseId.slice(-8)}`
+      : `Starting calibration session "${session.name}" with a new conversation chain`
+  );
+
+  // Process tweets one at a time (conversation memory accumulates context)
+  for (let i = 0; i < queueItems.length; i++) {
+    if (shutdown.requested) {
+      log(`Shutdown requested, leaving ${queueItems.length - i} tweets queued`);
+      break;
     }
 
-    if (tweetsToProcess.length === 0) {
-      log("No new tweets to process.");
-      return;
+    const item = queueItems[i];
+    const tweet = store.get(item.tweetId);
+    if (!tweet || tweet.approved !== null) {
+      // Gone, or decided elsewhere (e.g. from the dashboard) since it was queued
+      store.completeQueueItem(item.tweetId);
+      continue;
     }
 
-    log(`Found ${tweetsToProcess.length} tweets needing evaluation`);
+    log(`\n[${i + 1}/${queueItems.length}] Evaluating tweet${item.attempts > 0 ? ` (retry ${item.attempts})` : ""}...`);
 
-    // Load persistent conversation memory from database
-    let previousResponseId = store.getConfig(RESPONSE_ID_KEY);
-    if (previousResponseId) {
-      log(`Resuming conversation chain from: ${previousResponseId.slice(-8)}`);
-    } else {
-      log(`Starting new conversation chain`);
+    await interruptibleSleep(1000);
+    if (shutdown.requested) {
+      log(`Shutdown requested, leaving ${queueItems.length - i} tweets queued`);
+      break;
     }
 
-    // Process tweets one at a time (conversation memory accumulates context)
-    let approvedCount = 0;
-    let rejectedCount = 0;
-    let skippedCount = 0;
+    try {
+      const modelInput = await prepareModelInput(tweet, inputContext, store.saveContext);
+      const turn = beginCalibrationTurn(store, session.id);
+      if (turn.rolledOver) {
+        log(`  [session "${turn.session.name}" rolled over (${turn.rolledOver}), generation ${turn.session.generation}]`);
+      }
+      const decision = await askTweetDecision(modelInput, {
+        prompt: promptVersion ?? undefined,
+        examples: fewShotExamples,
+        exampleSelection,
+        previousResponseId: turn.previousResponseId,
+        calibrationNote: turn.calibrationNote,
+        provider,
+        outputMode,
+      });
+      const { quote, approved, score, responseId } = decision;
+
+      // Update conversation chain (providers without server-side state leave it untouched)
+      const advanced = finishCalibrationTurn(store, turn, responseId);
+      if (responseId) {
+        // Last 8 chars of response ID for brevity
+        log(advanced ? `  [chain: ${responseId.slice(-8)}]` : `  [chain: another process moved the head first; kept theirs]`);
+      }
 
-    for (let i = 0; i < tweetsToProcess.length; i++) {
-      const tweet = tweetsToProcess[i];
-      log(`\n[${i + 1}/${tweetsToProcess.length}] Evaluating tweet...`);
+      const evaluationId = store.recordEvaluation({ tweetId: tweet.id, ...decision, calibrationSessionId: session.id });
+      const payload: TweetDecisionInput = {
+        id: tweet.id,
+        text: tweet.text,
+        url: tweet.url,
+        quote: quote ?? "",
+        qt: decision.qt,
+        rejectionReason: decision.rejectionReason,
+        rejectionRule: decision.rejectionRule,
+        approved,
+        score,
+        provider: decision.provider,
+        model: decision.model,
+        reasoningEffort: decision.reasoningEffort,
+        modelInput,
+        evaluationId,
+        promptVersionId: decision.promptVersionId,
+      };
 
-      await new Promise<void>((resolve) => setTimeout(resolve, 1000));
+      store.save(payload);
+      store.completeQueueItem(tweet.id);
 
-      try {
-        const { quote, approved, score, responseId } = await askTweetDecision(tweet.text, {
+      if (shadowRun) {
+        const shadow = await runShadowEvaluation(store, shadowRun, {
+          tweetId: tweet.id,
+          modelInput,
           examples: fewShotExamples,
-          previousResponseId,
+          productionEvaluationId: evaluationId,
         });
-
-        // Update conversation chain
-        previousResponseId = responseId;
-        store.setConfig(RESPONSE_ID_KEY, responseId);
-
-        log(`  [chain: ${responseId.slice(-8)}]`);  // Last 8 chars of response ID for brevity
-
-        const payload: TweetDecisionInput = {
-          id: tweet.id,
-          text: tweet.text,
-          url: tweet.url,
-          quote: quote ?? "",
-          approved,
-          score,
-        };
-
-        store.save(payload);
-
-        // Log result
-        if (approved) {
-          approvedCount++;
-          const qtMatch = quote.match(/QT:\s*(.+?)(?=\nPercentile:|$)/is);
-          const qt = qtMatch ? qtMatch[1].trim() : "";
-          log(`✓ APPROVED (Percentile: ${score})`);
-          log(`  Tweet: ${tweet.text.slice(0, 60)}...`);
-          log(`  QT: ${qt}`);
-        } else {
-          rejectedCount++;
-          log(`✗ REJECTED: ${quote}`);
-          log(`  Tweet: ${tweet.text.slice(0, 60)}...`);
-        }
-      } catch (error) {
-        if (error instanceof MalformedResponseError) {
-          skippedCount++;
-          log(`⚠ MALFORMED RESPONSE for tweet ${tweet.id}: ${error.message}`);
-          log(`  Raw response: ${error.rawResponse.slice(0, 100)}...`);
-          // Don't save - leave tweet unprocessed for retry
-          continue;
+        if (shadow) {
+          log(`  [shadow: ${shadow.error ? "malformed" : shadow.approved ? `approved (${shadow.score})` : `rejected [${shadow.rejectionRule}]`}${shadow.approved !== null && shadow.approved !== approved ? " ≠ production" : ""}]`);
         }
+      }
+
+      // Log result
+      if (approved) {
+        summary.approved++;
+        log(`✓ APPROVED (Percentile: ${score})`);
+        log(`  Tweet: ${tweet.text.slice(0, 60)}...`);
+        log(`  QT: ${decision.qt ?? ""}`);
+      } else {
+        summary.rejected++;
+        log(`✗ REJECTED [${decision.rejectionRule}]: ${decision.rejectionReason ?? quote}`);
+        log(`  Tweet: ${tweet.text.slice(0, 60)}...`);
+      }
+    } catch (error) {
+      const kind = classifyProcessingError(error);
+      if (kind === "fatal") {
         throw error;
       }
+
+      if (error instanceof MalformedResponseError && error.call) {
+        store.recordEvaluation({ tweetId: tweet.id, ...error.call, error: error.message });
+      }
+
+      const updated = store.recordQueueFailure(
+        tweet.id,
+        {
+          error: describeError(error),
+          kind,
+          rawResponse: error instanceof MalformedResponseError ? error.rawResponse : null,
+        },
+        retryPolicy
+      );
+
+      if (error instanceof MalformedResponseError) {
+        log(`⚠ MALFORMED RESPONSE for tweet ${tweet.id}: ${error.message}`);
+        log(`  Raw response: ${error.rawResponse.slice(0, 100)}...`);
+      } else {
+        log(`⚠ API FAILURE for tweet ${tweet.id}: ${describeError(error)}`);
+      }
+
+      if (updated.status === "dead") {
+        summary.deadLettered++;
+        log(`  Dead-lettered after ${updated.attempts} attempts`);
+      } else {
+        summary.retrying++;
+        log(`  Will retry after ${updated.nextAttemptAt} (attempt ${updated.attempts}/${retryPolicy.maxAttempts})`);
+      }
+
+      // No point hammering a rate-limited API; the rest stay queued for the next run
+      if (isRateLimitError(error)) {
+        log(`Rate limited, deferring remaining ${queueItems.length - i - 1} tweets`);
+        break;
+      }
     }
+  }
+
+  // Each save calibrated its own tweet; new approvals shift everyone else's percentile
+  if (summary.approved > 0) {
+    const { updated, reference } = store.recalibrateScores();
+    log(`Recalibrated ${updated} scores against ${reference}-approved history`);
+  }
+
+  const processedCount = summary.approved + summary.rejected;
+  log(`\n━━━ Summary ━━━`);
+  log(`Processed ${processedCount} of ${queueItems.length} tweets`);
+  log(`Approved: ${summary.approved} | Rejected: ${summary.rejected}${summary.retrying > 0 ? ` | Retrying: ${summary.retrying}` : ""}${summary.deadLettered > 0 ? ` | Dead-lettered: ${summary.deadLettered}` : ""}`);
 
-    const processedCount = approvedCount + rejectedCount;
-    log(`\n━━━ Summary ━━━`);
-    log(`Processed ${processedCount} of ${tweetsToProcess.length} tweets`);
-    log(`Approved: ${approvedCount} | Rejected: ${rejectedCount}${skippedCount > 0 ? ` | Skipped: ${skippedCount}` : ""}`);
+  return summary;
+}
+
+// Poll forever; a failed cycle is logged and recorded, then retried on the next tick
+async function watch(store: TweetStore, args: ParsedArgs) {
+  log(`Watching every ${args.intervalSeconds}s (SIGTERM to stop)`);
+
+  while (!shutdown.requested) {
+    try {
+      const summary = await runOnce(store, args);
+      store.updateProcessorStatus({
+        lastSuccessAt: new Date().toISOString(),
+        lastRunSummary: summary,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      store.updateProcessorStatus({
+        lastError: message,
+        lastErrorAt: new Date().toISOString(),
+      });
+    }
+
+    if (shutdown.requested) {
+      break;
+    }
+    const nextPollAt = new Date(Date.now() + args.intervalSeconds * 1000).toISOString();
+    store.updateProcessorStatus({ state: "idle", nextPollAt });
+    await interruptibleSleep(args.intervalSeconds * 1000);
+  }
+}
+
+async function main() {
+  const args = parseArgs();
+  log(`Using source: ${args.source}`);
+
+  process.on("SIGTERM", () => requestShutdown("SIGTERM"));
+  process.on("SIGINT", () => requestShutdown("SIGINT"));
+
+  let store: TweetStore | null = null;
+  try {
+    store = createTweetStore();
+    // Fail fast on an unknown --prompt-version rather than on the first tweet
+    resolvePromptVersion(store, args.promptVersion);
+    store.updateProcessorStatus({
+      mode: args.watch ? "watch" : "once",
+      state: "starting",
+      pid: process.pid,
+      startedAt: new Date().toISOString(),
+      nextPollAt: null,
+    });
+
+    if (args.watch) {
+      await watch(store, args);
+    } else {
+      const summary = await runOnce(store, args);
+      store.updateProcessorStatus({
+        lastSuccessAt: new Date().toISOString(),
+        lastRunSummary: summary,
+      });
+    }
   } catch (error) {
     if (error instanceof Error) {
       console.error(`Error: ${error.message}`);
     } else {
       console.error("Unknown error", error);
     }
+    store?.updateProcessorStatus({
+      lastError: error instanceof Error ? error.message : String(error),
+      lastErrorAt: new Date().toISOString(),
+    });
     process.exitCode = 1;
   } finally {
+    store?.updateProcessorStatus({ state: "stopped", nextPollAt: null });
     store?.close();
   }
 }
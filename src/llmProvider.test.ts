@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, beforeEach, test } from "node:test";
+import { createLlmProvider, resolveLlmConfig } from "./llmProvider.js";
+
+const ENV_KEYS = ["LLM_PROVIDER", "LLM_MODEL", "LLM_REASONING_EFFORT", "LLM_BASE_URL", "MOCK_LLM_FIXTURES", "OPENAI_API_KEY"];
+const savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+const dir = mkdtempSync(path.join(tmpdir(), "kasfam-llm-"));
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
+});
+after(() => {
+  for (const [key, value] of Object.entries(savedEnv)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const request = (userContent: string) => ({ systemPrompt: "judge", userContent });
+
+test("each provider gets its own default model and reasoning effort", () => {
+  assert.deepEqual(resolveLlmConfig(), {
+    provider: "openai", model: "gpt-5.1", reasoningEffort: "high", baseUrl: undefined, fixturesPath: undefined,
+  });
+  process.env.LLM_PROVIDER = "openai-compatible";
+  assert.equal(resolveLlmConfig().model, "local-model");
+  assert.equal(resolveLlmConfig().reasoningEffort, null);
+  process.env.LLM_PROVIDER = "mock";
+  assert.equal(resolveLlmConfig().model, "mock-fixtures");
+});
+
+test("overrides beat the environment, which beats the defaults", () => {
+  process.env.LLM_PROVIDER = "openai-compatible";
+  process.env.LLM_MODEL = "qwen";
+  process.env.LLM_REASONING_EFFORT = "low";
+  process.env.LLM_BASE_URL = "http://gpu:9000/v1";
+  assert.deepEqual(resolveLlmConfig(), {
+    provider: "openai-compatible", model: "qwen", reasoningEffort: "low", baseUrl: "http://gpu:9000/v1", fixturesPath: undefined,
+  });
+  const config = resolveLlmConfig({ provider: "mock", model: "fixture-set", reasoningEffort: null });
+  assert.equal(config.provider, "mock");
+  assert.equal(config.model, "fixture-set");
+  assert.equal(config.reasoningEffort, null);
+});
+
+test("invalid provider or effort settings are rejected", () => {
+  process.env.LLM_PROVIDER = "anthropic";
+  assert.throws(() => resolveLlmConfig(), /Invalid LLM_PROVIDER: anthropic/);
+  // Still rejected when a flag picks the provider, so a typo doesn't go unnoticed
+  assert.throws(() => resolveLlmConfig({ provider: "mock" }), /Invalid LLM_PROVIDER/);
+  delete process.env.LLM_PROVIDER;
+  process.env.LLM_REASONING_EFFORT = "max";
+  assert.throws(() => resolveLlmConfig(), /Invalid LLM_REASONING_EFFORT: max/);
+});
+
+test("createLlmProvider builds the configured provider", () => {
+  const compatible = createLlmProvider({ provider: "openai-compatible", model: "qwen", reasoningEffort: null });
+  assert.equal(compatible.name, "openai-compatible");
+  assert.equal(compatible.model, "qwen");
+  assert.equal(createLlmProvider({ provider: "mock", model: "m", reasoningEffort: null }).name, "mock");
+  assert.throws(
+    () => createLlmProvider({ provider: "openai", model: "gpt-5.1", reasoningEffort: "high" }),
+    /Missing OPENAI_API_KEY/
+  );
+  process.env.OPENAI_API_KEY = "sk-test";
+  assert.equal(createLlmProvider({ provider: "openai", model: "gpt-5.1", reasoningEffort: "high" }).name, "openai");
+});
+
+test("the mock replays matching fixtures, else picks one by hashing the tweet", async () => {
+  const fixturesPath = path.join(dir, "fixtures.json");
+  writeFileSync(fixturesPath, JSON.stringify([
+    { match: "KRC-20", response: "Rejected: token promotion." },
+    { match: "dagknight", response: { decision: "APPROVED", qt: "ordering, solved", percentile: 80 } },
+    "Rejected: low-signal.",
+    { response: "Rejected: price action." },
+  ]));
+  const mock = createLlmProvider({ provider: "mock", model: "m", reasoningEffort: null, fixturesPath });
+
+  assert.deepEqual(await mock.complete(request("New krc-20 drop")), {
+    text: "Rejected: token promotion.", responseId: null, usage: null,
+  });
+  assert.deepEqual(JSON.parse((await mock.complete(request("DAGKnight paper"))).text), {
+    decision: "APPROVED", qt: "ordering, solved", percentile: 80,
+  });
+  const unmatched = await mock.complete(request("gm"));
+  assert.ok(["Rejected: low-signal.", "Rejected: price action."].includes(unmatched.text));
+  assert.equal((await mock.complete(request("gm"))).text, unmatched.text);
+});
+
+test("bad fixture files fail loudly", () => {
+  const empty = path.join(dir, "empty.json");
+  writeFileSync(empty, "[]");
+  assert.throws(() => createLlmProvider({ provider: "mock", model: "m", reasoningEffort: null, fixturesPath: empty }), /non-empty JSON array/);
+  const missing = path.join(dir, "missing.json");
+  writeFileSync(missing, JSON.stringify([{ match: "x" }]));
+  assert.throws(() => createLlmProvider({ provider: "mock", model: "m", reasoningEffort: null, fixturesPath: missing }), /#1 .* missing a "response"/);
+});
@@ -0,0 +1,292 @@
+import OpenAI from "openai";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { createHash } from "node:crypto";
+
+export type LlmProviderName = "openai" | "openai-compatible" | "mock";
+export type ReasoningEffort = "none" | "minimal" | "low" | "medium" | "high";
+
+export type LlmConfig = {
+  provider: LlmProviderName;
+  model: string;
+  reasoningEffort: ReasoningEffort | null;
+  baseUrl?: string;
+  fixturesPath?: string;
+};
+
+export type LlmResponseFormat = {
+  name: string;
+  schema: Record<string, unknown>;
+};
+
+export type LlmRequest = {
+  systemPrompt: string;
+  userContent: string;
+  previousResponseId?: string | null;
+  responseFormat?: LlmResponseFormat;  // Ask for JSON matching this schema instead of free text
+};
+
+export type LlmUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+};
+
+export type LlmCompletion = {
+  text: string;
+  // null when the provider keeps no server-side conversation state
+  responseId: string | null;
+  usage: LlmUsage | null;  // null when the provider doesn't report token counts
+};
+
+export type LlmProvider = {
+  name: LlmProviderName;
+  model: string;
+  reasoningEffort: ReasoningEffort | null;
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+};
+
+type MockFixture = {
+  match?: string;  // Case-insensitive substring of the tweet text
+  response: string;
+};
+
+const DEFAULT_OPENAI_MODEL = "gpt-5.1";
+const DEFAULT_OPENAI_REASONING_EFFORT: ReasoningEffort = "high";
+const DEFAULT_COMPATIBLE_BASE_URL = "http://localhost:8080/v1";
+const DEFAULT_COMPATIBLE_MODEL = "local-model";
+const DEFAULT_MOCK_MODEL = "mock-fixtures";
+
+const DEFAULT_MOCK_FIXTURES: MockFixture[] = [
+  {
+    response:
+      "Approved.\nQT: blockdag ordering is the part people skip. it's the whole trick.\nPercentile: 62",
+  },
+  { response: "Rejected: low-signal, not main-account material." },
+  { response: "Rejected: mainly about price action." },
+];
+
+export function parseProviderName(value?: string | null): LlmProviderName | null {
+  if (value === "openai" || value === "openai-compatible" || value === "mock") {
+    return value;
+  }
+  return null;
+}
+
+export function parseReasoningEffort(value?: string | null): ReasoningEffort | null {
+  if (
+    value === "none" ||
+    value === "minimal" ||
+    value === "low" ||
+    value === "medium" ||
+    value === "high"
+  ) {
+    return value;
+  }
+  return null;
+}
+
+// Resolve provider settings from env, with explicit overrides (e.g. CLI flags) taking precedence
+export function resolveLlmConfig(overrides: Partial<LlmConfig> = {}): LlmConfig {
+  const envProvider = process.env.LLM_PROVIDER;
+  const provider = overrides.provider ?? parseProviderName(envProvider) ?? "openai";
+  if (envProvider && !parseProviderName(envProvider)) {
+    throw new Error(`Invalid LLM_PROVIDER: ${envProvider}. Use: openai, openai-compatible, or mock`);
+  }
+
+  const envEffort = process.env.LLM_REASONING_EFFORT;
+  if (envEffort && !parseReasoningEffort(envEffort)) {
+    throw new Error(`Invalid LLM_REASONING_EFFORT: ${envEffort}. Use: none, minimal, low, medium, or high`);
+  }
+
+  const model = overrides.model ?? process.env.LLM_MODEL ?? defaultModel(provider);
+  const reasoningEffort =
+    overrides.reasoningEffort !== undefined
+      ? overrides.reasoningEffort
+      : parseReasoningEffort(envEffort) ?? (provider === "openai" ? DEFAULT_OPENAI_REASONING_EFFORT : null);
+
+  return {
+    provider,
+    model,
+    reasoningEffort,
+    baseUrl: overrides.baseUrl ?? process.env.LLM_BASE_URL,
+    fixturesPath: overrides.fixturesPath ?? process.env.MOCK_LLM_FIXTURES,
+  };
+}
+
+function defaultModel(provider: LlmProviderName): string {
+  switch (provider) {
+    case "openai-compatible":
+      return DEFAULT_COMPATIBLE_MODEL;
+    case "mock":
+      return DEFAULT_MOCK_MODEL;
+    case "openai":
+    default:
+      return DEFAULT_OPENAI_MODEL;
+  }
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  switch (config.provider) {
+    case "openai-compatible":
+      return createOpenAiCompatibleProvider(config);
+    case "mock":
+      return createMockProvider(config);
+    case "openai":
+    default:
+      return createOpenAiProvider(config);
+  }
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing ${name} environment variable.`);
+  }
+  return value;
+}
+
+// OpenAI Responses API; supports server-side conversation chains via previous_response_id
+function createOpenAiProvider(config: LlmConfig): LlmProvider {
+  const client = new OpenAI({ apiKey: requireEnv("OPENAI_API_KEY") });
+
+  return {
+    name: "openai",
+    model: config.model,
+    reasoningEffort: config.reasoningEffort,
+    async complete({ systemPrompt, userContent, previousResponseId, responseFormat }) {
+      const response = await client.responses.create({
+        model: config.model,
+        input: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userContent },
+        ],
+        ...(config.reasoningEffort ? { reasoning: { effort: config.reasoningEffort } } : {}),
+        ...(previousResponseId ? { previous_response_id: previousResponseId } : {}),
+        ...(responseFormat
+          ? {
+              text: {
+                format: {
+                  type: "json_schema" as const,
+                  name: responseFormat.name,
+                  schema: responseFormat.schema,
+                  strict: true,
+                },
+              },
+            }
+          : {}),
+      });
+
+      return {
+        text: response.output_text ?? "",
+        responseId: response.id,
+        usage: response.usage
+          ? {
+              inputTokens: response.usage.input_tokens,
+              outputTokens: response.usage.output_tokens,
+              totalTokens: response.usage.total_tokens,
+            }
+          : null,
+      };
+    },
+  };
+}
+
+// Local llama.cpp / vLLM style servers only implement chat completions, so there is no chain
+function createOpenAiCompatibleProvider(config: LlmConfig): LlmProvider {
+  const client = new OpenAI({
+    apiKey: process.env.LLM_API_KEY || "not-needed",
+    baseURL: config.baseUrl || DEFAULT_COMPATIBLE_BASE_URL,
+  });
+
+  return {
+    name: "openai-compatible",
+    model: config.model,
+    reasoningEffort: config.reasoningEffort,
+    async complete({ systemPrompt, userContent, responseFormat }) {
+      const completion = await client.chat.completions.create({
+        model: config.model,
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userContent },
+        ],
+        ...(config.reasoningEffort ? { reasoning_effort: config.reasoningEffort } : {}),
+        ...(responseFormat
+          ? {
+              response_format: {
+                type: "json_schema" as const,
+                json_schema: {
+                  name: responseFormat.name,
+                  schema: responseFormat.schema,
+                  strict: true,
+                },
+              },
+            }
+          : {}),
+      });
+
+      return {
+        text: completion.choices[0]?.message?.content ?? "",
+        responseId: null,
+        usage: completion.usage
+          ? {
+              inputTokens: completion.usage.prompt_tokens,
+              outputTokens: completion.usage.completion_tokens,
+              totalTokens: completion.usage.total_tokens,
+            }
+          : null,
+      };
+    },
+  };
+}
+
+// Replays canned responses: first fixture whose `match` appears in the tweet wins,
+// otherwise one is picked by hashing the tweet text so reruns stay deterministic.
+// Fixtures are returned verbatim in either output mode; text fixtures go through the legacy parser.
+function createMockProvider(config: LlmConfig): LlmProvider {
+  const fixtures = config.fixturesPath
+    ? loadMockFixtures(config.fixturesPath)
+    : DEFAULT_MOCK_FIXTURES;
+  const fallbacks = fixtures.filter((f) => !f.match);
+  const pool = fallbacks.length > 0 ? fallbacks : fixtures;
+
+  return {
+    name: "mock",
+    model: config.model,
+    reasoningEffort: config.reasoningEffort,
+    async complete({ userContent }) {
+      const haystack = userContent.toLowerCase();
+      const matched = fixtures.find(
+        (f) => f.match && haystack.includes(f.match.toLowerCase())
+      );
+      const digest = createHash("sha256").update(userContent).digest();
+      const fixture = matched ?? pool[digest.readUInt32BE(0) % pool.length];
+
+      return { text: fixture.response, responseId: null, usage: null };
+    },
+  };
+}
+
+function loadMockFixtures(fixturesPath: string): MockFixture[] {
+  const resolved = path.resolve(fixturesPath);
+  const parsed = JSON.parse(readFileSync(resolved, "utf8")) as unknown;
+
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error(`Mock fixtures at ${resolved} must be a non-empty JSON array.`);
+  }
+
+  return parsed.map((entry, index) => {
+    if (typeof entry === "string") {
+      return { response: entry };
+    }
+    // Object responses are replayed as structured (JSON) output
+    if (entry && (typeof entry.response === "string" || typeof entry.response === "object")) {
+      return {
+        match: typeof entry.match === "string" ? entry.match : undefined,
+        response:
+          typeof entry.response === "string" ? entry.response : JSON.stringify(entry.response),
+      };
+    }
+    throw new Error(`Mock fixture #${index + 1} in ${resolved} is missing a "response".`);
+  });
+}
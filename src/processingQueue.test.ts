@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { APIConnectionError, APIError } from "openai";
+import { MalformedResponseError } from "./decisionParser.js";
+import { backoffDelaySeconds, classifyProcessingError, isRateLimitError } from "./processingQueue.js";
+
+const policy = { maxAttempts: 5, baseDelaySeconds: 60, maxDelaySeconds: 600 };
+
+test("backoff doubles from the base delay up to the cap", () => {
+  assert.deepEqual(
+    [1, 2, 3, 4, 5, 6].map((attempts) => backoffDelaySeconds(attempts, policy)),
+    [60, 120, 240, 480, 600, 600]
+  );
+  assert.equal(backoffDelaySeconds(0, policy), 60);
+  assert.equal(backoffDelaySeconds(200, policy), 600);
+});
+
+test("malformed output and transient API failures are retried", () => {
+  const apiError = (status: number) => new APIError(status, undefined, "failed", new Headers());
+  assert.equal(classifyProcessingError(new MalformedResponseError("bad", "raw")), "malformed");
+  assert.equal(classifyProcessingError(new APIConnectionError({ message: "reset" })), "transient");
+  assert.equal(classifyProcessingError(new TypeError("fetch failed")), "transient");
+  for (const status of [408, 409, 429, 500, 503]) {
+    assert.equal(classifyProcessingError(apiError(status)), "transient", String(status));
+  }
+  for (const status of [400, 401, 403, 404]) {
+    assert.equal(classifyProcessingError(apiError(status)), "fatal", String(status));
+  }
+  assert.equal(classifyProcessingError(new Error("boom")), "fatal");
+  assert.equal(isRateLimitError(apiError(429)), true);
+  assert.equal(isRateLimitError(apiError(503)), false);
+});
@@ -0,0 +1,61 @@
+import { APIConnectionError, APIError } from "openai";
+import { MalformedResponseError } from "./decisionParser.js";
+import { readPositiveIntEnv } from "./env.js";
+
+export type ProcessingErrorKind = "malformed" | "transient" | "fatal";
+
+export type RetryPolicy = {
+  maxAttempts: number;  // Failures before an item is dead-lettered
+  baseDelaySeconds: number;  // Delay after the first failure, doubled on each retry
+  maxDelaySeconds: number;
+};
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_SECONDS = 60;
+const DEFAULT_MAX_DELAY_SECONDS = 6 * 60 * 60;
+
+export function resolveRetryPolicy(): RetryPolicy {
+  return {
+    maxAttempts: readPositiveIntEnv("QUEUE_MAX_ATTEMPTS", DEFAULT_MAX_ATTEMPTS),
+    baseDelaySeconds: readPositiveIntEnv("QUEUE_BASE_DELAY_SECONDS", DEFAULT_BASE_DELAY_SECONDS),
+    maxDelaySeconds: readPositiveIntEnv("QUEUE_MAX_DELAY_SECONDS", DEFAULT_MAX_DELAY_SECONDS),
+  };
+}
+
+export function backoffDelaySeconds(attempts: number, policy: RetryPolicy): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(policy.baseDelaySeconds * 2 ** exponent, policy.maxDelaySeconds);
+}
+
+// Malformed output and transient API failures are retried; anything else (bad credentials,
+// invalid request) won't get better by itself and should stop the run
+export function classifyProcessingError(error: unknown): ProcessingErrorKind {
+  if (error instanceof MalformedResponseError) {
+    return "malformed";
+  }
+  if (error instanceof APIConnectionError) {
+    return "transient";
+  }
+  if (error instanceof APIError) {
+    const status = error.status ?? 0;
+    return status === 408 || status === 409 || status === 429 || status >= 500
+      ? "transient"
+      : "fatal";
+  }
+  // fetch() network failures surface as TypeError
+  if (error instanceof TypeError && /fetch failed|network/i.test(error.message)) {
+    return "transient";
+  }
+  return "fatal";
+}
+
+export function isRateLimitError(error: unknown): boolean {
+  return error instanceof APIError && error.status === 429;
+}
+
+export function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return `${error.name}: ${error.message}`;
+  }
+  return String(error);
+}
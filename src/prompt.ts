@@ -1,8 +1,10 @@
 export type FewShotExample = {
+  tweetId?: string;  // Gold example's tweet, recorded with each evaluation
   tweetText: string;
   response: string;  // The full "Approved.\nQT: ...\nPercentile: X" for GOOD examples
   correction?: string;  // The correction "Rejected: reason" for BAD examples
   type: "GOOD" | "BAD";
+  pinned?: boolean;  // Always included, regardless of similarity or recency
 };
 
 const basePrompt = `
@@ -145,9 +147,29 @@ end there.
 
 export const prompt = basePrompt;
 
-export function buildPromptWithExamples(examples: FewShotExample[] = []): string {
-  const goodExamples = examples.filter(e => e.type === "GOOD").slice(0, 5);
-  const badExamples = examples.filter(e => e.type === "BAD").slice(0, 5);
+// Appended in structured output mode; overrides the text output format above
+export const structuredOutputInstructions = `
+
+---
+
+structured output
+
+ignore the text output format above. answer with a single json object matching the provided schema:
+
+* decision: "approved" or "rejected".
+* rejectionRule: the number of the rejection rule that applies, or null when approving or rejecting as low-signal.
+* reason: the one short rejection reason, or null when approving.
+* qtLines: one or two qt lines (together ≤20 words) when approving, empty when rejecting. same qt rules as above.
+* percentile: 0-100 when approving, null when rejecting.
+* categories: the high-bar categories the tweet clears ("technical", "philosophical", "funny", "insightful", "relevant"), empty when rejecting.
+
+any few-shot examples above are written in the text format; they map onto the same fields.
+`;
+
+// `selected` is already narrowed down by selectFewShotExamples (src/exampleSelection.ts)
+export function buildPromptWithExamples(selected: FewShotExample[] = [], base: string = basePrompt): string {
+  const goodExamples = selected.filter(e => e.type === "GOOD");
+  const badExamples = selected.filter(e => e.type === "BAD");
 
   let examplesSection = "";
 
@@ -197,5 +219,5 @@ decision: ${ex.response}
 `;
   }
 
-  return basePrompt + examplesSection;
+  return base + examplesSection;
 }
@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, beforeEach, test } from "node:test";
+import { publishDuePublications, sendPublication, validatePublishText, type Publisher } from "./publisher.js";
+import { createTweetStore } from "./tweetStore.js";
+
+const dir = mkdtempSync(path.join(tmpdir(), "kasfam-publish-"));
+process.env.SQLITE_DB_PATH = path.join(dir, "app.db");
+const store = createTweetStore();
+const db = new Database(process.env.SQLITE_DB_PATH);
+after(() => {
+  db.close();
+  store.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+for (const id of ["t1", "t2", "t3"]) {
+  store.saveRaw({ id, text: `tweet ${id}`, url: `https://x.com/i/status/${id}` });
+}
+beforeEach(() => {
+  db.prepare("DELETE FROM publications").run();
+  db.prepare("UPDATE tweets SET publishedTweetId = NULL, publishedUrl = NULL, publishedAt = NULL").run();
+});
+
+// Records what it posts; fails for any text in `failing`
+function fakePublisher(failing: string[] = []) {
+  const posted: string[] = [];
+  const publisher: Publisher = {
+    mode: "dry-run",
+    async post(text, quotedTweetId) {
+      if (failing.includes(text)) throw new Error("X is down");
+      posted.push(quotedTweetId);
+      return { postedTweetId: `qt-${quotedTweetId}`, postedUrl: `https://x.com/i/status/qt-${quotedTweetId}`, dryRun: true };
+    },
+  };
+  return { publisher, posted };
+}
+
+const ago = (minutes: number) => new Date(Date.now() - minutes * 60_000).toISOString();
+const statusOf = (id: number) => store.getPublication(id)!.status;
+
+test("only due scheduled posts are claimed, each once", async () => {
+  const due = store.createPublication({ tweetId: "t1", text: "due", scheduledAt: ago(1) });
+  const later = store.createPublication({ tweetId: "t2", text: "later", scheduledAt: ago(-60) });
+  const { publisher, posted } = fakePublisher();
+
+  const results = await publishDuePublications(store, publisher, 10);
+  assert.deepEqual(results.map((p) => [p.id, p.status]), [[due.id, "posted"]]);
+  assert.deepEqual(posted, ["t1"]);
+  assert.equal(statusOf(later.id), "scheduled");
+  assert.equal(store.get("t1")!.publishedTweetId, "qt-t1");
+  assert.deepEqual(store.claimDuePublications(), []);
+});
+
+test("a failed post keeps its error and can be rescheduled or cancelled", async () => {
+  const publication = store.createPublication({ tweetId: "t1", text: "boom", scheduledAt: null });
+  assert.equal(publication.status, "sending");
+  const failed = await sendPublication(store, fakePublisher(["boom"]).publisher, publication);
+  assert.equal(failed.status, "failed");
+  assert.match(failed.lastError!, /X is down/);
+  assert.equal(store.getActivePublication("t1"), null);
+
+  // An immediate post needs a send time before it can go back on the schedule
+  assert.equal(store.updatePublication(publication.id, { text: "fixed" }), false);
+  assert.equal(store.updatePublication(publication.id, { text: "fixed", scheduledAt: ago(-5) }), true);
+  assert.equal(statusOf(publication.id), "scheduled");
+  assert.equal(store.cancelPublication(publication.id), true);
+  assert.equal(store.cancelPublication(publication.id), false);
+  assert.equal(store.updatePublication(publication.id, { scheduledAt: ago(-5) }), false);
+});
+
+test("a tweet has at most one live publication", async () => {
+  const first = store.createPublication({ tweetId: "t1", text: "one", scheduledAt: ago(-5) });
+  assert.throws(() => store.createPublication({ tweetId: "t1", text: "two", scheduledAt: null }), /UNIQUE/);
+  assert.equal(store.getActivePublication("t1")!.id, first.id);
+});
+
+test("posts stuck in sending fail after the stale window and free the tweet", async () => {
+  const stuck = store.createPublication({ tweetId: "t1", text: "stuck", scheduledAt: null });
+  const recent = store.createPublication({ tweetId: "t2", text: "recent", scheduledAt: null });
+  db.prepare("UPDATE publications SET createdAt = datetime('now', '-11 minutes') WHERE id = ?").run(stuck.id);
+  db.prepare("UPDATE publications SET updatedAt = datetime('now', '-9 minutes') WHERE id = ?").run(recent.id);
+
+  assert.deepEqual(await publishDuePublications(store, fakePublisher().publisher, 10), []);
+  assert.equal(statusOf(stuck.id), "failed");
+  assert.match(store.getPublication(stuck.id)!.lastError!, /check whether it was posted/);
+  assert.equal(statusOf(recent.id), "sending");
+  assert.equal(store.getActivePublication("t1"), null);
+  assert.equal(store.createPublication({ tweetId: "t1", text: "again", scheduledAt: null }).status, "sending");
+});
+
+test("cancelling a post in flight sticks unless it reaches X", async () => {
+  const failing = store.createPublication({ tweetId: "t1", text: "boom", scheduledAt: null });
+  assert.equal(store.cancelPublication(failing.id), true);
+  await sendPublication(store, fakePublisher(["boom"]).publisher, failing);
+  assert.equal(statusOf(failing.id), "cancelled");
+
+  const posting = store.createPublication({ tweetId: "t2", text: "ok", scheduledAt: null });
+  assert.equal(store.cancelPublication(posting.id), true);
+  await sendPublication(store, fakePublisher().publisher, posting);
+  assert.equal(statusOf(posting.id), "posted");
+  assert.equal(store.get("t2")!.publishedTweetId, "qt-t2");
+});
+
+test("QT text is limited to 280 code points", () => {
+  assert.equal(validatePublishText("  "), "QT text is empty");
+  assert.equal(validatePublishText("🚀".repeat(280)), null);
+  assert.match(validatePublishText("a".repeat(281))!, /281 characters/);
+});
@@ -0,0 +1,115 @@
+import { appendFileSync, mkdirSync } from "node:fs";
+import path from "node:path";
+import { createXClient } from "./xClient.js";
+import { describeError } from "./processingQueue.js";
+import type { createTweetStore, Publication } from "./tweetStore.js";
+
+// Posts approved QTs as quote tweets of the original. In dry-run mode (the default)
+// posts are appended to a local JSONL outbox instead, so the workflow can be tested offline.
+
+export type PublishMode = "dry-run" | "live";
+
+export type PostedTweet = {
+  postedTweetId: string;
+  postedUrl: string;
+  dryRun: boolean;
+};
+
+export type Publisher = {
+  mode: PublishMode;
+  post(text: string, quotedTweetId: string): Promise<PostedTweet>;
+};
+
+type TweetStore = ReturnType<typeof createTweetStore>;
+
+export const MAX_TWEET_LENGTH = 280;
+
+const DEFAULT_OUTBOX_PATH = "data/outbox.jsonl";
+
+export function parsePublishMode(value?: string | null): PublishMode | null {
+  if (value === "dry-run" || value === "live") {
+    return value;
+  }
+  return null;
+}
+
+export function resolvePublishMode(): PublishMode {
+  const envMode = process.env.PUBLISH_MODE;
+  if (envMode && !parsePublishMode(envMode)) {
+    throw new Error(`Invalid PUBLISH_MODE: ${envMode}. Use: dry-run or live`);
+  }
+  return parsePublishMode(envMode) ?? "dry-run";
+}
+
+// Returns an error message, or null if the text can be posted
+export function validatePublishText(text: string): string | null {
+  if (!text.trim()) {
+    return "QT text is empty";
+  }
+  // X counts code points, not UTF-16 units
+  const length = Array.from(text).length;
+  if (length > MAX_TWEET_LENGTH) {
+    return `QT text is ${length} characters; the limit is ${MAX_TWEET_LENGTH}`;
+  }
+  return null;
+}
+
+export function createPublisher(mode: PublishMode = resolvePublishMode()): Publisher {
+  if (mode === "live") {
+    const client = createXClient();
+    return {
+      mode,
+      async post(text, quotedTweetId) {
+        const posted = await client.postQuoteTweet(text, quotedTweetId);
+        return { postedTweetId: posted.id, postedUrl: posted.url, dryRun: false };
+      },
+    };
+  }
+
+  const outboxPath = path.resolve(process.env.PUBLISH_OUTBOX_PATH || DEFAULT_OUTBOX_PATH);
+  return {
+    mode,
+    async post(text, quotedTweetId) {
+      const postedTweetId = `dry-run-${Date.now()}`;
+      mkdirSync(path.dirname(outboxPath), { recursive: true });
+      appendFileSync(
+        outboxPath,
+        JSON.stringify({ id: postedTweetId, text, quoteTweetId: quotedTweetId, postedAt: new Date().toISOString() }) + "\n"
+      );
+      return { postedTweetId, postedUrl: `file://${outboxPath}#${postedTweetId}`, dryRun: true };
+    },
+  };
+}
+
+// Send a publication that is already in the "sending" state and record the outcome.
+// Failures are stored on the publication rather than thrown.
+export async function sendPublication(
+  store: TweetStore,
+  publisher: Publisher,
+  publication: Publication
+): Promise<Publication> {
+  try {
+    const posted = await publisher.post(publication.text, publication.tweetId);
+    store.markPublicationPosted(publication.id, posted);
+  } catch (error) {
+    store.markPublicationFailed(publication.id, describeError(error));
+  }
+  return store.getPublication(publication.id)!;
+}
+
+// `staleMinutes`: how long a post may stay "sending" before it is marked failed
+export async function publishDuePublications(
+  store: TweetStore,
+  publisher: Publisher,
+  staleMinutes: number
+): Promise<Publication[]> {
+  const stale = store.failStalePublications(staleMinutes);
+  if (stale > 0) {
+    console.warn(`Marked ${stale} publication(s) stuck in "sending" for over ${staleMinutes} minutes as failed`);
+  }
+  const results: Publication[] = [];
+  for (const publication of store.claimDuePublications()) {
+    results.push(await sendPublication(store, publisher, publication));
+  }
+  return results;
+}
@@ -0,0 +1,36 @@
+import { diffWords, type DiffPart } from "./textDiff.js";
+import type { QtRevision, TweetRecord } from "./tweetStore.js";
+
+// Human edits of the model's QT. Revisions are diffed against the model draft they
+// started from, and the picked "final" version is what gets published and used for GOOD examples.
+
+export type QtRevisionWithDiff = QtRevision & {
+  diff: DiffPart[] | null;  // Against the latest earlier model draft; null for drafts
+};
+
+type QtTweet = Pick<TweetRecord, "qt" | "finalQt">;
+
+// The QT to publish: the picked final version, else the model's latest draft
+export function effectiveQt(tweet: QtTweet): string | null {
+  return tweet.finalQt ?? tweet.qt;
+}
+
+// Few-shot response for a gold example. GOOD examples show the final QT in the legacy
+// "Approved./QT:/Percentile:" format so the model learns from the edited version.
+export function goldExampleResponse(tweet: Pick<TweetRecord, "quote" | "score" | "goldExampleType"> & QtTweet): string {
+  if (tweet.goldExampleType !== "GOOD" || !tweet.finalQt) {
+    return tweet.quote;
+  }
+  return `Approved.\nQT: ${tweet.finalQt}\nPercentile: ${tweet.score}`;
+}
+
+export function withDiffs(revisions: QtRevision[]): QtRevisionWithDiff[] {
+  let draft: QtRevision | null = null;
+  return revisions.map((revision) => {
+    if (revision.source === "model") {
+      draft = revision;
+      return { ...revision, diff: null };
+    }
+    return { ...revision, diff: draft ? diffWords(draft.text, revision.text) : null };
+  });
+}
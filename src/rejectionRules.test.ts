@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { classifyRejection, parseRejectionRuleId, ruleIdFromNumber } from "./rejectionRules.js";
+
+test("the model's rule number wins over the reason text", () => {
+  assert.equal(classifyRejection("price talk", 1), "l2-promotion");
+  assert.equal(classifyRejection(null, 5), "drama");
+  assert.equal(classifyRejection(null, 6), "drama");
+  assert.equal(classifyRejection(null, 10), "non-english");
+});
+
+test("unknown rule numbers fall back to the reason text", () => {
+  assert.equal(classifyRejection("whales accumulating", 2), "price-action");
+  assert.equal(classifyRejection("whales accumulating", 99), "price-action");
+});
+
+test("reasons are matched against the rules in prompt order", () => {
+  assert.equal(classifyRejection("Promotes an L2 rollup"), "l2-promotion");
+  assert.equal(classifyRejection("KRC-20 project token shill"), "own-token");
+  assert.equal(classifyRejection("FUD and doom"), "bearish");
+  assert.equal(classifyRejection("This is not about Kaspa"), "off-topic");
+  assert.equal(classifyRejection("Shout-out to one dev"), "single-person-praise");
+  assert.equal(classifyRejection("Tweet is not in English"), "non-english");
+  // Matches both drama and price action; drama comes first in the prompt
+  assert.equal(classifyRejection("Drama about the price"), "drama");
+});
+
+test("anything unmatched is low-signal", () => {
+  assert.equal(classifyRejection(null), "low-signal");
+  assert.equal(classifyRejection(""), "low-signal");
+  assert.equal(classifyRejection("meh"), "low-signal");
+  assert.equal(classifyRejection("Generic filler"), "low-signal");
+});
+
+test("rule ids and numbers are looked up exactly", () => {
+  assert.equal(ruleIdFromNumber(8), "price-action");
+  assert.equal(ruleIdFromNumber(2), null);
+  assert.equal(parseRejectionRuleId("drama"), "drama");
+  assert.equal(parseRejectionRuleId("Drama"), null);
+  assert.equal(parseRejectionRuleId(null), null);
+});
@@ -0,0 +1,110 @@
+// Rejection rule categories, mirroring the numbered rejection rules in src/prompt.ts
+// plus the catch-all "low-signal" bar for tweets that pass the rules but aren't main-account material.
+
+export type RejectionRuleId =
+  | "l2-promotion"
+  | "own-token"
+  | "bearish"
+  | "drama"
+  | "off-topic"
+  | "price-action"
+  | "single-person-praise"
+  | "non-english"
+  | "low-signal";
+
+type RejectionRule = {
+  id: RejectionRuleId;
+  label: string;
+  promptRules: number[];  // Rule numbers in the prompt's rejection list
+  keywords: RegExp;  // Matched against free-text reasons when no rule number is available
+};
+
+export const REJECTION_RULES: RejectionRule[] = [
+  {
+    id: "l2-promotion",
+    label: "L2 promotion",
+    promptRules: [1],
+    keywords: /\b(l2|layer[ -]?2|rollups?|secondary)\b/i,
+  },
+  {
+    id: "own-token",
+    label: "Project with own token",
+    promptRules: [3],
+    keywords: /\b(own token|its token|their token|token project|krc-?20|project token)\b/i,
+  },
+  {
+    id: "bearish",
+    label: "Bearish / defeatist tone",
+    promptRules: [4],
+    keywords: /\b(bearish|doom|defeatist|negative|fud)\b/i,
+  },
+  {
+    id: "drama",
+    label: "Drama / conflict",
+    promptRules: [5, 6],
+    keywords: /\b(divisive|drama|conflict|beef|gossip|bait|punish\w*|attack\w*)\b/i,
+  },
+  {
+    id: "off-topic",
+    label: "Not about Kaspa",
+    promptRules: [7],
+    keywords: /\b(off[- ]topic|not (meaningfully |really )?about kaspa|generic crypto|unrelated|not kaspa)\b/i,
+  },
+  {
+    id: "price-action",
+    label: "Price action / whales",
+    promptRules: [8],
+    keywords: /\b(price|whales?|hoard\w*|accumulat\w*|market cap|pump\w*|chart)\b/i,
+  },
+  {
+    id: "single-person-praise",
+    label: "Praises individual / team",
+    promptRules: [9],
+    keywords: /\b(prais\w*|shout-?out|celebrat\w*|great job|proud of|individual|single person)\b/i,
+  },
+  {
+    id: "non-english",
+    label: "Not in English",
+    promptRules: [10],
+    keywords: /\b(not (in )?english|non-english|foreign language)\b/i,
+  },
+  {
+    id: "low-signal",
+    label: "Low signal / filler",
+    promptRules: [],
+    keywords: /\b(low[- ]signal|filler|generic|noise|hype|vague|not main[- ]account)\b/i,
+  },
+];
+
+export const REJECTION_RULE_IDS: RejectionRuleId[] = REJECTION_RULES.map((rule) => rule.id);
+
+export function parseRejectionRuleId(value?: string | null): RejectionRuleId | null {
+  return REJECTION_RULE_IDS.find((id) => id === value) ?? null;
+}
+
+export function ruleIdFromNumber(ruleNumber: number): RejectionRuleId | null {
+  return REJECTION_RULES.find((rule) => rule.promptRules.includes(ruleNumber))?.id ?? null;
+}
+
+// Prefer the rule number the model reported; otherwise match the reason text against
+// each rule's keywords in prompt order. Anything unmatched is treated as low-signal.
+export function classifyRejection(
+  reason: string | null,
+  ruleNumber: number | null = null
+): RejectionRuleId {
+  if (ruleNumber !== null) {
+    const byNumber = ruleIdFromNumber(ruleNumber);
+    if (byNumber) {
+      return byNumber;
+    }
+  }
+
+  if (reason) {
+    const match = REJECTION_RULES.find((rule) => rule.keywords.test(reason));
+    if (match) {
+      return match.id;
+    }
+  }
+
+  return "low-signal";
+}
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, afterEach, test } from "node:test";
+import { resolveCalibrationReference } from "./scoreCalibration.js";
+import { createTweetStore } from "./tweetStore.js";
+
+const dir = mkdtempSync(path.join(tmpdir(), "kasfam-scores-"));
+process.env.SQLITE_DB_PATH = path.join(dir, "app.db");
+delete process.env.SCORE_CALIBRATION_REFERENCE;
+const store = createTweetStore();
+after(() => {
+  store.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+afterEach(() => {
+  delete process.env.SCORE_CALIBRATION_REFERENCE;
+});
+
+function decide(id: string, approved: boolean, score: number) {
+  store.save({
+    id, text: `tweet ${id}`, url: `https://x.com/i/status/${id}`, quote: "", qt: null,
+    rejectionReason: approved ? null : "meh", rejectionRule: approved ? null : "low-signal",
+    approved, score, provider: "mock", model: "m", reasoningEffort: null, modelInput: "", evaluationId: 0,
+    promptVersionId: null,
+  });
+}
+const calibrated = (id: string) => store.get(id)!.calibratedScore;
+
+test("approved tweets get the mid-rank percentile of their score among approvals so far", () => {
+  decide("a1", true, 80);
+  assert.equal(calibrated("a1"), 50);
+  decide("a2", true, 40);
+  assert.equal(calibrated("a2"), 25);  // Half of its own tie, nothing below
+  decide("a3", true, 90);
+  decide("a4", true, 40);
+  // Reference 40, 40, 80, 90: one 40 below plus half of both ties over four
+  assert.equal(calibrated("a4"), 25);
+  decide("r1", false, 0);
+  assert.equal(calibrated("r1"), null);
+  // Earlier tweets only move on a recalibration
+  assert.equal(calibrated("a1"), 50);
+  assert.equal(store.recalibrateScores().updated, 5);
+  assert.deepEqual(["a1", "a2", "a3", "a4", "r1"].map(calibrated), [63, 25, 88, 25, null]);
+});
+
+test("with the human reference, only human approvals count, and votes move the scale", () => {
+  const reviewer = store.createUser("reviewer", "x", "moderator")!;
+  store.castVote("a1", reviewer, "APPROVED", null);
+  store.castVote("a2", reviewer, "APPROVED", null);
+
+  process.env.SCORE_CALIBRATION_REFERENCE = "human";
+  assert.deepEqual(store.recalibrateScores(), { updated: 5, reference: "human" });
+  // Reference 40, 80
+  assert.deepEqual(["a1", "a2", "a3", "a4", "r1"].map(calibrated), [75, 25, 100, 25, null]);
+
+  // A new human approval under the human reference recalibrates everything
+  store.castVote("a3", reviewer, "APPROVED", null);
+  assert.deepEqual(["a1", "a2", "a3"].map(calibrated), [50, 17, 83]);
+  // Withdrawing it moves them back
+  store.castVote("a3", reviewer, null, null);
+  assert.deepEqual(["a1", "a2", "a3"].map(calibrated), [75, 25, 100]);
+});
+
+test("the reference comes from SCORE_CALIBRATION_REFERENCE", () => {
+  assert.equal(resolveCalibrationReference(), "model");
+  process.env.SCORE_CALIBRATION_REFERENCE = "human";
+  assert.equal(resolveCalibrationReference(), "human");
+  process.env.SCORE_CALIBRATION_REFERENCE = "humans";
+  assert.throws(() => resolveCalibrationReference(), /Invalid SCORE_CALIBRATION_REFERENCE: humans/);
+});
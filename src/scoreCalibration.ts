@@ -0,0 +1,21 @@
+// The model's self-reported percentile drifts between calibration sessions, so approved
+// tweets also get a calibrated score: the empirical (mid-rank) percentile of their raw
+// score among a reference set of approved tweets. Computed in SQL by the store.
+
+// "model": every tweet the model approved; "human": those a human approved as well
+export type CalibrationReference = "model" | "human";
+
+export function parseCalibrationReference(value?: string | null): CalibrationReference | null {
+  if (value === "model" || value === "human") {
+    return value;
+  }
+  return null;
+}
+
+export function resolveCalibrationReference(): CalibrationReference {
+  const envReference = process.env.SCORE_CALIBRATION_REFERENCE;
+  if (envReference && !parseCalibrationReference(envReference)) {
+    throw new Error(`Invalid SCORE_CALIBRATION_REFERENCE: ${envReference}. Use: model or human`);
+  }
+  return parseCalibrationReference(envReference) ?? "model";
+}
@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { highlightSnippet, restrictToColumns, SNIPPET_CLOSE, SNIPPET_OPEN, toFtsQuery } from "./search.js";
+
+test("words, phrases and prefixes become quoted FTS5 terms", () => {
+  assert.equal(toFtsQuery("kaspa dag"), `"kaspa" "dag"`);
+  assert.equal(toFtsQuery(`"block dag" kaspa`), `"block dag" "kaspa"`);
+  assert.equal(toFtsQuery("dagk*"), `"dagk"*`);
+  assert.equal(toFtsQuery(`"block da"*`), `"block da"*`);
+});
+
+test("FTS5 syntax in the input is quoted rather than interpreted", () => {
+  assert.equal(toFtsQuery("kaspa OR NOT bitcoin"), `"kaspa" "OR" "NOT" "bitcoin"`);
+  assert.equal(toFtsQuery("text:kaspa"), `"text:kaspa"`);
+  assert.equal(toFtsQuery("(kaspa)"), `"(kaspa)"`);
+  assert.equal(toFtsQuery("NEAR(kaspa dag)"), `"NEAR(kaspa" "dag)"`);
+  // An unbalanced quote is dropped instead of opening a phrase
+  assert.equal(toFtsQuery(`"kaspa dag`), `"kaspa" "dag"`);
+  assert.equal(toFtsQuery(`ka"spa`), `"kaspa"`);
+});
+
+test("input with nothing searchable gives no query", () => {
+  assert.equal(toFtsQuery(""), null);
+  assert.equal(toFtsQuery("   "), null);
+  assert.equal(toFtsQuery(`--- *** "" "!?"`), null);
+});
+
+test("queries are capped at 20 terms", () => {
+  const words = Array.from({ length: 25 }, (_, i) => `w${i}`);
+  const query = toFtsQuery(words.join(" "))!;
+  assert.equal(query.split(" ").length, 20);
+  assert.ok(query.endsWith(`"w19"`));
+});
+
+test("restrictToColumns wraps the query in a column filter", () => {
+  assert.equal(restrictToColumns(`"kaspa"`, ["text", "qt"]), `{text qt} : ("kaspa")`);
+});
+
+test("snippets are escaped before matches are marked", () => {
+  assert.equal(
+    highlightSnippet(`<b>"${SNIPPET_OPEN}kaspa${SNIPPET_CLOSE}" & 'dag'</b>`),
+    "&lt;b&gt;&quot;<mark>kaspa</mark>&quot; &amp; &#39;dag&#39;&lt;/b&gt;"
+  );
+});
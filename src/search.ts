@@ -0,0 +1,49 @@
+// Full-text search over tweets, backed by the tweets_fts FTS5 table (see ensureSearchIndex).
+// The `q` parameter accepts plain words, "quoted phrases" and prefixes (dagk*); every term
+// must match. Anything else FTS5 would treat as syntax is quoted, so no input is an error.
+
+// Every indexed column, in table order after tweetId
+export const SEARCH_COLUMNS = ["text", "quote", "qt", "finalQt", "rejectionReason", "goldExampleCorrection"] as const;
+
+// Columns anonymous visitors may match on tweets the model didn't approve; the public
+// endpoint hides those tweets' model output and rejection reason
+export const PUBLIC_SEARCH_COLUMNS = ["text", "qt", "finalQt", "goldExampleCorrection"] as const;
+
+// Private-use characters marking matches in snippets; replaced once the text is escaped
+export const SNIPPET_OPEN = "\uE000";
+export const SNIPPET_CLOSE = "\uE001";
+
+const MAX_TERMS = 20;
+
+// FTS5 query for the user's input, or null when it has nothing searchable
+export function toFtsQuery(input: string): string | null {
+  const terms: string[] = [];
+  for (const match of input.matchAll(/"([^"]*)"(\*?)|(\S+)/g)) {
+    const [, phrase, phrasePrefix, word] = match;
+    const text = phrase ?? word!.replace(/"/g, "");
+    const prefix = phrase !== undefined ? phrasePrefix === "*" : text.endsWith("*");
+    const body = text.replace(/\*+$/, "").trim();
+    // Punctuation alone produces no tokens
+    if (!/[\p{L}\p{N}]/u.test(body)) {
+      continue;
+    }
+    terms.push(`"${body}"${prefix ? "*" : ""}`);
+  }
+  return terms.length ? terms.slice(0, MAX_TERMS).join(" ") : null;
+}
+
+export function restrictToColumns(query: string, columns: readonly string[]): string {
+  return `{${columns.join(" ")}} : (${query})`;
+}
+
+// Snippet from the store as HTML: escaped text with <mark> around the matches
+export function highlightSnippet(raw: string): string {
+  return raw
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+    .replaceAll(SNIPPET_OPEN, "<mark>")
+    .replaceAll(SNIPPET_CLOSE, "</mark>");
+}
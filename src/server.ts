@@ -6,125 +6,234 @@ import {
   type HumanDecision,
   type GoldExampleType,
   type TweetFilters,
+  type TweetRecord,
   type PaginationOptions,
   type SortOptions,
   type SortField,
   type SortDirection,
+  type StatsBucket,
+  type StatsOptions,
+  type QueueStatus,
+  type PublicationStatus,
+  type ShadowComparisonKind,
+  type BulkAction,
+  type AuditFilters,
 } from "./tweetStore.js";
-import { askTweetDecision, MalformedResponseError, type FewShotExample } from "./gptClient.js";
+import { classifyProcessingError, describeError, resolveRetryPolicy } from "./processingQueue.js";
+import { parseRejectionRuleId, REJECTION_RULES } from "./rejectionRules.js";
+import {
+  validateSourceInput,
+  validateSourceValue,
+  type SourceType,
+  type TweetSourceUpdate,
+} from "./tweetSources.js";
+import { prepareModelInput, resolveInputContext } from "./tweetContext.js";
+import { effectiveQt, withDiffs } from "./qtRevisions.js";
+import { diffLines } from "./textDiff.js";
+import {
+  createPublisher,
+  publishDuePublications,
+  resolvePublishMode,
+  sendPublication,
+  validatePublishText,
+  type Publisher,
+} from "./publisher.js";
+import { askTweetDecision, MalformedResponseError } from "./gptClient.js";
+import {
+  getShadowConfig,
+  parseShadowConfig,
+  resolveShadowRun,
+  runShadowEvaluation,
+  setShadowConfig,
+} from "./shadow.js";
+import {
+  beginCalibrationTurn,
+  finishCalibrationTurn,
+  resetCalibrationSession,
+  resolveCalibrationSession,
+  resolveMaxSessionTweets,
+} from "./calibration.js";
+import { parseCalibrationReference, resolveCalibrationReference } from "./scoreCalibration.js";
+import { resolveExampleSelection } from "./exampleSelection.js";
+import { buildAgreementReport, resolveConsensusRule } from "./consensus.js";
+import { buildDriftReport, DEFAULT_DRIFT_WINDOW } from "./drift.js";
+import { highlightSnippet, toFtsQuery } from "./search.js";
+import { decodeCursor, type TweetCursor } from "./tweetCursor.js";
+import { readPositiveIntEnv } from "./env.js";
+import {
+  buildGoldExampleReport,
+  DEFAULT_IMPACT_WINDOW,
+  goldExampleStatuses,
+  isGoldExampleExpired,
+  loadFewShotExamples,
+  parseGoldExampleTags,
+} from "./goldExamples.js";
+import {
+  authenticate,
+  checkCredentials,
+  clearedSessionCookie,
+  currentUser,
+  endSession,
+  generatePassword,
+  hashPassword,
+  hasRole,
+  parseRole,
+  requireRole,
+  sessionCookie,
+  startSession,
+  validatePassword,
+} from "./auth.js";
 
 const PORT = Number(process.env.PORT) || 4000;
-const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD;
-const RESPONSE_ID_KEY = "previousResponseId";
+const PUBLISH_POLL_SECONDS = readPositiveIntEnv("PUBLISH_POLL_SECONDS", 60);
+const PUBLISH_STALE_MINUTES = readPositiveIntEnv("PUBLISH_STALE_MINUTES", 10);
+const MAX_BULK_ITEMS = 5000;
 const app = express();
 const store = createTweetStore();
 
-function loadFewShotExamples(): FewShotExample[] {
-  const goldExamples = store.getGoldExamples();
-  return goldExamples.map(ex => ({
-    tweetText: ex.text,
-    response: ex.quote,
-    correction: ex.goldExampleCorrection ?? undefined,
-    type: ex.goldExampleType!,
-  }));
+// Decisions follow the current CONSENSUS_* settings, even if they changed since the last start;
+// each changed decision is audited with the actor "consensus"
+store.rederiveHumanDecisions();
+
+// Created on first use so the dashboard starts without X credentials in dry-run mode
+let publisher: Publisher | null = null;
+function getPublisher(): Publisher {
+  if (!publisher) {
+    publisher = createPublisher();
+  }
+  return publisher;
+}
+
+// Username recorded in the audit log; only used behind requireRole, so there is always a user
+function auditActor(res: express.Response): string {
+  return currentUser(res)!.username;
+}
+
+// `maxPerType` is kept for older clients; `goodCount`/`badCount` are the per-type slots
+function goldExampleCounts() {
+  const goodExamples = store.getGoldExamples("GOOD");
+  const badExamples = store.getGoldExamples("BAD");
+  const selection = resolveExampleSelection();
+
+  return {
+    good: goodExamples.length,
+    bad: badExamples.length,
+    pinned: [...goodExamples, ...badExamples].filter((ex) => ex.goldExamplePinned).length,
+    inactive: [...goldExampleStatuses(loadFewShotExamples(store), selection).values()]
+      .filter((status) => status === "inactive").length,
+    expired: [...goodExamples, ...badExamples].filter((ex) => isGoldExampleExpired(ex)).length,
+    strategy: selection.strategy,
+    goodCount: selection.goodCount,
+    badCount: selection.badCount,
+    maxPerType: Math.max(selection.goodCount, selection.badCount),
+    oldestGood: goodExamples.length > 0 ? goodExamples[goodExamples.length - 1]?.updatedAt : null,
+    oldestBad: badExamples.length > 0 ? badExamples[badExamples.length - 1]?.updatedAt : null,
+  };
 }
 
 app.use(express.urlencoded({ extended: true }));
 app.use(express.json());
+app.use(authenticate(store));
 
 // returns tweets with pagination (for admin.html)
+// Quotes and rejection details of rejected tweets are only shown to signed-in users
 app.get("/api/tweets", (req, res) => {
-  const password = req.query.password as string;
-  const authorized = !ADMIN_PASSWORD || password === ADMIN_PASSWORD;
-
-  if (password && !authorized) {
-    return res.status(401).send("Unauthorized: Invalid password.");
-  }
+  const authorized = currentUser(res) !== null;
 
   const { filters, pagination, sort } = parseFilters(req.query);
   // Public endpoint only shows tweets that have been processed by the model
   filters.hasModelDecision = true;
-  const { tweets, total, page, pageSize } = store.list(filters, pagination, sort);
+  filters.publicSearch = !authorized;
+  const result = listTweetPage(req.query, { filters, pagination, sort });
+  if (typeof result === "string") {
+    return res.status(400).send(result);
+  }
+  const { tweets } = result;
+  const snippets = searchSnippets(tweets, filters);
 
   const responseData = tweets.map((t) => ({
-    ...t,
-    quote: authorized || t.approved ? t.quote : "",
+    ...toPublicTweet(t, authorized),
+    snippet: snippets.get(t.id) ?? null,
   }));
 
-  const totalPages = total === 0 ? 0 : Math.ceil(total / pageSize);
-
-  res.json({
-    data: responseData,
-    pagination: {
-      page,
-      pageSize,
-      total,
-      totalPages,
-      hasNextPage: page < totalPages,
-      hasPreviousPage: page > 1,
-    },
-  });
+  res.json({ data: responseData, pagination: result.pagination });
 });
 
-app.get("/api/admin/tweets", (req, res) => {
-  const password = req.query.password as string;
-  if (ADMIN_PASSWORD && password !== ADMIN_PASSWORD) {
-    return res.status(401).send("Unauthorized: Invalid or missing password.");
-  }
-
+app.get("/api/admin/tweets", requireRole("viewer"), (req, res) => {
   const authorized = true;
-  const { filters, pagination, sort } = parseFilters(req.query);
-  const { tweets, total, page, pageSize } = store.list(filters, pagination, sort);
+  const user = currentUser(res)!;
+  const { filters, pagination, sort } = parseFilters(req.query, user.id);
+  const result = listTweetPage(req.query, { filters, pagination, sort });
+  if (typeof result === "string") {
+    return res.status(400).send(result);
+  }
+  const { tweets } = result;
+  const votes = store.getVoteSummaries(tweets.map((t) => t.id), user.id);
+  const snippets = searchSnippets(tweets, filters);
 
   const responseData = tweets.map((t) => ({
     ...t,
+    votes: votes.get(t.id) ?? { approvals: 0, rejections: 0, myVote: null },
+    snippet: snippets.get(t.id) ?? null,
     quote: authorized || t.approved ? t.quote : "",
+    rejectionReason: authorized || t.approved ? t.rejectionReason : null,
+    rejectionRule: authorized || t.approved ? t.rejectionRule : null,
   }));
 
-  const totalPages = total === 0 ? 0 : Math.ceil(total / pageSize);
+  res.json({ data: responseData, pagination: result.pagination });
+});
 
-  res.json({
-    data: responseData,
-    pagination: {
-      page,
-      pageSize,
-      total,
-      totalPages,
-      hasNextPage: page < totalPages,
-      hasPreviousPage: page > 1,
-    },
-  });
+app.post("/api/auth/login", async (req, res) => {
+  const { username, password } = (req.body ?? {}) as { username?: string; password?: string };
+  if (typeof username !== "string" || typeof password !== "string" || !username.trim()) {
+    return res.status(400).send("username and password are required.");
+  }
+
+  const user = await checkCredentials(store, username.trim(), password);
+  if (!user) {
+    return res.status(401).send("Invalid username or password.");
+  }
+
+  // The token is also returned so scripts can send it as a bearer token
+  const { token, expiresAt } = startSession(store, user);
+  res.setHeader("Set-Cookie", sessionCookie(token, expiresAt));
+  // Re-read for the lastLoginAt this sign-in just set
+  res.json({ success: true, user: store.getUser(user.id) ?? user, token, expiresAt: expiresAt.toISOString() });
+});
+
+app.post("/api/auth/logout", (req, res) => {
+  endSession(store, req);
+  res.setHeader("Set-Cookie", clearedSessionCookie());
+  res.json({ success: true });
+});
+
+app.get("/api/auth/me", requireRole("viewer"), (_req, res) => {
+  res.json({ user: currentUser(res) });
 });
 
 app.use(express.static(path.join(process.cwd(), "public")));
 
-app.post("/tweets/:id/human-decision", (req, res) => {
-  const { decision, password } = req.body as {
-    decision?: string;
-    password?: string;
+// Casts the signed-in reviewer's vote; humanDecision follows from all votes per the consensus rule
+app.post("/tweets/:id/human-decision", requireRole("moderator"), (req, res) => {
+  const { decision, reason } = req.body as {
+    decision?: string | null;
+    reason?: string;
   };
 
-  if (ADMIN_PASSWORD && password !== ADMIN_PASSWORD) {
-    return res.status(401).send("Unauthorized: Invalid or missing password.");
+  const normalized = normalizeDecision(decision ?? undefined);
+  if (decision !== null && !normalized) {
+    return res.status(400).send("Invalid decision. Use APPROVED, REJECTED, or null to withdraw your vote.");
   }
 
-  const normalized = normalizeDecision(decision);
-  if (!normalized) {
-    return res.status(400).send("Invalid decision. Use APPROVED or REJECTED.");
+  const result = store.castVote(req.params.id, currentUser(res)!, normalized, reason?.trim() || null);
+  if (!result) {
+    return res.status(404).send("Tweet not found.");
   }
-
-  store.updateHumanDecision(req.params.id, normalized);
-  res.json({ success: true });
+  res.json({ success: true, ...result });
 });
 
 // process a single tweet through the AI model (for pending tweets)
-app.post("/api/admin/tweets/:id/process", async (req, res) => {
-  const { password } = req.body as { password?: string };
-
-  if (ADMIN_PASSWORD && password !== ADMIN_PASSWORD) {
-    return res.status(401).send("Unauthorized: Invalid or missing password.");
-  }
-
+app.post("/api/admin/tweets/:id/process", requireRole("moderator"), async (req, res) => {
   const tweet = store.get(req.params.id);
   if (!tweet) {
     return res.status(404).send("Tweet not found.");
@@ -133,30 +242,78 @@ app.post("/api/admin/tweets/:id/process", async (req, res) => {
   if (tweet.approved !== null) {
     return res.status(400).send("Tweet already has a model decision.");
   }
+  store.recordAudit({ actor: auditActor(res), action: "tweet.process", tweetId: tweet.id });
 
   try {
-    const fewShotExamples = loadFewShotExamples();
-    const previousResponseId = store.getConfig(RESPONSE_ID_KEY);
-
-    const { quote, approved, score, responseId } = await askTweetDecision(tweet.text, {
+    const fewShotExamples = loadFewShotExamples(store);
+
+    const modelInput = await prepareModelInput(tweet, resolveInputContext(), store.saveContext);
+    const promptVersion = store.getActivePromptVersion();
+    const session = resolveCalibrationSession(store, undefined);
+    const turn = beginCalibrationTurn(store, session.id);
+    const decision = await askTweetDecision(modelInput, {
+      prompt: promptVersion ?? undefined,
       examples: fewShotExamples,
-      previousResponseId,
+      previousResponseId: turn.previousResponseId,
+      calibrationNote: turn.calibrationNote,
     });
+    const { quote, approved, score, responseId } = decision;
 
-    // Update conversation chain
-    store.setConfig(RESPONSE_ID_KEY, responseId);
+    // Update conversation chain (providers without server-side state leave it untouched)
+    finishCalibrationTurn(store, turn, responseId);
 
+    const evaluationId = store.recordEvaluation({ tweetId: tweet.id, ...decision, calibrationSessionId: session.id });
     store.save({
       id: tweet.id,
       text: tweet.text,
       url: tweet.url,
       quote: quote ?? "",
+      qt: decision.qt,
+      rejectionReason: decision.rejectionReason,
+      rejectionRule: decision.rejectionRule,
       approved,
       score,
+      provider: decision.provider,
+      model: decision.model,
+      reasoningEffort: decision.reasoningEffort,
+      modelInput,
+      evaluationId,
+      promptVersionId: decision.promptVersionId,
     });
 
-    res.json({ success: true, approved, quote, score });
+    store.completeQueueItem(tweet.id);
+
+    // The candidate runs after the response is sent, so shadow mode doesn't slow the dashboard down
+    const shadowRun = resolveShadowRun(store, promptVersion);
+    if (shadowRun) {
+      void runShadowEvaluation(store, shadowRun, {
+        tweetId: tweet.id,
+        modelInput,
+        examples: fewShotExamples,
+        productionEvaluationId: evaluationId,
+      });
+    }
+
+    res.json({ success: true, approved, quote, qt: decision.qt, rejectionReason: decision.rejectionReason, score });
   } catch (error) {
+    if (error instanceof MalformedResponseError && error.call) {
+      store.recordEvaluation({ tweetId: tweet.id, ...error.call, error: error.message });
+    }
+
+    // Retryable failures go through the same queue bookkeeping as the CLI
+    const kind = classifyProcessingError(error);
+    if (kind !== "fatal") {
+      store.recordQueueFailure(
+        tweet.id,
+        {
+          error: describeError(error),
+          kind,
+          rawResponse: error instanceof MalformedResponseError ? error.rawResponse : null,
+        },
+        resolveRetryPolicy()
+      );
+    }
+
     if (error instanceof MalformedResponseError) {
       console.error("Malformed response from model:", error.message);
       return res.status(500).send(`Malformed AI response: ${error.message}`);
@@ -166,14 +323,35 @@ app.post("/api/admin/tweets/:id/process", async (req, res) => {
   }
 });
 
-// re-evaluate an already approved tweet
-app.post("/tweets/:id/reeval", async (req, res) => {
-  const { password } = (req.body ?? {}) as { password?: string };
+// List processing queue items (status=pending|dead), including raw malformed responses
+app.get("/api/admin/queue", requireRole("viewer"), (req, res) => {
+  const statusParam = typeof req.query.status === "string" ? req.query.status : undefined;
+  const status = normalizeQueueStatus(statusParam);
+  if (statusParam && !status) {
+    return res.status(400).send("Invalid status. Use pending or dead.");
+  }
+
+  res.json({ data: store.listQueue(status ?? undefined) });
+});
 
-  if (ADMIN_PASSWORD && password !== ADMIN_PASSWORD) {
-    return res.status(401).send("Unauthorized: Invalid or missing password.");
+// Requeue a dead-lettered (or backed-off) tweet for immediate processing
+app.post("/api/admin/queue/:id/requeue", requireRole("moderator"), (req, res) => {
+  const before = store.getQueueItem(req.params.id);
+  if (!before || !store.requeue(req.params.id)) {
+    return res.status(404).send("Queue item not found.");
   }
+  store.recordAudit({
+    actor: auditActor(res),
+    action: "tweet.requeue",
+    tweetId: req.params.id,
+    oldValue: { status: before.status, attempts: before.attempts },
+  });
 
+  res.json({ success: true, item: store.getQueueItem(req.params.id) });
+});
+
+// re-evaluate an already approved tweet
+app.post("/tweets/:id/reeval", requireRole("moderator"), async (req, res) => {
   const tweet = store.get(req.params.id);
   if (!tweet) {
     return res.status(404).send("Tweet not found.");
@@ -182,19 +360,33 @@ app.post("/tweets/:id/reeval", async (req, res) => {
   if (!tweet.approved) {
     return res.status(400).send("Cannot re-evaluate a rejected tweet.");
   }
+  store.recordAudit({
+    actor: auditActor(res),
+    action: "tweet.reeval",
+    tweetId: tweet.id,
+    oldValue: { approved: tweet.approved, score: tweet.score },
+  });
 
   try {
-    const fewShotExamples = loadFewShotExamples();
-    const previousResponseId = store.getConfig(RESPONSE_ID_KEY);
-
-    const { quote, approved, score, responseId } = await askTweetDecision(tweet.text, {
+    const fewShotExamples = loadFewShotExamples(store);
+
+    const modelInput = await prepareModelInput(tweet, resolveInputContext(), store.saveContext);
+    const promptVersion = store.getActivePromptVersion();
+    const session = resolveCalibrationSession(store, undefined);
+    const turn = beginCalibrationTurn(store, session.id);
+    const decision = await askTweetDecision(modelInput, {
+      prompt: promptVersion ?? undefined,
       examples: fewShotExamples,
-      previousResponseId,
+      previousResponseId: turn.previousResponseId,
+      calibrationNote: turn.calibrationNote,
     });
+    const { quote, approved, score, responseId } = decision;
 
-    // Update conversation chain
-    store.setConfig(RESPONSE_ID_KEY, responseId);
+    // Update conversation chain (providers without server-side state leave it untouched)
+    finishCalibrationTurn(store, turn, responseId);
 
+    // Recorded even when rejected, so the history shows it; the current decision stays
+    const evaluationId = store.recordEvaluation({ tweetId: tweet.id, ...decision, calibrationSessionId: session.id });
     if (!approved) {
       return res.status(500).send("Re-evaluation resulted in rejection");
     }
@@ -204,8 +396,17 @@ app.post("/tweets/:id/reeval", async (req, res) => {
       text: tweet.text,
       url: tweet.url,
       quote,
+      qt: decision.qt,
+      rejectionReason: decision.rejectionReason,
+      rejectionRule: decision.rejectionRule,
       approved,
       score,
+      provider: decision.provider,
+      model: decision.model,
+      reasoningEffort: decision.reasoningEffort,
+      modelInput,
+      evaluationId,
+      promptVersionId: decision.promptVersionId,
     });
 
     const updatedTweet = store.get(tweet.id);
@@ -218,6 +419,9 @@ app.post("/tweets/:id/reeval", async (req, res) => {
     res.json(updatedTweet);
   } catch (error) {
     if (error instanceof MalformedResponseError) {
+      if (error.call) {
+        store.recordEvaluation({ tweetId: tweet.id, ...error.call, error: error.message });
+      }
       return res.status(500).send(`Malformed AI response: ${error.message}`);
     }
     const message =
@@ -226,18 +430,337 @@ app.post("/tweets/:id/reeval", async (req, res) => {
   }
 });
 
+// Stored judge prompts, newest first
+app.get("/api/admin/prompts", requireRole("viewer"), (req, res) => {
+  res.json({
+    activeId: store.getActivePromptVersion()?.id ?? null,
+    data: store.listPromptVersions(),
+  });
+});
+
+// Save a new prompt version (versions are never edited in place); `activate` switches to it
+app.post("/api/admin/prompts", requireRole("admin"), (req, res) => {
+  const { body, note, author, activate } = (req.body ?? {}) as {
+    body?: string;
+    note?: string;
+    author?: string;
+    activate?: boolean;
+  };
+
+  if (typeof body !== "string" || !body.trim()) {
+    return res.status(400).send("body is required.");
+  }
+
+  const version = store.createPromptVersion({
+    body,
+    note: note?.trim() || null,
+    author: author?.trim() || currentUser(res)?.username || null,
+  });
+  const previousActiveId = store.getActivePromptVersion()?.id ?? null;
+  if (activate) {
+    store.activatePromptVersion(version.id);
+  }
+  store.recordAudit({
+    actor: auditActor(res),
+    action: "prompt.create",
+    target: `prompt:${version.id}`,
+    newValue: { note: version.note, activated: Boolean(activate) },
+  });
+  if (activate) {
+    store.recordAudit({
+      actor: auditActor(res),
+      action: "prompt.activate",
+      target: `prompt:${version.id}`,
+      oldValue: previousActiveId,
+      newValue: version.id,
+    });
+  }
+  res.status(201).json({ success: true, version: store.getPromptVersion(version.id) });
+});
+
+// Line diff between two versions; `against` defaults to the active version
+app.get("/api/admin/prompts/:id/diff", requireRole("viewer"), (req, res) => {
+  const id = parsePositiveInteger(req.params.id);
+  const version = id ? store.getPromptVersion(id) : null;
+  if (!version) {
+    return res.status(404).send("Prompt version not found.");
+  }
+
+  const againstParam = typeof req.query.against === "string" ? req.query.against : undefined;
+  const againstId = againstParam ? parsePositiveInteger(againstParam) : null;
+  const against = againstParam
+    ? againstId ? store.getPromptVersion(againstId) : null
+    : store.getActivePromptVersion();
+  if (!against) {
+    return res.status(404).send("Prompt version to compare against not found.");
+  }
+
+  res.json({ from: against.id, to: version.id, diff: diffLines(against.body, version.body) });
+});
+
+app.post("/api/admin/prompts/:id/activate", requireRole("admin"), (req, res) => {
+  const id = parsePositiveInteger(req.params.id);
+  const previousActiveId = store.getActivePromptVersion()?.id ?? null;
+  if (!id || !store.activatePromptVersion(id)) {
+    return res.status(404).send("Prompt version not found.");
+  }
+  store.recordAudit({
+    actor: auditActor(res),
+    action: "prompt.activate",
+    target: `prompt:${id}`,
+    oldValue: previousActiveId,
+    newValue: id,
+  });
+
+  res.json({ success: true, version: store.getPromptVersion(id) });
+});
+
+// Calibration sessions (conversation chains); `maxTweets` is the rollover threshold
+app.get("/api/admin/sessions", requireRole("viewer"), (req, res) => {
+  res.json({
+    activeId: store.getActiveCalibrationSession()?.id ?? null,
+    maxTweets: resolveMaxSessionTweets(),
+    data: store.listCalibrationSessions(),
+  });
+});
+
+app.post("/api/admin/sessions", requireRole("admin"), (req, res) => {
+  const { name, activate } = (req.body ?? {}) as { name?: string; activate?: boolean };
+
+  if (typeof name !== "string" || !name.trim()) {
+    return res.status(400).send("name is required.");
+  }
+  const session = store.createCalibrationSession(name.trim(), store.getActivePromptVersion()?.id ?? null);
+  if (!session) {
+    return res.status(409).send("A session with that name already exists.");
+  }
+  const previousActiveId = store.getActiveCalibrationSession()?.id ?? null;
+  if (activate) {
+    store.activateCalibrationSession(session.id);
+  }
+  store.recordAudit({
+    actor: auditActor(res),
+    action: "session.create",
+    target: `session:${session.id}`,
+    newValue: { name: session.name, activated: Boolean(activate) },
+  });
+  if (activate) {
+    store.recordAudit({
+      actor: auditActor(res),
+      action: "session.activate",
+      target: `session:${session.id}`,
+      oldValue: previousActiveId,
+      newValue: session.id,
+    });
+  }
+  res.status(201).json({ success: true, session });
+});
+
+// Drop the session's chain and seed; the next call starts a fresh conversation
+app.post("/api/admin/sessions/:id/reset", requireRole("admin"), (req, res) => {
+  const id = parsePositiveInteger(req.params.id);
+  const session = id ? store.getCalibrationSession(id) : null;
+  if (!session) {
+    return res.status(404).send("Calibration session not found.");
+  }
+
+  const reset = resetCalibrationSession(store, session);
+  store.recordAudit({
+    actor: auditActor(res),
+    action: "session.reset",
+    target: `session:${session.id}`,
+    oldValue: { generation: session.generation, tweetCount: session.tweetCount },
+    newValue: { generation: reset.generation },
+  });
+  res.json({ success: true, session: reset });
+});
+
+app.post("/api/admin/sessions/:id/activate", requireRole("admin"), (req, res) => {
+  const id = parsePositiveInteger(req.params.id);
+  const previousActiveId = store.getActiveCalibrationSession()?.id ?? null;
+  if (!id || !store.activateCalibrationSession(id)) {
+    return res.status(404).send("Calibration session not found.");
+  }
+  store.recordAudit({
+    actor: auditActor(res),
+    action: "session.activate",
+    target: `session:${id}`,
+    oldValue: previousActiveId,
+    newValue: id,
+  });
+
+  res.json({ success: true, session: store.getCalibrationSession(id) });
+});
+
+// Recompute every calibrated score, e.g. after a batch of human decisions when the
+// reference is "human"; `reference` overrides SCORE_CALIBRATION_REFERENCE for this run
+app.post("/api/admin/scores/recalibrate", requireRole("moderator"), (req, res) => {
+  const { reference } = (req.body ?? {}) as { reference?: string };
+
+  const parsedReference = reference ? parseCalibrationReference(reference) : resolveCalibrationReference();
+  if (!parsedReference) {
+    return res.status(400).send("Invalid reference. Use: model or human");
+  }
+  const result = store.recalibrateScores(parsedReference);
+  store.recordAudit({ actor: auditActor(res), action: "scores.recalibrate", newValue: result });
+  res.json({ success: true, ...result });
+});
+
+// Shadow configuration and how often it has agreed with production so far
+app.get("/api/admin/shadow", requireRole("viewer"), (req, res) => {
+  res.json({ config: getShadowConfig(store), summary: store.getShadowSummary() });
+});
+
+app.put("/api/admin/shadow", requireRole("admin"), (req, res) => {
+  const input = (req.body ?? {}) as Record<string, unknown>;
+
+  const config = parseShadowConfig(input, store);
+  if (typeof config === "string") {
+    return res.status(400).send(config);
+  }
+  // Fail on a misconfigured candidate now rather than on every processed tweet
+  if (config.enabled) {
+    try {
+      resolveShadowRun(store, null, config);
+    } catch (error) {
+      return res.status(400).send(describeError(error));
+    }
+  }
+
+  const previous = getShadowConfig(store);
+  setShadowConfig(store, config);
+  store.recordAudit({ actor: auditActor(res), action: "shadow.update", target: "shadow", oldValue: previous, newValue: config });
+  res.json({ success: true, config });
+});
+
+// Production/shadow pairs, newest first (kind=disagreements|errors|all, default disagreements)
+app.get("/api/admin/shadow/comparisons", requireRole("viewer"), (req, res) => {
+  const kindParam = typeof req.query.kind === "string" ? req.query.kind : undefined;
+  const kind = kindParam ? normalizeShadowComparisonKind(kindParam) : "disagreements";
+  if (!kind) {
+    return res.status(400).send("Invalid kind. Use disagreements, errors or all.");
+  }
+  const limit = Math.min(parsePositiveInteger(req.query.limit as string | undefined) ?? 50, 200);
+
+  res.json({ data: store.listShadowComparisons(kind, limit), summary: store.getShadowSummary() });
+});
+
+// Every model call for a tweet, newest first; `currentEvaluationId` is the one the tweet row reflects
+app.get("/api/admin/tweets/:id/evaluations", requireRole("viewer"), (req, res) => {
+  const tweet = store.get(req.params.id);
+  if (!tweet) {
+    return res.status(404).send("Tweet not found.");
+  }
+
+  res.json({
+    currentEvaluationId: tweet.currentEvaluationId,
+    data: store.listEvaluations(tweet.id),
+  });
+});
+
+// Every reviewer's vote on a tweet, most recent first
+app.get("/api/admin/tweets/:id/votes", requireRole("viewer"), (req, res) => {
+  const tweet = store.get(req.params.id);
+  if (!tweet) {
+    return res.status(404).send("Tweet not found.");
+  }
+
+  res.json({ humanDecision: tweet.humanDecision, rule: resolveConsensusRule(), data: store.listVotes(tweet.id) });
+});
+
+// How often reviewers agree with each other, with the consensus and with the model
+app.get("/api/admin/votes/agreement", requireRole("viewer"), (_req, res) => {
+  res.json(buildAgreementReport(store));
+});
+
+// QT history: model drafts and human edits (diffed against the draft they started from)
+app.get("/api/admin/tweets/:id/qt", requireRole("viewer"), (req, res) => {
+  const tweet = store.get(req.params.id);
+  if (!tweet) {
+    return res.status(404).send("Tweet not found.");
+  }
+
+  res.json({
+    qt: tweet.qt,
+    finalQt: tweet.finalQt,
+    finalQtRevisionId: tweet.finalQtRevisionId,
+    revisions: withDiffs(store.listQtRevisions(tweet.id)),
+  });
+});
+
+// Save a human-edited QT. It becomes the final version unless makeFinal is false.
+app.post("/api/admin/tweets/:id/qt", requireRole("moderator"), (req, res) => {
+  const { text, author, makeFinal } = (req.body ?? {}) as {
+    text?: string;
+    author?: string;
+    makeFinal?: boolean;
+  };
+
+  const tweet = store.get(req.params.id);
+  if (!tweet) {
+    return res.status(404).send("Tweet not found.");
+  }
+
+  const qtText = typeof text === "string" ? text.trim() : "";
+  const textError = validatePublishText(qtText);
+  if (textError) {
+    return res.status(400).send(textError);
+  }
+  if (makeFinal !== undefined && typeof makeFinal !== "boolean") {
+    return res.status(400).send("makeFinal must be a boolean.");
+  }
+
+  const revision = store.addQtRevision(
+    tweet.id,
+    qtText,
+    author?.trim() || currentUser(res)?.username || "admin",
+    makeFinal ?? true
+  );
+  store.recordAudit({
+    actor: auditActor(res),
+    action: "tweet.qt-edit",
+    tweetId: tweet.id,
+    oldValue: tweet.finalQt,
+    newValue: { revisionId: revision.id, text: revision.text, makeFinal: makeFinal ?? true },
+  });
+  res.status(201).json({ success: true, revision, tweet: store.get(tweet.id) });
+});
+
+// Pick which revision is the final QT (null reverts to the model's latest draft)
+app.put("/api/admin/tweets/:id/qt/final", requireRole("moderator"), (req, res) => {
+  const { revisionId } = (req.body ?? {}) as {
+    revisionId?: number | null;
+  };
+
+  if (revisionId !== null && !(typeof revisionId === "number" && Number.isInteger(revisionId) && revisionId > 0)) {
+    return res.status(400).send("revisionId must be a revision id or null.");
+  }
+
+  const tweet = store.get(req.params.id);
+  if (!tweet) {
+    return res.status(404).send("Tweet not found.");
+  }
+  if (!store.setFinalQt(tweet.id, revisionId)) {
+    return res.status(404).send("Revision not found for this tweet.");
+  }
+  store.recordAudit({
+    actor: auditActor(res),
+    action: "tweet.qt-final",
+    tweetId: tweet.id,
+    oldValue: tweet.finalQtRevisionId,
+    newValue: revisionId,
+  });
+
+  res.json({ success: true, tweet: store.get(req.params.id) });
+});
+
 // Set gold example status for a tweet
-app.post("/api/admin/tweets/:id/gold-example", (req, res) => {
-  const { type, password, correction } = req.body as {
+app.post("/api/admin/tweets/:id/gold-example", requireRole("moderator"), (req, res) => {
+  const { type, correction } = req.body as {
     type?: string;
-    password?: string;
     correction?: string;
   };
 
-  if (ADMIN_PASSWORD && password !== ADMIN_PASSWORD) {
-    return res.status(401).send("Unauthorized: Invalid or missing password.");
-  }
-
   const normalized = normalizeGoldExampleType(type);
   if (type && !normalized) {
     return res.status(400).send("Invalid type. Use GOOD, BAD, or omit to clear.");
@@ -254,64 +777,607 @@ app.post("/api/admin/tweets/:id/gold-example", (req, res) => {
   }
 
   // Only store correction for BAD examples, clear it otherwise
-  const correctionToStore = normalized === "BAD" ? correction : null;
-  store.setGoldExample(req.params.id, normalized, correctionToStore);
-  res.json({ success: true, goldExampleType: normalized, goldExampleCorrection: correctionToStore });
+  const correctionToStore = normalized === "BAD" ? correction! : null;
+  const selection = resolveExampleSelection();
+  const statusesBefore = goldExampleStatuses(loadFewShotExamples(store), selection);
+  store.setGoldExample(req.params.id, normalized, correctionToStore, auditActor(res));
+  const examples = loadFewShotExamples(store);
+  const statuses = goldExampleStatuses(examples, selection);
+
+  // Examples this change pushed past their type's slots, so the UI can say so
+  const rotatedOut = examples
+    .filter((ex) => statuses.get(ex.tweetId!) === "inactive" && statusesBefore.get(ex.tweetId!) !== "inactive")
+    .map((ex) => ({ tweetId: ex.tweetId, text: ex.tweetText }));
+  res.json({
+    success: true,
+    goldExampleType: normalized,
+    goldExampleCorrection: correctionToStore,
+    // Changing the type keeps an expiry, so a re-marked example can still be expired
+    status: statuses.get(req.params.id) ?? (normalized && isGoldExampleExpired(tweet) ? "expired" : null),
+    rotatedOut,
+  });
+});
+
+// Curation notes, tags (rule ids / high-bar categories the example illustrates) and expiry
+app.put("/api/admin/gold-examples/:id", requireRole("moderator"), (req, res) => {
+  const { note, tags, expiresAt } = (req.body ?? {}) as { note?: string | null; tags?: unknown; expiresAt?: string | null };
+
+  const parsedTags = parseGoldExampleTags(tags);
+  if (typeof parsedTags === "string") {
+    return res.status(400).send(parsedTags);
+  }
+  if (expiresAt !== undefined && expiresAt !== null && expiresAt !== "" && (typeof expiresAt !== "string" || !isValidDate(expiresAt))) {
+    return res.status(400).send("Invalid expiresAt. Use YYYY-MM-DD, an ISO timestamp, or null.");
+  }
+  const details = {
+    note: typeof note === "string" && note.trim() ? note.trim() : null,
+    tags: parsedTags,
+    expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+  };
+  const saved = store.updateGoldExampleDetails(req.params.id, details, auditActor(res));
+  if (!saved) {
+    return res.status(404).send("Gold example not found.");
+  }
+  res.json({ success: true, ...saved });
+});
+
+// Per-example status, injection counts and production decisions before/after it was added
+app.get("/api/admin/gold-examples/report", requireRole("viewer"), (req, res) => {
+  const window = parsePositiveInteger(req.query.window as string | undefined) ?? DEFAULT_IMPACT_WINDOW;
+  const selection = resolveExampleSelection();
+  res.json({ selection, window, data: buildGoldExampleReport(store, selection, window) });
+});
+
+// Always include a gold example in the prompt (or stop doing so)
+app.post("/api/admin/tweets/:id/gold-example/pin", requireRole("moderator"), (req, res) => {
+  const { pinned } = (req.body ?? {}) as { pinned?: boolean };
+
+  if (typeof pinned !== "boolean") {
+    return res.status(400).send("pinned must be true or false.");
+  }
+  if (!store.setGoldExamplePinned(req.params.id, pinned, auditActor(res))) {
+    return res.status(404).send("Gold example not found.");
+  }
+  res.json({ success: true, goldExamplePinned: pinned });
 });
 
 // Get gold example counts (public)
 app.get("/api/gold-examples/counts", (_req, res) => {
-  const goodExamples = store.getGoldExamples("GOOD");
-  const badExamples = store.getGoldExamples("BAD");
+  res.json(goldExampleCounts());
+});
+
+// Get gold example counts (admin - same as public for now)
+app.get("/api/admin/gold-examples/counts", requireRole("viewer"), (req, res) => {
+  res.json(goldExampleCounts());
+});
+
+// Get all gold examples
+app.get("/api/admin/gold-examples", requireRole("viewer"), (req, res) => {
+  const type = req.query.type as string | undefined;
+  const normalized = type ? normalizeGoldExampleType(type) : undefined;
+
+  if (type && !normalized) {
+    return res.status(400).send("Invalid type. Use GOOD or BAD.");
+  }
+
+  const examples = store.getGoldExamples(normalized ?? undefined);
+  res.json({ data: examples });
+});
 
+// Last-run status of the CLI processor plus live queue depth
+app.get("/api/admin/processor/status", requireRole("viewer"), (req, res) => {
   res.json({
-    good: goodExamples.length,
-    bad: badExamples.length,
-    maxPerType: 5,
-    oldestGood: goodExamples.length > 0 ? goodExamples[goodExamples.length - 1]?.updatedAt : null,
-    oldestBad: badExamples.length > 0 ? badExamples[badExamples.length - 1]?.updatedAt : null,
+    status: store.getProcessorStatus(),
+    queue: store.getQueueCounts(),
   });
 });
 
-// Get gold example counts (admin - same as public for now)
-app.get("/api/admin/gold-examples/counts", (req, res) => {
-  const password = req.query.password as string;
-  if (ADMIN_PASSWORD && password !== ADMIN_PASSWORD) {
-    return res.status(401).send("Unauthorized: Invalid or missing password.");
+// Rejection counts per rule category, overall and bucketed over time
+app.get("/api/admin/stats/rejections", requireRole("viewer"), (req, res) => {
+  const options = parseStatsOptions(req.query);
+  if (typeof options === "string") {
+    return res.status(400).send(options);
   }
 
-  const goodExamples = store.getGoldExamples("GOOD");
-  const badExamples = store.getGoldExamples("BAD");
+  const stats = store.getRejectionStats(options);
+  res.json({
+    ...stats,
+    rules: REJECTION_RULES.map(({ id, label, promptRules }) => ({ id, label, promptRules })),
+  });
+});
+
+// Model vs human agreement on tweets both have decided, overall and bucketed over time
+app.get("/api/admin/stats/agreement", requireRole("viewer"), (req, res) => {
+  const options = parseStatsOptions(req.query);
+  if (typeof options === "string") {
+    return res.status(400).send(options);
+  }
+
+  res.json(store.getAgreementStats(options));
+});
+
+// Tweets the model approved and a human rejected (false-approve), or the reverse (false-reject)
+app.get("/api/admin/stats/disagreements", requireRole("viewer"), (req, res) => {
+  const kind = req.query.kind;
+  if (kind !== "false-approve" && kind !== "false-reject") {
+    return res.status(400).send("Invalid kind. Use false-approve or false-reject.");
+  }
+
+  const filters: TweetFilters = kind === "false-approve"
+    ? { approved: true, humanDecision: "REJECTED" }
+    : { approved: false, humanDecision: "APPROVED" };
+  const { tweets, total, page, pageSize } = store.list(
+    filters,
+    {
+      page: parsePositiveInteger(req.query.page as string | undefined) ?? undefined,
+      pageSize: parsePositiveInteger(req.query.pageSize as string | undefined) ?? undefined,
+    },
+    { orderBy: "updatedAt", orderDir: "desc" }
+  );
 
+  const totalPages = total === 0 ? 0 : Math.ceil(total / pageSize);
   res.json({
-    good: goodExamples.length,
-    bad: badExamples.length,
-    maxPerType: 5,
-    oldestGood: goodExamples.length > 0 ? goodExamples[goodExamples.length - 1]?.updatedAt : null,
-    oldestBad: badExamples.length > 0 ? badExamples[badExamples.length - 1]?.updatedAt : null,
+    kind,
+    data: tweets,
+    pagination: { page, pageSize, total, totalPages, hasNextPage: page < totalPages, hasPreviousPage: page > 1 },
   });
 });
 
-// Get all gold examples
-app.get("/api/admin/gold-examples", (req, res) => {
-  const password = req.query.password as string;
-  if (ADMIN_PASSWORD && password !== ADMIN_PASSWORD) {
-    return res.status(401).send("Unauthorized: Invalid or missing password.");
+// Raw score histograms of human-approved vs human-rejected tweets
+app.get("/api/admin/stats/scores", requireRole("viewer"), (req, res) => {
+  const options = parseStatsOptions(req.query);
+  if (typeof options === "string") {
+    return res.status(400).send(options);
   }
 
-  const type = req.query.type as string | undefined;
-  const normalized = type ? normalizeGoldExampleType(type) : undefined;
+  res.json(store.getScoreDistribution(options));
+});
 
-  if (type && !normalized) {
-    return res.status(400).send("Invalid type. Use GOOD or BAD.");
+// Model and human approval rates per period and per source
+app.get("/api/admin/stats/approval-rates", requireRole("viewer"), (req, res) => {
+  const options = parseStatsOptions(req.query);
+  if (typeof options === "string") {
+    return res.status(400).send(options);
   }
 
-  const examples = store.getGoldExamples(normalized ?? undefined);
-  res.json({ data: examples });
+  const names = new Map(store.listSources().map((source) => [source.id, source.name]));
+  const stats = store.getApprovalRateStats(options);
+  res.json({
+    ...stats,
+    sources: stats.sources.map((row) => ({
+      ...row,
+      name: row.sourceId === null ? null : names.get(row.sourceId) ?? null,
+    })),
+  });
 });
 
+// Agreement and approval rate in the production calls before and after each prompt or gold-example change
+app.get("/api/admin/stats/drift", requireRole("viewer"), (req, res) => {
+  const window = Math.min(parsePositiveInteger(req.query.window as string | undefined) ?? DEFAULT_DRIFT_WINDOW, 500);
+  res.json({ window, data: buildDriftReport(store, window) });
+});
+
+// Saved tweet sources with per-source tweet and approval counts
+app.get("/api/admin/sources", requireRole("viewer"), (req, res) => {
+  const stats = new Map(store.getSourceStats().map((row) => [row.sourceId, row]));
+  const data = store.listSources().map((source) => {
+    const row = stats.get(source.id);
+    return {
+      ...source,
+      stats: {
+        tweets: row?.tweets ?? 0,
+        decided: row?.decided ?? 0,
+        approved: row?.approved ?? 0,
+        rejected: row?.rejected ?? 0,
+        humanApproved: row?.humanApproved ?? 0,
+      },
+    };
+  });
+
+  res.json({ data });
+});
+
+app.post("/api/admin/sources", requireRole("admin"), (req, res) => {
+  const body = (req.body ?? {}) as TweetSourceUpdate;
+
+  const input = pickSourceFields(body);
+  const error =
+    validateSourceInput(input) ?? validateSourceValue(input.type!, input.value!);
+  if (error) {
+    return res.status(400).send(error);
+  }
+
+  try {
+    const source = store.createSource({ ...input, name: input.name!, type: input.type!, value: input.value! });
+    store.recordAudit({ actor: auditActor(res), action: "source.create", target: `source:${source.id}`, newValue: input });
+    res.status(201).json({ success: true, source });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      return res.status(409).send("A source with that name already exists.");
+    }
+    throw error;
+  }
+});
+
+app.put("/api/admin/sources/:id", requireRole("admin"), (req, res) => {
+  const body = (req.body ?? {}) as TweetSourceUpdate;
+
+  const id = parsePositiveInteger(req.params.id);
+  const existing = id ? store.getSource(id) : null;
+  if (!id || !existing) {
+    return res.status(404).send("Source not found.");
+  }
+
+  const update = pickSourceFields(body);
+  const error =
+    validateSourceInput(update, true) ??
+    validateSourceValue(update.type ?? existing.type, update.value ?? existing.value);
+  if (error) {
+    return res.status(400).send(error);
+  }
+
+  try {
+    store.updateSource(id, update);
+    const changed = Object.keys(update) as Array<keyof TweetSourceUpdate>;
+    store.recordAudit({
+      actor: auditActor(res),
+      action: "source.update",
+      target: `source:${id}`,
+      oldValue: Object.fromEntries(changed.map((key) => [key, existing[key]])),
+      newValue: update,
+    });
+    res.json({ success: true, source: store.getSource(id) });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      return res.status(409).send("A source with that name already exists.");
+    }
+    throw error;
+  }
+});
+
+app.delete("/api/admin/sources/:id", requireRole("admin"), (req, res) => {
+  const id = parsePositiveInteger(req.params.id);
+  const existing = id ? store.getSource(id) : null;
+  if (!id || !existing || !store.deleteSource(id)) {
+    return res.status(404).send("Source not found.");
+  }
+  store.recordAudit({
+    actor: auditActor(res),
+    action: "source.delete",
+    target: `source:${id}`,
+    oldValue: { name: existing.name, type: existing.type, value: existing.value },
+  });
+
+  res.json({ success: true });
+});
+
+// Post the QT for a human-approved tweet as a quote tweet, now or at `scheduledAt`.
+// `text` defaults to the model's QT and can be edited before posting.
+app.post("/api/admin/tweets/:id/publish", requireRole("publisher"), async (req, res) => {
+  const { text, scheduledAt } = (req.body ?? {}) as {
+    text?: string;
+    scheduledAt?: string;
+  };
+
+  const tweet = store.get(req.params.id);
+  if (!tweet) {
+    return res.status(404).send("Tweet not found.");
+  }
+  if (tweet.humanDecision !== "APPROVED") {
+    return res.status(400).send("Only tweets with an APPROVED human decision can be published.");
+  }
+
+  const qtText = (text ?? effectiveQt(tweet) ?? "").trim();
+  const textError = validatePublishText(qtText);
+  if (textError) {
+    return res.status(400).send(textError);
+  }
+  if (scheduledAt && !isValidDate(scheduledAt)) {
+    return res.status(400).send("Invalid scheduledAt. Use an ISO timestamp.");
+  }
+
+  const active = store.getActivePublication(tweet.id);
+  if (active) {
+    return res.status(409).send(`Tweet already has a ${active.status} publication.`);
+  }
+
+  // Past or missing send times post right away
+  const sendAt = scheduledAt && Date.parse(scheduledAt) > Date.now()
+    ? new Date(scheduledAt).toISOString()
+    : null;
+
+  try {
+    const publication = store.createPublication({ tweetId: tweet.id, text: qtText, scheduledAt: sendAt });
+    store.recordAudit({
+      actor: auditActor(res),
+      action: "tweet.publish",
+      tweetId: tweet.id,
+      target: `publication:${publication.id}`,
+      newValue: { text: qtText, scheduledAt: sendAt },
+    });
+    if (sendAt) {
+      return res.status(201).json({ success: true, publication });
+    }
+
+    const result = await sendPublication(store, getPublisher(), publication);
+    if (result.status === "failed") {
+      return res.status(502).send(`Failed to post: ${result.lastError}`);
+    }
+    res.json({ success: true, publication: result });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      return res.status(409).send("Tweet already has an active publication.");
+    }
+    console.error("Error publishing tweet:", error);
+    res.status(500).send("Failed to publish tweet.");
+  }
+});
+
+// Scheduled, posted, failed and cancelled publications (status= narrows the list)
+app.get("/api/admin/publications", requireRole("viewer"), (req, res) => {
+  const statusParam = typeof req.query.status === "string" ? req.query.status : undefined;
+  const status = normalizePublicationStatus(statusParam);
+  if (statusParam && !status) {
+    return res.status(400).send("Invalid status. Use scheduled, sending, posted, failed, or cancelled.");
+  }
+
+  res.json({
+    data: store.listPublications(status ?? undefined),
+    mode: resolvePublishMode(),
+  });
+});
+
+// Edit the text or send time of a scheduled (or failed) publication
+app.put("/api/admin/publications/:id", requireRole("publisher"), (req, res) => {
+  const { text, scheduledAt } = (req.body ?? {}) as {
+    text?: string;
+    scheduledAt?: string;
+  };
+
+  const id = parsePositiveInteger(req.params.id);
+  const publication = id ? store.getPublication(id) : null;
+  if (!id || !publication) {
+    return res.status(404).send("Publication not found.");
+  }
+
+  if (text !== undefined) {
+    const textError = validatePublishText(text.trim());
+    if (textError) {
+      return res.status(400).send(textError);
+    }
+  }
+  if (scheduledAt !== undefined && !isValidDate(scheduledAt)) {
+    return res.status(400).send("Invalid scheduledAt. Use an ISO timestamp.");
+  }
+
+  try {
+    const updated = store.updatePublication(id, {
+      text: text?.trim(),
+      scheduledAt: scheduledAt ? new Date(scheduledAt).toISOString() : undefined,
+    });
+    if (!updated) {
+      return res.status(400).send("Only scheduled or failed publications with a send time can be edited.");
+    }
+    store.recordAudit({
+      actor: auditActor(res),
+      action: "publication.update",
+      tweetId: publication.tweetId,
+      target: `publication:${id}`,
+      oldValue: { text: publication.text, scheduledAt: publication.scheduledAt },
+      newValue: { text: text?.trim(), scheduledAt },
+    });
+    res.json({ success: true, publication: store.getPublication(id) });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      return res.status(409).send("Tweet already has an active publication.");
+    }
+    throw error;
+  }
+});
+
+app.post("/api/admin/publications/:id/cancel", requireRole("publisher"), (req, res) => {
+  const id = parsePositiveInteger(req.params.id);
+  const publication = id ? store.getPublication(id) : null;
+  if (!id || !publication) {
+    return res.status(404).send("Publication not found.");
+  }
+  if (!store.cancelPublication(id)) {
+    return res.status(400).send("Only scheduled, sending or failed publications can be cancelled.");
+  }
+  store.recordAudit({
+    actor: auditActor(res),
+    action: "publication.cancel",
+    tweetId: publication.tweetId,
+    target: `publication:${id}`,
+    oldValue: publication.status,
+  });
+
+  res.json({ success: true, publication: store.getPublication(id) });
+});
+
+// Audit log, newest first; filter by tweetId, actor, action (or prefix) and from/to time
+app.get("/api/admin/audit", requireRole("viewer"), (req, res) => {
+  const query = req.query as Record<string, string | undefined>;
+  for (const param of ["from", "to"] as const) {
+    if (query[param] && !isValidDate(query[param]!)) {
+      return res.status(400).send(`Invalid ${param}. Use an ISO timestamp or date.`);
+    }
+  }
+  const filters: AuditFilters = {
+    tweetId: query.tweetId?.trim() || undefined,
+    actor: query.actor?.trim() || undefined,
+    action: query.action?.trim() || undefined,
+    from: query.from ? new Date(query.from).toISOString() : undefined,
+    to: query.to ? new Date(query.to).toISOString() : undefined,
+  };
+  const { entries, total, page, pageSize } = store.listAuditLog(filters, {
+    page: parsePositiveInteger(query.page) ?? undefined,
+    pageSize: parsePositiveInteger(query.pageSize) ?? undefined,
+  });
+
+  const totalPages = total === 0 ? 0 : Math.ceil(total / pageSize);
+  res.json({
+    data: entries,
+    pagination: { page, pageSize, total, totalPages, hasNextPage: page < totalPages, hasPreviousPage: page > 1 },
+  });
+});
+
+app.get("/api/admin/users", requireRole("admin"), (_req, res) => {
+  res.json({ data: store.listUsers() });
+});
+
+// Without a password one is generated and returned once
+app.post("/api/admin/users", requireRole("admin"), async (req, res) => {
+  const { username, role, password } = (req.body ?? {}) as { username?: string; role?: string; password?: string };
+  if (typeof username !== "string" || !/^[\w.-]{2,40}$/.test(username.trim())) {
+    return res.status(400).send("Invalid username. Use 2-40 letters, digits, '.', '_' or '-'.");
+  }
+  const parsedRole = parseRole(role);
+  if (!parsedRole) {
+    return res.status(400).send("Invalid role. Use viewer, moderator, publisher, or admin.");
+  }
+  const generated = password === undefined ? generatePassword() : null;
+  const passwordError = validatePassword(generated ?? password);
+  if (passwordError) {
+    return res.status(400).send(passwordError);
+  }
+
+  const user = store.createUser(username.trim(), await hashPassword((generated ?? password)!), parsedRole);
+  if (!user) {
+    return res.status(409).send("A user with that username already exists.");
+  }
+  store.recordAudit({
+    actor: auditActor(res),
+    action: "user.create",
+    target: `user:${user.id}`,
+    newValue: { username: user.username, role: user.role },
+  });
+  res.json({ success: true, user, generatedPassword: generated });
+});
+
+// Disabling a user or setting a new password also signs them out everywhere
+app.put("/api/admin/users/:id", requireRole("admin"), async (req, res) => {
+  const id = parsePositiveInteger(req.params.id);
+  const existing = id ? store.getUser(id) : null;
+  if (!id || !existing) {
+    return res.status(404).send("User not found.");
+  }
+  const { role, disabled, password } = (req.body ?? {}) as { role?: string; disabled?: boolean; password?: string };
+
+  const parsedRole = role === undefined ? undefined : parseRole(role);
+  if (parsedRole === null) {
+    return res.status(400).send("Invalid role. Use viewer, moderator, publisher, or admin.");
+  }
+  if (disabled !== undefined && typeof disabled !== "boolean") {
+    return res.status(400).send("disabled must be a boolean.");
+  }
+  if (password !== undefined) {
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return res.status(400).send(passwordError);
+    }
+  }
+  if (id === currentUser(res)!.id && ((parsedRole && parsedRole !== "admin") || disabled)) {
+    return res.status(400).send("You cannot remove your own admin access.");
+  }
+
+  const user = store.updateUser(id, {
+    role: parsedRole,
+    disabled,
+    passwordHash: password === undefined ? undefined : await hashPassword(password),
+  });
+  // Password changes are logged without the password
+  store.recordAudit({
+    actor: auditActor(res),
+    action: "user.update",
+    target: `user:${id}`,
+    oldValue: { role: existing.role, disabled: existing.disabled },
+    newValue: { role: user!.role, disabled: user!.disabled, passwordChanged: password !== undefined },
+  });
+  res.json({ success: true, user });
+});
+
+// Apply one action to the given ids, or to every tweet matching `filters` (same params as
+// /api/admin/tweets). All-or-nothing; `dryRun` only reports which tweets would be targeted.
+app.post("/api/admin/tweets/bulk", requireRole("moderator"), (req, res) => {
+  const { action, ids, filters, decision, goldExampleType, correction, dryRun } = (req.body ?? {}) as {
+    action?: string;
+    ids?: unknown;
+    filters?: Record<string, unknown>;
+    decision?: string | null;
+    goldExampleType?: string | null;
+    correction?: string;
+    dryRun?: boolean;
+  };
+
+  let bulkAction: BulkAction;
+  if (action === "human-decision") {
+    const normalized = normalizeDecision(decision ?? undefined);
+    if (decision !== null && !normalized) {
+      return res.status(400).send("Invalid decision. Use APPROVED, REJECTED, or null to clear.");
+    }
+    bulkAction = { type: action, decision: normalized };
+  } else if (action === "gold-example") {
+    const normalized = normalizeGoldExampleType(goldExampleType ?? undefined);
+    if (goldExampleType !== null && !normalized) {
+      return res.status(400).send("Invalid goldExampleType. Use GOOD, BAD, or null to clear.");
+    }
+    if (normalized === "BAD" && !correction?.trim()) {
+      return res.status(400).send("BAD examples require a correction (rejection reason).");
+    }
+    bulkAction = { type: action, goldExampleType: normalized, correction: normalized === "BAD" ? correction!.trim() : null };
+  } else if (action === "queue" || action === "delete") {
+    bulkAction = { type: action };
+  } else {
+    return res.status(400).send("Invalid action. Use human-decision, gold-example, queue, or delete.");
+  }
+  if (action === "delete" && !hasRole(currentUser(res)!, "admin")) {
+    return res.status(403).send("Forbidden: Requires the admin role.");
+  }
+
+  let targetIds: string[];
+  if (ids !== undefined) {
+    if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== "string")) {
+      return res.status(400).send("ids must be a non-empty array of tweet ids.");
+    }
+    targetIds = ids as string[];
+  } else if (filters && typeof filters === "object") {
+    const query = Object.fromEntries(Object.entries(filters).map(([key, value]) => [key, String(value)]));
+    targetIds = store.listTweetIds(parseFilters(query, currentUser(res)!.id).filters, MAX_BULK_ITEMS + 1);
+  } else {
+    return res.status(400).send("Provide ids or filters.");
+  }
+  if (targetIds.length > MAX_BULK_ITEMS) {
+    return res.status(400).send(`Too many tweets (limit ${MAX_BULK_ITEMS}). Narrow the filters.`);
+  }
+
+  if (dryRun) {
+    return res.json({ success: true, dryRun: true, action, matched: targetIds.length, ids: targetIds });
+  }
+  res.json({ success: true, ...store.applyBulkAction(targetIds, bulkAction, currentUser(res)!) });
+});
+
+// Send scheduled posts that are due. Claiming is atomic, so a second server can't double-post.
+let publishing = false;
+setInterval(async () => {
+  if (publishing) return;
+  publishing = true;
+  try {
+    for (const publication of await publishDuePublications(store, getPublisher(), PUBLISH_STALE_MINUTES)) {
+      console.log(`Publication ${publication.id} for tweet ${publication.tweetId}: ${publication.status}`);
+    }
+  } catch (error) {
+    console.error("Error publishing scheduled posts:", error);
+  } finally {
+    publishing = false;
+  }
+}, PUBLISH_POLL_SECONDS * 1000);
+
 app.listen(PORT, () => {
   console.log(`Tweet moderation dashboard running on http://localhost:${PORT}`);
+  if (store.countUsers() === 0) {
+    console.log("No dashboard users yet. Create the first admin with: npm run users -- create <username> --role admin");
+  }
 });
 
 process.on("SIGINT", () => {
@@ -329,13 +1395,32 @@ type FilterParseResult = {
   sort: SortOptions;
 };
 
-function parseFilters(query: any): FilterParseResult {
+// `userId` enables needsMyVote=true (undecided tweets that user hasn't voted on)
+function parseFilters(query: any, userId: number | null = null): FilterParseResult {
   const approvedParam =
     typeof query.approved === "string" ? query.approved : "all";
   const humanParam =
     typeof query.humanDecision === "string" ? query.humanDecision : "all";
   const goldParam =
     typeof query.goldExample === "string" ? query.goldExample : "all";
+  const ruleParam =
+    typeof query.rejectionRule === "string" ? query.rejectionRule : undefined;
+  const sourceParam =
+    typeof query.sourceId === "string" ? query.sourceId : undefined;
+  const authorParam =
+    typeof query.author === "string" ? query.author.trim() : "";
+  const postedFromParam =
+    typeof query.postedFrom === "string" ? query.postedFrom : undefined;
+  const postedToParam =
+    typeof query.postedTo === "string" ? query.postedTo : undefined;
+  const langParam = typeof query.lang === "string" ? query.lang.trim() : "";
+  const minCalibratedParam =
+    typeof query.minCalibratedScore === "string" ? query.minCalibratedScore : undefined;
+  const maxCalibratedParam =
+    typeof query.maxCalibratedScore === "string" ? query.maxCalibratedScore : undefined;
+  const minScoreParam = typeof query.minScore === "string" ? query.minScore : undefined;
+  const maxScoreParam = typeof query.maxScore === "string" ? query.maxScore : undefined;
+  const searchParam = typeof query.q === "string" ? query.q : "";
   const pageParam = typeof query.page === "string" ? query.page : undefined;
   const pageSizeParam =
     typeof query.pageSize === "string" ? query.pageSize : undefined;
@@ -368,6 +1453,61 @@ function parseFilters(query: any): FilterParseResult {
     filters.hasGoldExample = false;
   }
 
+  const rejectionRule = parseRejectionRuleId(ruleParam);
+  if (rejectionRule) {
+    filters.rejectionRule = rejectionRule;
+  }
+
+  const sourceId = parsePositiveInteger(sourceParam);
+  if (sourceId) {
+    filters.sourceId = sourceId;
+  }
+
+  if (authorParam) {
+    filters.authorUsername = authorParam;
+  }
+  // Invalid dates are ignored like other unrecognized filter values
+  if (postedFromParam && isValidDate(postedFromParam)) {
+    filters.postedFrom = postedFromParam;
+  }
+  if (postedToParam && isValidDate(postedToParam)) {
+    filters.postedTo = postedToParam;
+  }
+  for (const key of ["createdFrom", "createdTo", "updatedFrom", "updatedTo"] as const) {
+    if (typeof query[key] === "string" && isValidDate(query[key])) {
+      filters[key] = query[key];
+    }
+  }
+  if (langParam) {
+    filters.lang = langParam;
+  }
+  const minCalibratedScore = parsePercentile(minCalibratedParam);
+  if (minCalibratedScore !== null) {
+    filters.minCalibratedScore = minCalibratedScore;
+  }
+  const maxCalibratedScore = parsePercentile(maxCalibratedParam);
+  if (maxCalibratedScore !== null) {
+    filters.maxCalibratedScore = maxCalibratedScore;
+  }
+  const minScore = parsePercentile(minScoreParam);
+  if (minScore !== null) {
+    filters.minScore = minScore;
+  }
+  const maxScore = parsePercentile(maxScoreParam);
+  if (maxScore !== null) {
+    filters.maxScore = maxScore;
+  }
+  if (query.disagree === "true") {
+    filters.disagreement = true;
+  }
+  if (query.needsMyVote === "true" && userId !== null) {
+    filters.needsVoteFrom = userId;
+  }
+  const search = toFtsQuery(searchParam);
+  if (search) {
+    filters.search = search;
+  }
+
   const pagination: PaginationOptions = {};
   const parsedPage = parsePositiveInteger(pageParam);
   const parsedPageSize = parsePositiveInteger(pageSizeParam);
@@ -376,7 +1516,13 @@ function parseFilters(query: any): FilterParseResult {
   if (parsedPageSize) pagination.pageSize = parsedPageSize;
 
   const sort: SortOptions = {};
-  if (orderByParam === "score" || orderByParam === "createdAt" || orderByParam === "updatedAt") {
+  if (
+    orderByParam === "score" ||
+    orderByParam === "calibratedScore" ||
+    orderByParam === "createdAt" ||
+    orderByParam === "updatedAt" ||
+    orderByParam === "postedAt"
+  ) {
     sort.orderBy = orderByParam as SortField;
   }
   if (orderDirParam === "asc" || orderDirParam === "desc") {
@@ -386,6 +1532,93 @@ function parseFilters(query: any): FilterParseResult {
   return { filters, pagination, sort };
 }
 
+type TweetPage = {
+  tweets: TweetRecord[];
+  pagination: Record<string, unknown>;
+};
+
+// Offset pages by default. A `cursor` param (empty for the first page) switches to keyset
+// pages, which only count the matches with withTotal=true; returns an error message otherwise.
+function listTweetPage(query: any, { filters, pagination, sort }: FilterParseResult): TweetPage | string {
+  if (typeof query.cursor !== "string") {
+    const { tweets, total, page, pageSize } = store.list(filters, pagination, sort);
+    const totalPages = total === 0 ? 0 : Math.ceil(total / pageSize);
+    return {
+      tweets,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  let cursor: TweetCursor | null = null;
+  if (query.cursor) {
+    cursor = decodeCursor(query.cursor, sort.orderBy ?? "updatedAt", sort.orderDir ?? "desc");
+    if (!cursor) {
+      return "Invalid cursor. A cursor only works with the orderBy and orderDir it came from.";
+    }
+  }
+  const { tweets, pageSize, offset, total, nextCursor, prevCursor } = store.listByCursor(
+    filters,
+    { cursor, pageSize: pagination.pageSize, withTotal: query.withTotal === "true" },
+    sort
+  );
+  return {
+    tweets,
+    pagination: {
+      pageSize,
+      offset,
+      total,
+      nextCursor,
+      prevCursor,
+      hasNextPage: nextCursor !== null,
+      hasPreviousPage: prevCursor !== null,
+    },
+  };
+}
+
+// Highlighted HTML fragments for a search's results, keyed by tweet id
+function searchSnippets(tweets: TweetRecord[], filters: TweetFilters): Map<string, string> {
+  if (!filters.search || tweets.length === 0) {
+    return new Map();
+  }
+  const raw = store.getSearchSnippets(tweets.map((t) => t.id), filters.search, filters.publicSearch);
+  return new Map([...raw].map(([id, snippet]) => [id, highlightSnippet(snippet)]));
+}
+
+// The fields of a tweet the public page may see. Curation notes, model input and internal
+// ids stay on the admin endpoints; quotes and rejection details only go to signed-in users
+// unless the tweet was approved.
+function toPublicTweet(t: TweetRecord, authorized: boolean) {
+  const visible = authorized || t.approved;
+  return {
+    id: t.id,
+    text: t.text,
+    url: t.url,
+    authorUsername: t.authorUsername,
+    authorName: t.authorName,
+    postedAt: t.postedAt,
+    approved: t.approved,
+    score: t.score,
+    calibratedScore: t.calibratedScore,
+    quote: visible ? t.quote : "",
+    qt: visible ? t.qt : null,
+    rejectionReason: visible ? t.rejectionReason : null,
+    rejectionRule: visible ? t.rejectionRule : null,
+    humanDecision: t.humanDecision,
+    goldExampleType: t.goldExampleType,
+    goldExampleCorrection: t.goldExampleCorrection,
+    publishedUrl: t.publishedUrl,
+    createdAt: t.createdAt,
+    updatedAt: t.updatedAt,
+  };
+}
+
 function normalizeDecision(value?: string): HumanDecision | null {
   if (value === "APPROVED" || value === "REJECTED") {
     return value;
@@ -400,6 +1633,90 @@ function normalizeGoldExampleType(value?: string): GoldExampleType | null {
   return null;
 }
 
+function normalizeQueueStatus(value?: string): QueueStatus | null {
+  if (value === "pending" || value === "dead") {
+    return value;
+  }
+  return null;
+}
+
+function normalizePublicationStatus(value?: string): PublicationStatus | null {
+  if (
+    value === "scheduled" ||
+    value === "sending" ||
+    value === "posted" ||
+    value === "failed" ||
+    value === "cancelled"
+  ) {
+    return value;
+  }
+  return null;
+}
+
+function normalizeShadowComparisonKind(value?: string): ShadowComparisonKind | null {
+  if (value === "disagreements" || value === "errors" || value === "all") {
+    return value;
+  }
+  return null;
+}
+
+function normalizeStatsBucket(value?: string): StatsBucket | null {
+  if (value === "day" || value === "week" || value === "month") {
+    return value;
+  }
+  return null;
+}
+
+// bucket, from and to for the /api/admin/stats endpoints; returns an error message when invalid
+function parseStatsOptions(query: any): StatsOptions | string {
+  const bucketParam = typeof query.bucket === "string" ? query.bucket : undefined;
+  const bucket = normalizeStatsBucket(bucketParam);
+  if (bucketParam && !bucket) {
+    return "Invalid bucket. Use day, week, or month.";
+  }
+
+  const from = typeof query.from === "string" ? query.from : undefined;
+  const to = typeof query.to === "string" ? query.to : undefined;
+  if ((from && !isValidDate(from)) || (to && !isValidDate(to))) {
+    return "Invalid date. Use YYYY-MM-DD or an ISO timestamp.";
+  }
+  return { bucket: bucket ?? undefined, from, to };
+}
+
+// Copy only the editable source fields from a request body, coercing form-style values
+function pickSourceFields(body: Record<string, unknown>): TweetSourceUpdate {
+  const update: TweetSourceUpdate = {};
+  if (body.name !== undefined) update.name = String(body.name);
+  // Unknown types are left for validateSourceInput to reject
+  if (body.type !== undefined) update.type = String(body.type) as SourceType;
+  if (body.value !== undefined) update.value = String(body.value);
+  if (body.enabled !== undefined) {
+    update.enabled =
+      body.enabled === "true" ? true : body.enabled === "false" ? false : (body.enabled as boolean);
+  }
+  if (body.intervalMinutes !== undefined) {
+    update.intervalMinutes =
+      body.intervalMinutes === null || body.intervalMinutes === ""
+        ? null
+        : Number(body.intervalMinutes);
+  }
+  return update;
+}
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Error && /UNIQUE constraint failed/i.test(error.message);
+}
+
+function isValidDate(value: string): boolean {
+  return !Number.isNaN(Date.parse(value));
+}
+
+function parsePercentile(value?: string): number | null {
+  if (!value || !/^\d+$/.test(value.trim())) return null;
+  const parsed = Number.parseInt(value, 10);
+  return parsed <= 100 ? parsed : null;
+}
+
 function parsePositiveInteger(value?: string): number | null {
   if (!value) return null;
   const parsed = Number.parseInt(value, 10);
@@ -0,0 +1,156 @@
+import {
+  askTweetDecision,
+  MalformedResponseError,
+  type FewShotExample,
+  type LlmProvider,
+  type OutputMode,
+  type PromptOverride,
+} from "./gptClient.js";
+import { parseOutputMode } from "./decisionParser.js";
+import {
+  createLlmProvider,
+  parseProviderName,
+  parseReasoningEffort,
+  resolveLlmConfig,
+  type LlmProviderName,
+  type ReasoningEffort,
+} from "./llmProvider.js";
+import { describeError } from "./processingQueue.js";
+import type { createTweetStore, Evaluation } from "./tweetStore.js";
+
+// Shadow mode: every tweet the CLI or /process evaluates is also sent to a candidate
+// configuration. Shadow calls are stored as evaluations linked to the production call,
+// never start or advance the conversation chain, and never change the tweet's decision.
+
+export type ShadowConfig = {
+  enabled: boolean;
+  // Each null field uses the env-configured default (LLM_PROVIDER, LLM_MODEL, ...);
+  // a null promptVersionId uses the same prompt as production
+  provider: LlmProviderName | null;
+  model: string | null;
+  reasoningEffort: ReasoningEffort | null;
+  promptVersionId: number | null;
+  outputMode: OutputMode | null;
+};
+
+export type ShadowRun = {
+  provider: LlmProvider;
+  prompt: PromptOverride | null;
+  outputMode: OutputMode | undefined;
+};
+
+type TweetStore = ReturnType<typeof createTweetStore>;
+
+const SHADOW_CONFIG_KEY = "shadowConfig";
+
+export const DISABLED_SHADOW_CONFIG: ShadowConfig = {
+  enabled: false,
+  provider: null,
+  model: null,
+  reasoningEffort: null,
+  promptVersionId: null,
+  outputMode: null,
+};
+
+export function getShadowConfig(store: TweetStore): ShadowConfig {
+  const raw = store.getConfig(SHADOW_CONFIG_KEY);
+  return raw ? { ...DISABLED_SHADOW_CONFIG, ...(JSON.parse(raw) as Partial<ShadowConfig>) } : DISABLED_SHADOW_CONFIG;
+}
+
+export function setShadowConfig(store: TweetStore, config: ShadowConfig): void {
+  store.setConfig(SHADOW_CONFIG_KEY, JSON.stringify(config));
+}
+
+// Validate an admin-submitted config; returns an error message or the config
+export function parseShadowConfig(input: Record<string, unknown>, store: TweetStore): ShadowConfig | string {
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+
+  const providerText = text(input.provider);
+  const provider = providerText ? parseProviderName(providerText) : null;
+  if (providerText && !provider) {
+    return `Invalid provider: ${providerText}. Use: openai, openai-compatible, or mock`;
+  }
+  const effortText = text(input.reasoningEffort);
+  const reasoningEffort = effortText ? parseReasoningEffort(effortText) : null;
+  if (effortText && !reasoningEffort) {
+    return `Invalid reasoning effort: ${effortText}. Use: none, minimal, low, medium, or high`;
+  }
+  const modeText = text(input.outputMode);
+  const outputMode = modeText ? parseOutputMode(modeText) : null;
+  if (modeText && !outputMode) {
+    return `Invalid output mode: ${modeText}. Use: structured or text`;
+  }
+  const promptVersionId = input.promptVersionId === null || input.promptVersionId === undefined || input.promptVersionId === ""
+    ? null
+    : Number(input.promptVersionId);
+  if (promptVersionId !== null && !store.getPromptVersion(promptVersionId)) {
+    return `Prompt version ${input.promptVersionId} not found`;
+  }
+
+  return {
+    enabled: input.enabled === true,
+    provider,
+    model: text(input.model),
+    reasoningEffort,
+    promptVersionId,
+    outputMode,
+  };
+}
+
+// The candidate to run, or null when shadow mode is off. Call once per batch.
+export function resolveShadowRun(
+  store: TweetStore,
+  productionPrompt: PromptOverride | null,
+  config: ShadowConfig = getShadowConfig(store)
+): ShadowRun | null {
+  if (!config.enabled) {
+    return null;
+  }
+  const provider = createLlmProvider(
+    resolveLlmConfig({
+      ...(config.provider ? { provider: config.provider } : {}),
+      ...(config.model ? { model: config.model } : {}),
+      ...(config.reasoningEffort ? { reasoningEffort: config.reasoningEffort } : {}),
+    })
+  );
+  const prompt = config.promptVersionId !== null
+    ? store.getPromptVersion(config.promptVersionId)
+    : productionPrompt;
+  return { provider, prompt, outputMode: config.outputMode ?? undefined };
+}
+
+export function describeShadowRun(run: ShadowRun): string {
+  return `${run.provider.name}/${run.provider.model}${run.prompt ? ` with prompt v${run.prompt.id}` : " with the built-in prompt"}`;
+}
+
+// Evaluate the same input with the candidate and record it against the production
+// evaluation. Never throws: a failing candidate must not affect production processing.
+export async function runShadowEvaluation(
+  store: TweetStore,
+  run: ShadowRun,
+  input: { tweetId: string; modelInput: string; examples: FewShotExample[]; productionEvaluationId: number }
+): Promise<Evaluation | null> {
+  try {
+    const decision = await askTweetDecision(input.modelInput, {
+      prompt: run.prompt ?? undefined,
+      examples: input.examples,
+      previousResponseId: null,
+      provider: run.provider,
+      outputMode: run.outputMode,
+    });
+    const id = store.recordEvaluation({ tweetId: input.tweetId, ...decision, shadowOf: input.productionEvaluationId });
+    return store.getEvaluation(id);
+  } catch (error) {
+    if (error instanceof MalformedResponseError && error.call) {
+      const id = store.recordEvaluation({
+        tweetId: input.tweetId,
+        ...error.call,
+        error: error.message,
+        shadowOf: input.productionEvaluationId,
+      });
+      return store.getEvaluation(id);
+    }
+    console.warn(`Warning: shadow evaluation failed for tweet ${input.tweetId}: ${describeError(error)}`);
+    return null;
+  }
+}
@@ -0,0 +1,55 @@
+// Minimal LCS diff used for QT revisions (by word) and prompt versions (by line)
+
+export type DiffPart = {
+  type: "same" | "added" | "removed";
+  text: string;
+};
+
+// Words and the whitespace between them
+export function diffWords(before: string, after: string): DiffPart[] {
+  return diffTokens(before.match(/\s+|\S+/g) ?? [], after.match(/\s+|\S+/g) ?? []);
+}
+
+// Whole lines, each keeping its trailing newline
+export function diffLines(before: string, after: string): DiffPart[] {
+  return diffTokens(before.match(/[^\n]*\n|[^\n]+$/g) ?? [], after.match(/[^\n]*\n|[^\n]+$/g) ?? []);
+}
+
+function diffTokens(a: string[], b: string[]): DiffPart[] {
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+  return parts;
+}
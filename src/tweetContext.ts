@@ -0,0 +1,248 @@
+import { readPositiveIntEnv } from "./env.js";
+import { createXClient, type XClient } from "./xClient.js";
+import type { FetchedTweet, ReferencedTweet } from "./tweetMetadata.js";
+import type { TweetRecord } from "./tweetStore.js";
+
+// What the model sees besides the tweet text: author details, the quoted tweet, and the
+// reply chain / thread it belongs to. Thread and quote context is fetched from the X API
+// once, stored with the tweet, and reused so re-evaluations see exactly the same input.
+
+export type InputContext = "author" | "quoted" | "thread";
+
+export const INPUT_CONTEXTS: InputContext[] = ["author", "quoted", "thread"];
+
+export type ContextTweet = {
+  id: string;
+  authorUsername: string | null;
+  text: string;
+  postedAt: string | null;
+};
+
+export type TweetContext = {
+  thread: ContextTweet[];  // Earlier thread parts, oldest first (root first when known)
+  parent: ContextTweet | null;  // Tweet this one replies to
+  quoted: ContextTweet | null;
+  missing: string[];  // Referenced ids that couldn't be fetched (deleted, protected, ...)
+  fetchedAt: string;
+};
+
+type ExpandableTweet = {
+  id: string;
+  conversationId: string | null;
+  referencedTweets: ReferencedTweet[];
+};
+
+type ModelInputTweet = {
+  text: string;
+  authorUsername: string | null;
+  authorName: string | null;
+  authorFollowers: number | null;
+  referencedTweets: ReferencedTweet[];
+  context: TweetContext | null;
+};
+
+const DEFAULT_MAX_THREAD_DEPTH = 5;
+
+// Parse a comma-separated list like "author,quoted"; null if any entry is unknown
+export function parseInputContext(value?: string | null): InputContext[] | null {
+  if (!value || value === "none") {
+    return [];
+  }
+  const entries = value.split(",").map((entry) => entry.trim()).filter(Boolean);
+  const parsed = entries.filter((entry): entry is InputContext =>
+    INPUT_CONTEXTS.includes(entry as InputContext)
+  );
+  return parsed.length === entries.length ? Array.from(new Set(parsed)) : null;
+}
+
+export function resolveInputContext(override?: InputContext[]): InputContext[] {
+  if (override) {
+    return override;
+  }
+  const envContext = process.env.LLM_INPUT_CONTEXT;
+  const parsed = parseInputContext(envContext);
+  if (!parsed) {
+    throw new Error(`Invalid LLM_INPUT_CONTEXT: ${envContext}. Use a comma-separated list of: ${INPUT_CONTEXTS.join(", ")}`);
+  }
+  return parsed;
+}
+
+// True when the requested context needs tweets we haven't fetched yet
+export function needsContextExpansion(
+  tweet: ExpandableTweet & { context: TweetContext | null },
+  context: InputContext[]
+): boolean {
+  if (tweet.context) {
+    return false;
+  }
+  const isReply = tweet.referencedTweets.some((ref) => ref.type === "replied_to");
+  const quoteWithoutText = tweet.referencedTweets.some((ref) => ref.type === "quoted" && !ref.text);
+  return (context.includes("thread") && isReply) || (context.includes("quoted") && quoteWithoutText);
+}
+
+// Walk the reply chain up to CONTEXT_MAX_THREAD_DEPTH tweets, then fetch the conversation
+// root if the walk stopped short of it. The quoted tweet is fetched unless the source sent its text.
+export async function expandTweetContext(
+  tweet: ExpandableTweet,
+  client: Pick<XClient, "getTweetsByIds">
+): Promise<TweetContext> {
+  const maxDepth = getMaxThreadDepth();
+  const missing: string[] = [];
+
+  const fetchOne = async (id: string): Promise<FetchedTweet | null> => {
+    const [found] = await client.getTweetsByIds([id]);
+    if (!found) {
+      missing.push(id);
+    }
+    return found ?? null;
+  };
+
+  const chain: FetchedTweet[] = [];
+  let nextId = repliedToId(tweet.referencedTweets);
+  while (nextId && chain.length < maxDepth) {
+    const found = await fetchOne(nextId);
+    if (!found) {
+      break;
+    }
+    chain.push(found);
+    nextId = repliedToId(found.referencedTweets);
+  }
+
+  const rootId = tweet.conversationId;
+  const reachedRoot = chain.some((t) => t.id === rootId);
+  if (rootId && rootId !== tweet.id && chain.length > 0 && !reachedRoot) {
+    const root = await fetchOne(rootId);
+    if (root) {
+      chain.push(root);
+    }
+  }
+
+  const quotedRef = tweet.referencedTweets.find((ref) => ref.type === "quoted");
+  let quoted: ContextTweet | null = null;
+  if (quotedRef?.text) {
+    quoted = {
+      id: quotedRef.id,
+      authorUsername: quotedRef.authorUsername ?? null,
+      text: quotedRef.text,
+      postedAt: null,
+    };
+  } else if (quotedRef) {
+    const found = await fetchOne(quotedRef.id);
+    quoted = found ? toContextTweet(found) : null;
+  }
+
+  const [parent, ...earlier] = chain.map(toContextTweet);
+  return {
+    thread: earlier.reverse(),
+    parent: parent ?? null,
+    quoted,
+    missing,
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+// Fetch any missing context (best effort: on failure the tweet is judged without it),
+// store it via `saveContext`, and return the input to send to the model
+export async function prepareModelInput(
+  tweet: TweetRecord,
+  context: InputContext[],
+  saveContext: (id: string, context: TweetContext) => void
+): Promise<string> {
+  let withContext = tweet;
+  if (needsContextExpansion(tweet, context)) {
+    const client = getContextClient();
+    if (client) {
+      try {
+        const expanded = await expandTweetContext(tweet, client);
+        saveContext(tweet.id, expanded);
+        withContext = { ...tweet, context: expanded };
+      } catch (error) {
+        console.warn(`Warning: failed to fetch context for tweet ${tweet.id}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+  return formatModelInput(withContext, context);
+}
+
+// Without context this is just the tweet text. Otherwise context goes in labelled
+// blocks ahead of the tweet so it can't be mistaken for the tweet being judged.
+export function formatModelInput(tweet: ModelInputTweet, context: InputContext[]): string {
+  const blocks: string[] = [];
+
+  if (context.includes("author") && tweet.authorUsername) {
+    const details = [
+      tweet.authorName,
+      tweet.authorFollowers !== null ? `${tweet.authorFollowers} followers` : null,
+    ].filter(Boolean);
+    blocks.push(`[author]\n@${tweet.authorUsername}${details.length ? ` (${details.join(", ")})` : ""}`);
+  }
+
+  if (context.includes("thread") && tweet.context) {
+    for (const part of tweet.context.thread) {
+      blocks.push(`[earlier in thread${byline(part)}]\n${part.text}`);
+    }
+    if (tweet.context.parent) {
+      const parent = tweet.context.parent;
+      blocks.push(`[replying to${parent.authorUsername ? ` @${parent.authorUsername}` : " tweet"}]\n${parent.text}`);
+    }
+  }
+
+  if (context.includes("quoted")) {
+    const quoted = tweet.context?.quoted ?? quotedFromReferences(tweet.referencedTweets);
+    if (quoted) {
+      blocks.push(`[quoted tweet${byline(quoted)}]\n${quoted.text}`);
+    }
+  }
+
+  if (blocks.length === 0) {
+    return tweet.text;
+  }
+  return [
+    "context for the tweet below. judge only the [tweet] section.",
+    ...blocks,
+    `[tweet]\n${tweet.text}`,
+  ].join("\n\n");
+}
+
+// Created on first use; null (with a warning once) when X credentials aren't configured
+let contextClient: XClient | null | undefined;
+
+export function getContextClient(): XClient | null {
+  if (contextClient === undefined) {
+    try {
+      contextClient = createXClient();
+    } catch (error) {
+      console.warn(`Warning: thread/quote context expansion disabled: ${error instanceof Error ? error.message : error}`);
+      contextClient = null;
+    }
+  }
+  return contextClient;
+}
+
+function repliedToId(refs: ReferencedTweet[]): string | null {
+  return refs.find((ref) => ref.type === "replied_to")?.id ?? null;
+}
+
+function quotedFromReferences(refs: ReferencedTweet[]): ContextTweet | null {
+  const ref = refs.find((r) => r.type === "quoted" && r.text);
+  return ref
+    ? { id: ref.id, authorUsername: ref.authorUsername ?? null, text: ref.text!, postedAt: null }
+    : null;
+}
+
+function toContextTweet(tweet: FetchedTweet): ContextTweet {
+  return {
+    id: tweet.id,
+    authorUsername: tweet.author.username === "unknown" ? null : tweet.author.username,
+    text: tweet.text,
+    postedAt: tweet.postedAt,
+  };
+}
+
+function byline(tweet: ContextTweet): string {
+  return tweet.authorUsername ? ` by @${tweet.authorUsername}` : "";
+}
+
+function getMaxThreadDepth(): number {
+  return readPositiveIntEnv("CONTEXT_MAX_THREAD_DEPTH", DEFAULT_MAX_THREAD_DEPTH);
+}
@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { decodeCursor, encodeCursor, type TweetCursor } from "./tweetCursor.js";
+
+const cursor: TweetCursor = { orderBy: "calibratedScore", orderDir: "desc", key: 42, id: "1001", offset: 20, before: false };
+
+test("cursors round-trip", () => {
+  assert.deepEqual(decodeCursor(encodeCursor(cursor), "calibratedScore", "desc"), cursor);
+  const nullKey = { ...cursor, key: null, before: true };
+  assert.deepEqual(decodeCursor(encodeCursor(nullKey), "calibratedScore", "desc"), nullKey);
+  const dateKey = { ...cursor, orderBy: "updatedAt" as const, key: "2025-01-02 03:04:05" };
+  assert.deepEqual(decodeCursor(encodeCursor(dateKey), "updatedAt", "desc"), dateKey);
+});
+
+test("cursors for another sort order are rejected", () => {
+  const raw = encodeCursor(cursor);
+  assert.equal(decodeCursor(raw, "score", "desc"), null);
+  assert.equal(decodeCursor(raw, "calibratedScore", "asc"), null);
+});
+
+test("malformed cursors are rejected", () => {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  assert.equal(decodeCursor("not a cursor", "calibratedScore", "desc"), null);
+  assert.equal(decodeCursor(encode({ id: "1" }), "calibratedScore", "desc"), null);
+  assert.equal(decodeCursor(encode(["calibratedScore", "desc", 42, "1001", 20]), "calibratedScore", "desc"), null);
+  assert.equal(decodeCursor(encode(["calibratedScore", "desc", 42, 1001, 20, 0]), "calibratedScore", "desc"), null);
+  assert.equal(decodeCursor(encode(["calibratedScore", "desc", {}, "1001", 20, 0]), "calibratedScore", "desc"), null);
+  assert.equal(decodeCursor(encode(["calibratedScore", "desc", 42, "1001", -1, 0]), "calibratedScore", "desc"), null);
+  assert.equal(decodeCursor(encode(["calibratedScore", "desc", 42, "1001", 1.5, 0]), "calibratedScore", "desc"), null);
+  assert.equal(decodeCursor(encode(["calibratedScore", "desc", 42, "1001", 20, true]), "calibratedScore", "desc"), null);
+});
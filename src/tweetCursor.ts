@@ -0,0 +1,44 @@
+import type { SortDirection, SortField } from "./tweetStore.js";
+
+// Opaque keyset cursors for the tweet lists. A cursor holds the sort key and id of the row
+// next to the page it asks for, so pages stay put while new tweets arrive during review.
+
+export type TweetCursor = {
+  orderBy: SortField;
+  orderDir: SortDirection;
+  key: string | number | null;  // The row's sort key; null for rows without a calibrated score
+  id: string;
+  offset: number;  // Rows before the requested page, as far as the client has paged; for display only
+  before: boolean;  // The page ending just before this row, rather than starting after it
+};
+
+export function encodeCursor(cursor: TweetCursor): string {
+  const { orderBy, orderDir, key, id, offset, before } = cursor;
+  return Buffer.from(JSON.stringify([orderBy, orderDir, key, id, offset, before ? 1 : 0])).toString("base64url");
+}
+
+// null when the cursor is malformed or was made for a different sort order
+export function decodeCursor(raw: string, orderBy: SortField, orderDir: SortDirection): TweetCursor | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed) || parsed.length !== 6) {
+    return null;
+  }
+  const [cursorOrderBy, cursorOrderDir, key, id, offset, before] = parsed;
+  if (
+    cursorOrderBy !== orderBy ||
+    cursorOrderDir !== orderDir ||
+    !(typeof key === "string" || typeof key === "number" || key === null) ||
+    typeof id !== "string" ||
+    !Number.isInteger(offset) ||
+    offset < 0 ||
+    (before !== 0 && before !== 1)
+  ) {
+    return null;
+  }
+  return { orderBy, orderDir, key, id, offset, before: before === 1 };
+}
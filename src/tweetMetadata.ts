@@ -0,0 +1,151 @@
+// Tweet metadata captured at ingestion (author, posted time, metrics, media, referenced tweets),
+// shared by the X API client and JSON feed sources.
+
+export type TweetAuthor = {
+  id: string | null;
+  username: string;
+  name: string | null;  // Display name
+  followersCount: number | null;
+};
+
+export type TweetMetrics = {
+  likes: number;
+  retweets: number;
+  replies: number;
+  quotes: number;
+  impressions: number | null;
+  bookmarks: number | null;
+};
+
+export type TweetMedia = {
+  type: string;  // photo, video, animated_gif
+  url: string | null;
+  previewUrl: string | null;
+};
+
+export type ReferencedTweetType = "quoted" | "replied_to" | "retweeted";
+
+export type ReferencedTweet = {
+  type: ReferencedTweetType;
+  id: string;
+  // Filled in when the source includes the referenced tweet itself
+  text?: string;
+  authorUsername?: string;
+};
+
+export type TweetMetadata = {
+  author: TweetAuthor;
+  postedAt: string | null;  // ISO timestamp from the source (tweets.createdAt is ingestion time)
+  lang: string | null;
+  conversationId: string | null;  // Id of the thread's root tweet
+  metrics: TweetMetrics | null;
+  media: TweetMedia[];
+  referencedTweets: ReferencedTweet[];
+};
+
+export type FetchedTweet = TweetMetadata & {
+  id: string;
+  text: string;
+  url: string;
+};
+
+// Normalize a JSON feed entry. Accepts the kaspa.news shape as well as X API v2 style
+// snake_case fields, so feeds that proxy the X API keep their metadata.
+export function normalizeFeedTweet(raw: unknown): FetchedTweet | null {
+  if (!isRecord(raw) || raw.id === undefined || typeof raw.text !== "string") {
+    return null;
+  }
+  const id = String(raw.id);
+  const author: Record<string, unknown> = isRecord(raw.author) ? raw.author : {};
+  const authorMetrics: Record<string, unknown> = isRecord(author.public_metrics) ? author.public_metrics : {};
+  const username =
+    readString(author.username) ?? readString(raw.username) ?? readString(raw.authorUsername) ?? "unknown";
+
+  return {
+    id,
+    text: raw.text,
+    url: readString(raw.url) ?? `https://x.com/${username}/status/${id}`,
+    author: {
+      id: readString(author.id) ?? readString(raw.author_id) ?? readString(raw.authorId),
+      username,
+      name: readString(author.name) ?? readString(author.displayName) ?? readString(raw.authorName),
+      followersCount:
+        readNumber(author.followersCount) ??
+        readNumber(author.followers_count) ??
+        readNumber(authorMetrics.followers_count),
+    },
+    postedAt: normalizeTimestamp(raw.created_at ?? raw.createdAt ?? raw.postedAt),
+    lang: readString(raw.lang),
+    conversationId: readString(raw.conversation_id) ?? readString(raw.conversationId),
+    metrics: normalizeMetrics(raw.public_metrics ?? raw.metrics),
+    media: normalizeMedia(raw.media),
+    referencedTweets: normalizeReferencedTweets(raw.referenced_tweets ?? raw.referencedTweets),
+  };
+}
+
+export function normalizeMetrics(raw: unknown): TweetMetrics | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  return {
+    likes: readNumber(raw.like_count) ?? readNumber(raw.likes) ?? 0,
+    retweets: readNumber(raw.retweet_count) ?? readNumber(raw.retweets) ?? 0,
+    replies: readNumber(raw.reply_count) ?? readNumber(raw.replies) ?? 0,
+    quotes: readNumber(raw.quote_count) ?? readNumber(raw.quotes) ?? 0,
+    impressions: readNumber(raw.impression_count) ?? readNumber(raw.impressions),
+    bookmarks: readNumber(raw.bookmark_count) ?? readNumber(raw.bookmarks),
+  };
+}
+
+function normalizeMedia(raw: unknown): TweetMedia[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.filter(isRecord).map((item) => ({
+    type: readString(item.type) ?? "photo",
+    url: readString(item.url),
+    previewUrl: readString(item.preview_image_url) ?? readString(item.previewUrl),
+  }));
+}
+
+function normalizeReferencedTweets(raw: unknown): ReferencedTweet[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.filter(isRecord).flatMap((item) => {
+    const type = item.type;
+    if ((type !== "quoted" && type !== "replied_to" && type !== "retweeted") || item.id === undefined) {
+      return [];
+    }
+    const ref: ReferencedTweet = { type, id: String(item.id) };
+    const text = readString(item.text);
+    const authorUsername = readString(item.authorUsername) ?? readString(item.username);
+    if (text) ref.text = text;
+    if (authorUsername) ref.authorUsername = authorUsername;
+    return [ref];
+  });
+}
+
+function normalizeTimestamp(value: unknown): string | null {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readString(value: unknown): string | null {
+  if (typeof value === "string" && value.length > 0) {
+    return value;
+  }
+  return typeof value === "number" ? String(value) : null;
+}
+
+function readNumber(value: unknown): number | null {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : null;
+}
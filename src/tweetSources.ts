@@ -0,0 +1,140 @@
+import { DEFAULT_QUERY } from "./xClient.js";
+
+// Saved tweet sources: X search queries, author watchlists and JSON feeds.
+// Rows live in the `sources` table; each ingested tweet keeps the id of the source that found it.
+
+export type SourceType = "x-search" | "x-authors" | "feed";
+
+export type TweetSourceRecord = {
+  id: number;
+  name: string;
+  type: SourceType;
+  // X search query, comma-separated usernames, or feed URL depending on `type`
+  value: string;
+  enabled: boolean;
+  intervalMinutes: number | null;  // Minimum time between fetches; null = every run
+  lastRunAt: string | null;
+  lastFetchedCount: number | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string | null;
+};
+
+export type TweetSourceInput = {
+  name: string;
+  type: SourceType;
+  value: string;
+  enabled?: boolean;
+  intervalMinutes?: number | null;
+};
+
+export type TweetSourceUpdate = Partial<TweetSourceInput>;
+
+export type SourceStats = {
+  sourceId: number;
+  tweets: number;
+  decided: number;
+  approved: number;
+  rejected: number;
+  humanApproved: number;
+};
+
+export const SOURCE_TYPES: SourceType[] = ["x-search", "x-authors", "feed"];
+
+export const DEFAULT_FEED_URL = "https://kaspa.news/api/kaspa-tweets";
+
+// Seeded into an empty database so existing setups keep fetching what they did before
+export const DEFAULT_SOURCES: TweetSourceInput[] = [
+  { name: "kaspa.news", type: "feed", value: DEFAULT_FEED_URL },
+  { name: "X search", type: "x-search", value: process.env.X_SEARCH_QUERY || DEFAULT_QUERY },
+];
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_]{1,15}$/;
+
+export function parseSourceType(value?: string | null): SourceType | null {
+  return SOURCE_TYPES.find((type) => type === value) ?? null;
+}
+
+export function isXSource(type: SourceType): boolean {
+  return type === "x-search" || type === "x-authors";
+}
+
+export function parseAuthors(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((name) => name.replace(/^@/, "").trim())
+    .filter(Boolean);
+}
+
+// X search query for an author watchlist
+export function buildAuthorsQuery(authors: string[]): string {
+  const from = authors.map((name) => `from:${name}`).join(" OR ");
+  return `(${from}) -is:retweet`;
+}
+
+export function sourceSearchQuery(source: TweetSourceRecord): string {
+  return source.type === "x-authors" ? buildAuthorsQuery(parseAuthors(source.value)) : source.value;
+}
+
+// Returns an error message, or null if the input is valid.
+// With `partial` only the fields present are checked (for updates).
+export function validateSourceInput(input: TweetSourceUpdate, partial = false): string | null {
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim()) {
+      return "name is required";
+    }
+  }
+  if (!partial || input.type !== undefined) {
+    if (!parseSourceType(input.type)) {
+      return `type must be one of: ${SOURCE_TYPES.join(", ")}`;
+    }
+  }
+  if (!partial || input.value !== undefined) {
+    if (typeof input.value !== "string" || !input.value.trim()) {
+      return "value is required";
+    }
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    return "enabled must be a boolean";
+  }
+  if (
+    input.intervalMinutes !== undefined &&
+    input.intervalMinutes !== null &&
+    !(Number.isInteger(input.intervalMinutes) && input.intervalMinutes > 0)
+  ) {
+    return "intervalMinutes must be a positive integer or null";
+  }
+  return null;
+}
+
+// Checks that the value makes sense for the type (the type may come from the stored row on updates)
+export function validateSourceValue(type: SourceType, value: string): string | null {
+  if (type === "feed") {
+    try {
+      const url = new URL(value);
+      return url.protocol === "http:" || url.protocol === "https:"
+        ? null
+        : "feed value must be an http(s) URL";
+    } catch {
+      return "feed value must be a valid URL";
+    }
+  }
+  if (type === "x-authors") {
+    const authors = parseAuthors(value);
+    if (authors.length === 0) {
+      return "x-authors value must list at least one username";
+    }
+    const invalid = authors.filter((name) => !USERNAME_PATTERN.test(name));
+    return invalid.length > 0 ? `Invalid username(s): ${invalid.join(", ")}` : null;
+  }
+  return null;
+}
+
+export function isSourceDue(source: TweetSourceRecord, now = new Date()): boolean {
+  if (!source.intervalMinutes || !source.lastRunAt) {
+    return true;
+  }
+  // SQLite datetime('now') values are UTC without a zone suffix
+  const lastRun = new Date(`${source.lastRunAt.replace(" ", "T")}Z`);
+  return now.getTime() - lastRun.getTime() >= source.intervalMinutes * 60 * 1000;
+}
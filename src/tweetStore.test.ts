@@ -0,0 +1,238 @@
+import assert from "node:assert/strict";
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+import { decodeCursor } from "./tweetCursor.js";
+import { createTweetStore, type AuditFilters, type BulkResult, type CursorPage, type SortOptions, type TweetRecord } from "./tweetStore.js";
+
+const dir = mkdtempSync(path.join(tmpdir(), "kasfam-store-"));
+process.env.SQLITE_DB_PATH = path.join(dir, "app.db");
+const store = createTweetStore();
+const db = new Database(process.env.SQLITE_DB_PATH);
+after(() => {
+  db.close();
+  store.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// Ties on 50 and three tweets without a calibrated score
+const calibratedScores: Record<string, number | null> = {
+  t01: 90, t02: 50, t03: null, t04: 50, t05: 70, t06: null, t07: 50, t08: null,
+};
+for (const [id, calibratedScore] of Object.entries(calibratedScores)) {
+  store.saveRaw({ id, text: `tweet ${id}`, url: `https://x.com/i/status/${id}` });
+  db.prepare("UPDATE tweets SET score = @score, calibratedScore = @calibratedScore WHERE id = @id")
+    .run({ id, score: calibratedScore ?? 0, calibratedScore });
+}
+
+const ids = (page: { tweets: TweetRecord[] }) => page.tweets.map((tweet) => tweet.id);
+
+function nextPage(page: CursorPage, sort: Required<SortOptions>, pageSize: number, direction: "next" | "prev") {
+  const raw = direction === "next" ? page.nextCursor : page.prevCursor;
+  const cursor = raw && decodeCursor(raw, sort.orderBy, sort.orderDir);
+  assert.ok(cursor, `missing ${direction} cursor`);
+  return store.listByCursor({}, { cursor, pageSize }, sort);
+}
+
+// Every page forwards from the first, then every page back from the last
+function walk(sort: Required<SortOptions>, pageSize: number) {
+  const forward = [store.listByCursor({}, { pageSize }, sort)];
+  while (forward[forward.length - 1].nextCursor) {
+    assert.ok(forward.length < 20, "paging forwards doesn't end");
+    forward.push(nextPage(forward[forward.length - 1], sort, pageSize, "next"));
+  }
+  const backward = [forward[forward.length - 1]];
+  while (backward[backward.length - 1].prevCursor) {
+    assert.ok(backward.length < 20, "paging backwards doesn't end");
+    backward.push(nextPage(backward[backward.length - 1], sort, pageSize, "prev"));
+  }
+  return { forward, backward: backward.reverse() };
+}
+
+test("calibrated score pages keep unscored tweets last in both directions", () => {
+  const cases: [Required<SortOptions>, string[]][] = [
+    [{ orderBy: "calibratedScore", orderDir: "desc" }, ["t01", "t05", "t07", "t04", "t02", "t08", "t06", "t03"]],
+    [{ orderBy: "calibratedScore", orderDir: "asc" }, ["t02", "t04", "t07", "t05", "t01", "t03", "t06", "t08"]],
+  ];
+  for (const [sort, expected] of cases) {
+    assert.deepEqual(ids(store.list({}, { pageSize: 100 }, sort)), expected);
+    for (const pageSize of [1, 2, 3, 5]) {
+      const { forward, backward } = walk(sort, pageSize);
+      const label = `${sort.orderDir}, pages of ${pageSize}`;
+      assert.deepEqual(forward.flatMap(ids), expected, label);
+      assert.deepEqual(forward.map((page) => page.offset), forward.map((_, i) => i * pageSize), label);
+      assert.deepEqual(backward.map(ids), forward.map(ids), label);
+      assert.equal(backward[0].offset, 0, label);
+      assert.equal(forward[forward.length - 1].nextCursor, null, label);
+      assert.equal(forward[0].prevCursor, null, label);
+    }
+  }
+});
+
+test("pages over a non-null key break ties on id", () => {
+  const sort: Required<SortOptions> = { orderBy: "score", orderDir: "desc" };
+  const expected = ids(store.list({}, { pageSize: 100 }, sort));
+  assert.deepEqual(expected, ["t01", "t05", "t07", "t04", "t02", "t08", "t06", "t03"]);
+  const { forward, backward } = walk(sort, 2);
+  assert.deepEqual(forward.flatMap(ids), expected);
+  assert.deepEqual(backward.map(ids), forward.map(ids));
+});
+
+test("tweets arriving between pages don't shift the next page", () => {
+  const sort: Required<SortOptions> = { orderBy: "calibratedScore", orderDir: "desc" };
+  const first = store.listByCursor({}, { pageSize: 3 }, sort);
+  store.saveRaw({ id: "t09", text: "tweet t09", url: "https://x.com/i/status/t09" });
+  db.prepare("UPDATE tweets SET calibratedScore = 95 WHERE id = 't09'").run();
+  try {
+    assert.deepEqual(ids(nextPage(first, sort, 3, "next")), ["t04", "t02", "t08"]);
+  } finally {
+    db.prepare("DELETE FROM tweets WHERE id = 't09'").run();
+  }
+});
+
+test("bulk actions report each tweet once, and skip what they can't change", () => {
+  const moderator = store.createUser("bulk", "x", "moderator")!;
+  for (const id of ["b1", "b2", "b3", "b4"]) {
+    store.saveRaw({ id, text: `tweet ${id}`, url: `https://x.com/i/status/${id}` });
+  }
+  db.prepare("UPDATE tweets SET approved = 1 WHERE id = 'b1'").run();
+  const status = (result: BulkResult) => result.results.map((r) => [r.id, r.status, r.reason]);
+
+  const approve = store.applyBulkAction(["b1", "b2", "b1", "nope"], { type: "human-decision", decision: "APPROVED" }, moderator);
+  assert.deepEqual(status(approve), [["b1", "updated", undefined], ["b2", "updated", undefined], ["nope", "not-found", undefined]]);
+  assert.deepEqual([approve.updated, approve.skipped, approve.notFound], [2, 0, 1]);
+  assert.equal(store.get("b1")!.humanDecision, "APPROVED");
+  assert.deepEqual(status(store.applyBulkAction(["b1"], { type: "human-decision", decision: "APPROVED" }, moderator)), [["b1", "skipped", "unchanged"]]);
+
+  const gold = { type: "gold-example", goldExampleType: "GOOD", correction: null } as const;
+  assert.equal(store.applyBulkAction(["b1"], gold, moderator).updated, 1);
+  assert.equal(store.get("b1")!.goldExampleType, "GOOD");
+  assert.deepEqual(status(store.applyBulkAction(["b1"], gold, moderator)), [["b1", "skipped", "unchanged"]]);
+
+  // b3 was dead-lettered; b2 is waiting already
+  store.recordQueueFailure("b3", { error: "down", kind: "fatal" }, { maxAttempts: 1, baseDelaySeconds: 1, maxDelaySeconds: 1 });
+  store.enqueue("b2");
+  assert.deepEqual(status(store.applyBulkAction(["b1", "b2", "b3"], { type: "queue" }, moderator)), [
+    ["b1", "skipped", "already has a model decision"],
+    ["b2", "skipped", "already queued"],
+    ["b3", "updated", undefined],
+  ]);
+  assert.equal(store.getQueueItem("b3")!.status, "pending");
+
+  store.createPublication({ tweetId: "b4", text: "qt", scheduledAt: "2999-01-01T00:00:00Z" });
+  assert.deepEqual(status(store.applyBulkAction(["b3", "b4"], { type: "delete" }, moderator)), [
+    ["b3", "updated", undefined],
+    ["b4", "skipped", "has a scheduled or posted publication"],
+  ]);
+  assert.equal(store.get("b3"), null);
+  assert.equal(store.getQueueItem("b3"), null);
+});
+
+test("a failing item rolls back the whole bulk action", () => {
+  const moderator = store.createUser("bulk-rollback", "x", "moderator")!;
+  db.exec("CREATE TRIGGER fail_b2_delete BEFORE DELETE ON tweets WHEN OLD.id = 'b2' BEGIN SELECT RAISE(ABORT, 'no'); END");
+  try {
+    assert.throws(() => store.applyBulkAction(["b1", "b2"], { type: "delete" }, moderator), /no/);
+  } finally {
+    db.exec("DROP TRIGGER fail_b2_delete");
+  }
+  assert.ok(store.get("b1"));
+  assert.ok(store.get("b2"));
+});
+
+test("the audit log can only be appended to", () => {
+  store.recordAudit({ actor: "Auditor", action: "prompt.activate", target: "prompt:1", oldValue: null, newValue: { id: 1 } });
+  const [entry] = store.listAuditLog({ actor: "auditor" }).entries;
+  assert.deepEqual(
+    { ...entry, id: 0, at: "" },
+    { id: 0, at: "", actor: "Auditor", action: "prompt.activate", tweetId: null, target: "prompt:1", oldValue: null, newValue: { id: 1 } }
+  );
+  assert.throws(() => db.prepare("UPDATE audit_log SET actor = 'someone' WHERE id = ?").run(entry.id), /append-only/);
+  assert.throws(() => db.prepare("DELETE FROM audit_log WHERE id = ?").run(entry.id), /append-only/);
+  assert.equal(store.listAuditLog({ actor: "auditor" }).entries[0].actor, "Auditor");
+});
+
+test("audit log filters match an action or its prefix, newest first", () => {
+  const voter = store.createUser("audit-voter", "x", "moderator")!;
+  store.saveRaw({ id: "a1", text: "tweet a1", url: "https://x.com/i/status/a1" });
+  store.castVote("a1", voter, "REJECTED", "off topic");
+  store.castVote("a1", voter, "APPROVED", null);
+  store.recordAudit({ actor: "audit-voter", action: "session.reset", target: "session:1" });
+
+  const actions = (filters: AuditFilters) => store.listAuditLog({ actor: "audit-voter", ...filters }).entries.map((e) => e.action);
+  assert.deepEqual(actions({}), ["session.reset", "tweet.human-decision", "tweet.vote", "tweet.human-decision", "tweet.vote"]);
+  assert.deepEqual(actions({ action: "tweet.vote" }), ["tweet.vote", "tweet.vote"]);
+  assert.deepEqual(actions({ action: "tweet" }), ["tweet.human-decision", "tweet.vote", "tweet.human-decision", "tweet.vote"]);
+  assert.deepEqual(actions({ action: "twe" }), []);
+  assert.deepEqual(actions({ tweetId: "a1", action: "session" }), []);
+  assert.deepEqual(actions({ from: "2999-01-01" }), []);
+  assert.equal(actions({ to: "2999-01-01" }).length, 5);
+
+  const [vote] = store.listAuditLog({ tweetId: "a1", action: "tweet.vote" }).entries;
+  assert.deepEqual([vote.oldValue, vote.newValue], [{ vote: "REJECTED", reason: "off topic" }, { vote: "APPROVED", reason: null }]);
+  const page = store.listAuditLog({ actor: "audit-voter" }, { page: 2, pageSize: 2 });
+  assert.deepEqual([page.total, page.entries.map((e) => e.action)], [5, ["tweet.vote", "tweet.human-decision"]]);
+});
+
+test("stats count model and human decisions per period within the range", () => {
+  // Decided in January and February 2020, before anything else in this database
+  const decided = [
+    { id: "s1", approved: 1, score: 95, rule: null, human: "APPROVED", at: "2020-01-06 10:00:00", sourceId: 7 },
+    { id: "s2", approved: 1, score: 35, rule: null, human: "REJECTED", at: "2020-01-07 10:00:00", sourceId: null },
+    { id: "s3", approved: 0, score: 0, rule: "drama", human: "APPROVED", at: "2020-01-13 10:00:00", sourceId: null },
+    { id: "s4", approved: 0, score: 0, rule: "drama", human: null, at: "2020-01-14 10:00:00", sourceId: null },
+    { id: "s5", approved: 0, score: 0, rule: "low-signal", human: "REJECTED", at: "2020-02-01 10:00:00", sourceId: null },
+    { id: "s6", approved: 1, score: 100, rule: null, human: "APPROVED", at: "2020-02-03 10:00:00", sourceId: null },
+  ];
+  for (const tweet of decided) {
+    store.saveRaw({ id: tweet.id, text: `tweet ${tweet.id}`, url: `https://x.com/i/status/${tweet.id}` });
+    db.prepare(
+      `UPDATE tweets SET approved = @approved, score = @score, rejectionRule = @rule, humanDecision = @human,
+         sourceId = @sourceId, updatedAt = @at WHERE id = @id`
+    ).run(tweet);
+  }
+  const range = { from: "2020-01-01", to: "2020-03-01" };
+
+  assert.deepEqual(store.getRejectionStats({ ...range, bucket: "week" }), {
+    bucket: "week",
+    totals: [{ rule: "drama", count: 2 }, { rule: "low-signal", count: 1 }],
+    // Weeks start on Monday; Saturday 1 February is in the week of 27 January
+    series: [
+      { period: "2020-01-13", rule: "drama", count: 2 },
+      { period: "2020-01-27", rule: "low-signal", count: 1 },
+    ],
+  });
+  assert.deepEqual(store.getRejectionStats({ from: "2020-01-01", to: "2020-01-14" }).totals, [{ rule: "drama", count: 1 }]);
+
+  assert.deepEqual(store.getAgreementStats({ ...range, bucket: "month" }), {
+    bucket: "month",
+    totals: { labeled: 5, agreed: 3, falseApprovals: 1, falseRejections: 1 },
+    series: [
+      { period: "2020-01", labeled: 3, agreed: 1, falseApprovals: 1, falseRejections: 1 },
+      { period: "2020-02", labeled: 2, agreed: 2, falseApprovals: 0, falseRejections: 0 },
+    ],
+  });
+
+  const distribution = store.getScoreDistribution(range);
+  assert.equal(distribution.bins.length, 10);
+  // A score of 100 shares the top bin
+  assert.deepEqual(distribution.bins.filter((b) => b.humanApproved + b.humanRejected > 0), [
+    { bin: 30, humanApproved: 0, humanRejected: 1 },
+    { bin: 90, humanApproved: 2, humanRejected: 0 },
+  ]);
+  assert.deepEqual(distribution.modelRejected, { humanApproved: 1, humanRejected: 1 });
+
+  assert.deepEqual(store.getApprovalRateStats({ ...range, bucket: "month" }), {
+    bucket: "month",
+    series: [
+      { period: "2020-01", decided: 4, approved: 2, labeled: 3, humanApproved: 2 },
+      { period: "2020-02", decided: 2, approved: 1, labeled: 2, humanApproved: 1 },
+    ],
+    sources: [
+      { sourceId: null, decided: 5, approved: 2, labeled: 4, humanApproved: 2 },
+      { sourceId: 7, decided: 1, approved: 1, labeled: 1, humanApproved: 1 },
+    ],
+  });
+});
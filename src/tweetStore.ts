@@ -1,6 +1,31 @@
 import Database, { Database as SqliteDatabase } from "better-sqlite3";
 import { mkdirSync } from "node:fs";
 import path from "node:path";
+import { classifyRejection, type RejectionRuleId } from "./rejectionRules.js";
+import {
+  backoffDelaySeconds,
+  type ProcessingErrorKind,
+  type RetryPolicy,
+} from "./processingQueue.js";
+import {
+  DEFAULT_SOURCES,
+  type SourceStats,
+  type TweetSourceInput,
+  type TweetSourceRecord,
+  type TweetSourceUpdate,
+} from "./tweetSources.js";
+import type {
+  ReferencedTweet,
+  TweetMedia,
+  TweetMetadata,
+  TweetMetrics,
+} from "./tweetMetadata.js";
+import type { TweetContext } from "./tweetContext.js";
+import { prompt as builtInPrompt } from "./prompt.js";
+import { resolveCalibrationReference, type CalibrationReference } from "./scoreCalibration.js";
+import { deriveHumanDecision, resolveConsensusRule, type ConsensusRule } from "./consensus.js";
+import { encodeCursor, type TweetCursor } from "./tweetCursor.js";
+import { PUBLIC_SEARCH_COLUMNS, restrictToColumns, SEARCH_COLUMNS, SNIPPET_CLOSE, SNIPPET_OPEN } from "./search.js";
 
 export type HumanDecision = "APPROVED" | "REJECTED";
 export type GoldExampleType = "GOOD" | "BAD";
@@ -9,29 +34,181 @@ export type TweetRecord = {
   id: string;
   text: string;
   quote: string;
+  qt: string | null;
+  rejectionReason: string | null;
+  rejectionRule: RejectionRuleId | null;
   url: string;
   approved: boolean | null;
-  score: number;
+  score: number;  // Percentile the model reported
+  calibratedScore: number | null;  // Empirical percentile of `score` among approved tweets (approved only)
   createdAt: string;
   updatedAt: string | null;
   humanDecision: HumanDecision | null;
   goldExampleType: GoldExampleType | null;
   goldExampleCorrection: string | null;
+  goldExamplePinned: boolean;  // Always included in the prompt while it is a gold example
+  goldExampleNote: string | null;  // Why it is an example, for the people curating them
+  goldExampleTags: string[];  // Rejection rule ids and high-bar categories it illustrates
+  goldExampleAddedAt: string | null;  // When it was marked (or changed type); drives the impact report
+  goldExampleExpiresAt: string | null;  // UTC; from then on it is left out of prompts
+  provider: string | null;
+  model: string | null;
+  reasoningEffort: string | null;
+  sourceId: number | null;  // Saved source that first ingested the tweet
+  authorId: string | null;
+  authorUsername: string | null;
+  authorName: string | null;
+  authorFollowers: number | null;
+  postedAt: string | null;  // When the tweet was posted (createdAt is when it was ingested)
+  lang: string | null;
+  conversationId: string | null;
+  metrics: TweetMetrics | null;
+  media: TweetMedia[];
+  referencedTweets: ReferencedTweet[];
+  context: TweetContext | null;  // Fetched thread / quote context
+  modelInput: string | null;  // Exact input of the last model decision
+  publishedTweetId: string | null;  // Our quote tweet, once posted
+  publishedUrl: string | null;
+  publishedAt: string | null;
+  finalQt: string | null;  // QT picked for publishing and GOOD examples; null = the model's `qt`
+  finalQtRevisionId: number | null;
+  currentEvaluationId: number | null;  // Evaluation the decision columns were copied from
+  promptVersionId: number | null;  // Prompt version of the current decision
 };
 
 export type TweetRawInput = {
   id: string;
   text: string;
   url: string;
+  sourceId?: number | null;
+  metadata?: TweetMetadata;
 };
 
 export type TweetDecisionInput = {
   id: string;
   text: string;
   quote: string;
+  qt: string | null;
+  rejectionReason: string | null;
+  rejectionRule: RejectionRuleId | null;
   url: string;
   approved: boolean;
   score: number;
+  provider: string;
+  model: string;
+  reasoningEffort: string | null;
+  modelInput: string;
+  evaluationId: number;  // From recordEvaluation
+  promptVersionId: number | null;
+};
+
+// A few-shot example used in a call; pinned/similarity are missing on calls made before
+// examples were picked per tweet
+export type EvaluationExample = {
+  tweetId: string | null;
+  type: GoldExampleType;
+  pinned?: boolean;
+  similarity?: number | null;
+};
+
+export type EvaluationInput = {
+  tweetId: string;
+  modelInput: string;
+  provider: string;
+  model: string;
+  reasoningEffort: string | null;
+  promptVersionId: number | null;
+  promptVersion: string;
+  examples: EvaluationExample[];
+  previousResponseId: string | null;
+  responseId: string | null;
+  rawResponse: string;
+  latencyMs: number;
+  usage: { inputTokens: number; outputTokens: number; totalTokens: number } | null;
+  // Parsed decision; absent when the output couldn't be parsed (see `error`)
+  approved?: boolean;
+  score?: number;
+  quote?: string;
+  qt?: string | null;
+  rejectionReason?: string | null;
+  rejectionRule?: RejectionRuleId | null;
+  categories?: string[];
+  outputFormat?: string;
+  error?: string;
+  shadowOf?: number | null;  // Production evaluation this shadow call ran alongside
+  calibrationSessionId?: number | null;  // Session whose chain the call continued
+};
+
+// One model call for a tweet. Rows are append-only; decisions from before the table
+// existed were copied in from the tweets row (those have no raw response or timings).
+export type Evaluation = {
+  id: number;
+  tweetId: string;
+  provider: string | null;
+  model: string | null;
+  reasoningEffort: string | null;
+  promptVersionId: number | null;
+  promptVersion: string | null;  // Content hash of the prompt
+  examples: EvaluationExample[];
+  previousResponseId: string | null;
+  responseId: string | null;
+  modelInput: string | null;
+  rawResponse: string | null;
+  approved: boolean | null;
+  score: number | null;
+  quote: string | null;
+  qt: string | null;
+  rejectionReason: string | null;
+  rejectionRule: RejectionRuleId | null;
+  categories: string[];
+  outputFormat: string | null;
+  error: string | null;
+  latencyMs: number | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  totalTokens: number | null;
+  shadowOf: number | null;  // Set on shadow-mode calls; those never become the current decision
+  calibrationSessionId: number | null;
+  createdAt: string;
+};
+
+// A shadow evaluation paired with the production evaluation it ran alongside
+export type ShadowComparison = {
+  tweetId: string;
+  text: string;
+  url: string;
+  humanDecision: HumanDecision | null;
+  production: Evaluation;
+  shadow: Evaluation;
+};
+
+export type ShadowComparisonKind = "disagreements" | "errors" | "all";
+
+export type ShadowSummary = {
+  compared: number;  // Shadow calls with a parsed decision on both sides
+  agreed: number;
+  disagreed: number;
+  errors: number;  // Shadow calls whose output couldn't be parsed
+};
+
+export type GoldExampleDetails = {
+  note: string | null;
+  tags: string[];
+  expiresAt: string | null;
+};
+
+export type GoldExampleUsage = {
+  tweetId: string;
+  injected: number;  // Production calls that included it since it was added
+  lastInjectedAt: string | null;
+  evaluationsSinceAdded: number;  // Production calls on other tweets since it was added
+};
+
+export type DecisionWindow = {
+  evaluations: number;  // Parsed production calls in the window
+  approvalRate: number | null;
+  labeled: number;  // Of those, calls on tweets a human has decided
+  humanAgreement: number | null;  // Share of labeled calls whose approval matches the human
 };
 
 export type TweetFilters = {
@@ -40,9 +217,362 @@ export type TweetFilters = {
   hasModelDecision?: boolean;
   goldExampleType?: GoldExampleType;
   hasGoldExample?: boolean;
+  rejectionRule?: RejectionRuleId;
+  sourceId?: number;
+  authorUsername?: string;  // Case-insensitive, without the @
+  postedFrom?: string;  // Inclusive
+  postedTo?: string;  // Exclusive
+  lang?: string;
+  minCalibratedScore?: number;  // Inclusive
+  maxCalibratedScore?: number;  // Inclusive
+  minScore?: number;  // Inclusive, on the score the model reported
+  maxScore?: number;  // Inclusive
+  createdFrom?: string;  // Inclusive, on when the tweet was ingested
+  createdTo?: string;  // Exclusive
+  updatedFrom?: string;  // Inclusive, on COALESCE(updatedAt, createdAt)
+  updatedTo?: string;  // Exclusive
+  disagreement?: boolean;  // The model and the human decision differ
+  needsVoteFrom?: number;  // User id: tweets without a humanDecision that they haven't voted on
+  search?: string;  // FTS5 query, see toFtsQuery()
+  publicSearch?: boolean;  // Unapproved tweets match only on PUBLIC_SEARCH_COLUMNS
+};
+
+// Where an X search query resumes on the next run
+export type SearchCursor = {
+  sinceId: string | null;  // Newest id of the last fully read window
+  untilId: string | null;  // While a window is unfinished: the oldest id read, older ones still to read
+  windowNewestId: string | null;  // Newest id of the unfinished window; the next sinceId once it's read
+};
+
+export type QueueStatus = "pending" | "dead";
+
+export type QueueItem = {
+  tweetId: string;
+  status: QueueStatus;
+  attempts: number;
+  lastError: string | null;
+  lastErrorKind: ProcessingErrorKind | null;
+  rawResponse: string | null;  // Last malformed model output, kept for debugging
+  nextAttemptAt: string;
+  createdAt: string;
+  updatedAt: string | null;
+};
+
+export type QueueFailure = {
+  error: string;
+  kind: ProcessingErrorKind;
+  rawResponse?: string | null;
+};
+
+export type QueueCounts = {
+  pending: number;
+  due: number;  // Pending and past their backoff
+  dead: number;
+};
+
+// A stored judge prompt (without few-shot examples or output-format instructions).
+// Versions are immutable; one of them is active at a time.
+export type PromptVersion = {
+  id: number;
+  body: string;
+  note: string | null;
+  author: string | null;
+  createdAt: string;
+  activatedAt: string | null;  // Last time it was made active
+};
+
+export type PromptVersionInput = {
+  body: string;
+  note?: string | null;
+  author?: string | null;
+};
+
+// A named conversation chain. Each rollover starts a new generation with an empty chain,
+// seeded with a summary of recent decisions instead of the full history.
+export type CalibrationSession = {
+  id: number;
+  name: string;
+  headResponseId: string | null;  // previous_response_id for the next call
+  tweetCount: number;  // Calls in the current generation
+  generation: number;
+  promptVersionId: number | null;  // Prompt the current generation was started with
+  seedSummary: string | null;  // Added to the system prompt for the current generation
+  rolloverReason: CalibrationRolloverReason | null;
+  rolledOverAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CalibrationRolloverReason = "max-tweets" | "prompt-change" | "reset";
+
+// Production decisions behind a rollover seed, newest first
+export type RecentDecision = {
+  approved: boolean;
+  score: number;
+  rejectionRule: RejectionRuleId | null;
+};
+
+// One moderation action applied to many tweets at once (see applyBulkAction)
+export type BulkAction =
+  | { type: "human-decision"; decision: HumanDecision | null }
+  | { type: "gold-example"; goldExampleType: GoldExampleType | null; correction: string | null }
+  | { type: "queue" }  // Pending tweets only; dead-lettered ones are requeued
+  | { type: "delete" };
+
+export type BulkItemStatus = "updated" | "skipped" | "not-found";
+
+export type BulkItemResult = {
+  id: string;
+  status: BulkItemStatus;
+  reason?: string;  // Why it was skipped
+};
+
+export type BulkResult = {
+  action: BulkAction["type"];
+  updated: number;
+  skipped: number;
+  notFound: number;
+  results: BulkItemResult[];
+};
+
+// Ordered: each role can do everything the ones before it can
+export type UserRole = "viewer" | "moderator" | "publisher" | "admin";
+
+export type User = {
+  id: number;
+  username: string;
+  role: UserRole;
+  disabled: boolean;
+  createdAt: string;
+  lastLoginAt: string | null;
+};
+
+// Who is voting: the signed-in dashboard user
+export type Reviewer = Pick<User, "id" | "username">;
+
+// One reviewer's vote on a tweet; the tweet's humanDecision is derived from its votes
+export type ReviewVote = {
+  tweetId: string;
+  userId: number;
+  username: string;
+  vote: HumanDecision;
+  reason: string | null;
+  createdAt: string;
+  updatedAt: string | null;
 };
 
-export type SortField = "score" | "createdAt" | "updatedAt";
+export type VoteSummary = {
+  approvals: number;
+  rejections: number;
+  myVote: HumanDecision | null;  // The requesting reviewer's vote
+};
+
+export type VoteResult = VoteSummary & {
+  humanDecision: HumanDecision | null;
+};
+
+// Raw counts behind the reviewer agreement report (see consensus.ts)
+export type VoteAgreementTotals = {
+  multiVoteTweets: number;
+  unanimous: number;
+  contested: number;
+  votePairs: number;
+  agreeingPairs: number;
+};
+
+export type ReviewerVoteCounts = {
+  username: string;
+  votes: number;
+  approvals: number;
+  decided: number;
+  matchingDecision: number;
+  modelCompared: number;
+  matchingModel: number;
+};
+
+export type ReviewerPairCounts = {
+  first: string;
+  second: string;
+  shared: number;
+  agreed: number;
+  firstApprovals: number;
+  secondApprovals: number;
+};
+
+// What a dashboard user (or the users CLI) did; see recordAudit
+export type AuditAction =
+  | "tweet.vote"
+  | "tweet.human-decision"
+  | "tweet.gold-example"
+  | "tweet.gold-example-pin"
+  | "tweet.gold-example-details"
+  | "tweet.process"
+  | "tweet.reeval"
+  | "tweet.requeue"
+  | "tweet.queue"
+  | "tweet.delete"
+  | "tweet.qt-edit"
+  | "tweet.qt-final"
+  | "tweet.publish"
+  | "publication.update"
+  | "publication.cancel"
+  | "prompt.create"
+  | "prompt.activate"
+  | "session.create"
+  | "session.reset"
+  | "session.activate"
+  | "shadow.update"
+  | "scores.recalibrate"
+  | "source.create"
+  | "source.update"
+  | "source.delete"
+  | "user.create"
+  | "user.update";
+
+export type AuditEntryInput = {
+  actor: string;  // Username, "cli" for the users CLI, or "consensus" when a rule change re-derives decisions
+  action: AuditAction;
+  tweetId?: string | null;
+  target?: string | null;  // What a non-tweet action changed, e.g. "prompt:3"
+  oldValue?: unknown;  // Stored as JSON
+  newValue?: unknown;
+};
+
+export type AuditEntry = {
+  id: number;
+  at: string;
+  actor: string;
+  action: AuditAction;
+  tweetId: string | null;
+  target: string | null;
+  oldValue: unknown;
+  newValue: unknown;
+};
+
+export type AuditFilters = {
+  tweetId?: string;
+  actor?: string;
+  action?: string;  // An action, or a prefix such as "tweet" for every tweet.* action
+  from?: string;  // Inclusive, ISO or SQLite time
+  to?: string;  // Exclusive
+};
+
+export type QtRevisionSource = "model" | "human";
+
+// One version of a tweet's QT. Model drafts are recorded on every decision and never changed.
+export type QtRevision = {
+  id: number;
+  tweetId: string;
+  text: string;
+  source: QtRevisionSource;
+  author: string;  // Reviewer name, or provider/model for drafts
+  createdAt: string;
+};
+
+export type PublicationStatus = "scheduled" | "sending" | "posted" | "failed" | "cancelled";
+
+export type Publication = {
+  id: number;
+  tweetId: string;
+  text: string;  // QT text as it will be / was posted
+  status: PublicationStatus;
+  scheduledAt: string | null;  // UTC; null for immediate posts
+  postedAt: string | null;
+  postedTweetId: string | null;
+  postedUrl: string | null;
+  dryRun: boolean;  // Written to the local outbox instead of X
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string | null;
+};
+
+export type PublicationInput = {
+  tweetId: string;
+  text: string;
+  scheduledAt: string | null;  // null posts right away (created as "sending")
+};
+
+export type PublicationUpdate = {
+  text?: string;
+  scheduledAt?: string;
+};
+
+export type ProcessorState = "starting" | "polling" | "processing" | "idle" | "stopped";
+
+export type ProcessorStatus = {
+  mode: "once" | "watch" | null;
+  state: ProcessorState | null;
+  pid: number | null;
+  startedAt: string | null;
+  lastPollAt: string | null;
+  nextPollAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  lastRunSummary: Record<string, number> | null;
+  updatedAt: string | null;
+};
+
+export type ProcessorStatusUpdate = Partial<Omit<ProcessorStatus, "updatedAt">>;
+
+export type StatsBucket = "day" | "week" | "month";
+
+export type StatsOptions = {
+  bucket?: StatsBucket;
+  from?: string;  // Inclusive, compared against the decision time
+  to?: string;  // Exclusive
+};
+
+export type RejectionStatsOptions = StatsOptions;
+
+export type RejectionStats = {
+  bucket: StatsBucket;
+  totals: Array<{ rule: RejectionRuleId; count: number }>;
+  series: Array<{ period: string; rule: RejectionRuleId; count: number }>;
+};
+
+// Model vs human, over tweets both have decided
+export type AgreementCounts = {
+  labeled: number;
+  agreed: number;
+  falseApprovals: number;  // Model approved, human rejected
+  falseRejections: number;  // Model rejected, human approved
+};
+
+export type AgreementStats = {
+  bucket: StatsBucket;
+  totals: AgreementCounts;
+  series: Array<AgreementCounts & { period: string }>;
+};
+
+// Raw scores of model-approved tweets by human decision; the score is 0 when the model rejects
+export type ScoreDistribution = {
+  binSize: number;
+  bins: Array<{ bin: number; humanApproved: number; humanRejected: number }>;  // `bin` is the lower bound
+  modelRejected: { humanApproved: number; humanRejected: number };
+};
+
+export type ApprovalCounts = {
+  decided: number;  // Tweets the model has decided
+  approved: number;
+  labeled: number;  // Tweets a human has decided
+  humanApproved: number;
+};
+
+export type ApprovalRateStats = {
+  bucket: StatsBucket;
+  series: Array<ApprovalCounts & { period: string }>;
+  sources: Array<ApprovalCounts & { sourceId: number | null }>;
+};
+
+// The first production call made with a different prompt version than the call before it
+export type PromptChange = {
+  at: string;
+  promptVersionId: number | null;
+  previousPromptVersionId: number | null;
+};
+
+export type SortField = "score" | "calibratedScore" | "createdAt" | "updatedAt" | "postedAt";
 export type SortDirection = "asc" | "desc";
 
 export type SortOptions = {
@@ -55,6 +585,21 @@ export type PaginationOptions = {
   pageSize?: number;
 };
 
+export type CursorPageOptions = {
+  cursor?: TweetCursor | null;  // null for the first page
+  pageSize?: number;
+  withTotal?: boolean;  // Count every match, which costs a scan of them
+};
+
+export type CursorPage = {
+  tweets: TweetRecord[];
+  pageSize: number;
+  offset: number;  // Rows before this page, as far as the client has paged
+  total: number | null;  // Only with withTotal
+  nextCursor: string | null;
+  prevCursor: string | null;
+};
+
 type NormalizedPagination = {
   page: number;
   pageSize: number;
@@ -62,9 +607,101 @@ type NormalizedPagination = {
   offset: number;
 };
 
+type TweetRow = Omit<TweetRecord, "approved" | "goldExamplePinned" | "goldExampleTags" | "metrics" | "media" | "referencedTweets" | "context"> & {
+  approved: number | null;
+  goldExamplePinned: number | null;
+  goldExampleTags: string | null;
+  metrics: string | null;
+  media: string | null;
+  referencedTweets: string | null;
+  context: string | null;
+};
+
+const TWEET_COLUMNS =
+  "id, text, quote, qt, rejectionReason, rejectionRule, url, approved, score, calibratedScore, createdAt, updatedAt, humanDecision, goldExampleType, goldExampleCorrection, goldExamplePinned, goldExampleNote, goldExampleTags, goldExampleAddedAt, goldExampleExpiresAt, provider, model, reasoningEffort, sourceId, authorId, authorUsername, authorName, authorFollowers, postedAt, lang, conversationId, metrics, media, referencedTweets, context, modelInput, publishedTweetId, publishedUrl, publishedAt, finalQt, finalQtRevisionId, currentEvaluationId, promptVersionId";
+
+const PUBLICATION_COLUMNS =
+  "id, tweetId, text, status, scheduledAt, postedAt, postedTweetId, postedUrl, dryRun, lastError, createdAt, updatedAt";
+
+type PublicationRow = Omit<Publication, "dryRun"> & { dryRun: number };
+
+const EVALUATION_COLUMNS =
+  "id, tweetId, provider, model, reasoningEffort, promptVersionId, promptVersion, examples, previousResponseId, responseId, modelInput, rawResponse, approved, score, quote, qt, rejectionReason, rejectionRule, categories, outputFormat, error, latencyMs, inputTokens, outputTokens, totalTokens, shadowOf, calibrationSessionId, createdAt";
+
+type EvaluationRow = Omit<Evaluation, "approved" | "examples" | "categories"> & {
+  approved: number | null;
+  examples: string | null;
+  categories: string | null;
+};
+
+const PROMPT_VERSION_COLUMNS = "id, body, note, author, createdAt, activatedAt";
+const ACTIVE_PROMPT_VERSION_KEY = "activePromptVersionId";
+
+const CALIBRATION_SESSION_COLUMNS =
+  "id, name, headResponseId, tweetCount, generation, promptVersionId, seedSummary, rolloverReason, rolledOverAt, createdAt, updatedAt";
+const ACTIVE_CALIBRATION_SESSION_KEY = "activeCalibrationSessionId";
+// The single global chain head used before calibration sessions
+const LEGACY_RESPONSE_ID_KEY = "previousResponseId";
+
+const QT_REVISION_COLUMNS = "id, tweetId, text, source, author, createdAt";
+
+const USER_COLUMNS = "id, username, role, disabled, createdAt, lastLoginAt";
+
+const AUDIT_COLUMNS = "id, at, actor, action, tweetId, target, oldValue, newValue";
+
+type AuditRow = Omit<AuditEntry, "oldValue" | "newValue"> & { oldValue: string | null; newValue: string | null };
+
+type BulkTarget = {
+  id: string;
+  text: string;
+  approved: number | null;
+  humanDecision: HumanDecision | null;
+  goldExampleType: GoldExampleType | null;
+  goldExampleCorrection: string | null;
+  myVote: HumanDecision | null;  // The acting reviewer's vote
+};
+
+const REVIEW_VOTE_COLUMNS = "v.tweetId, v.userId, u.username, v.vote, v.reason, v.createdAt, v.updatedAt";
+
+type UserRow = Omit<User, "disabled"> & { disabled: number };
+
+const QUEUE_COLUMNS =
+  "tweetId, status, attempts, lastError, lastErrorKind, rawResponse, nextAttemptAt, createdAt, updatedAt";
+
+const SOURCE_COLUMNS =
+  "id, name, type, value, enabled, intervalMinutes, lastRunAt, lastFetchedCount, lastError, createdAt, updatedAt";
+const SOURCES_SEEDED_KEY = "sourcesSeeded";
+
+type SourceRow = Omit<TweetSourceRecord, "enabled"> & { enabled: number };
+
+const PROCESSOR_STATUS_ID = "processor";
+const PROCESSOR_STATUS_FIELDS: Array<keyof ProcessorStatusUpdate> = [
+  "mode",
+  "state",
+  "pid",
+  "startedAt",
+  "lastPollAt",
+  "nextPollAt",
+  "lastSuccessAt",
+  "lastError",
+  "lastErrorAt",
+  "lastRunSummary",
+];
+const PROCESSOR_STATUS_COLUMNS = [...PROCESSOR_STATUS_FIELDS, "updatedAt"].join(", ");
+
 const DEFAULT_PAGE_SIZE = 20;
 const MAX_PAGE_SIZE = 100;
 
+// Sort keys for list() and listByCursor(). They match the idx_tweets_*_order index
+// expressions exactly, which is what lets SQLite use those indexes.
+const SORT_KEYS: Record<SortField, string> = {
+  updatedAt: "datetime(COALESCE(updatedAt, createdAt))",
+  createdAt: "datetime(createdAt)",
+  postedAt: "datetime(COALESCE(postedAt, createdAt))",  // Tweets without a posted time sort by ingestion time
+  score: "score",
+  calibratedScore: "calibratedScore",  // Rejected and undecided tweets have none
+};
+
 function resolveDbPath() {
   const inputPath = process.env.SQLITE_DB_PATH || "data/app.db";
   const resolved = path.resolve(inputPath);
@@ -80,14 +717,46 @@ function initDb(): SqliteDatabase {
       id TEXT PRIMARY KEY,
       text TEXT NOT NULL,
       quote TEXT NOT NULL DEFAULT '',
+      qt TEXT DEFAULT NULL,
+      rejectionReason TEXT DEFAULT NULL,
+      rejectionRule TEXT DEFAULT NULL,
       url TEXT NOT NULL,
       approved INTEGER DEFAULT NULL,
       score INTEGER NOT NULL DEFAULT 0,
+      calibratedScore INTEGER DEFAULT NULL,
       createdAt TEXT NOT NULL DEFAULT (datetime('now')),
       updatedAt TEXT DEFAULT NULL,
       humanDecision TEXT DEFAULT NULL CHECK(humanDecision IN ('APPROVED','REJECTED')),
       goldExampleType TEXT DEFAULT NULL CHECK(goldExampleType IN ('GOOD','BAD')),
-      goldExampleCorrection TEXT DEFAULT NULL
+      goldExampleCorrection TEXT DEFAULT NULL,
+      goldExamplePinned INTEGER NOT NULL DEFAULT 0,
+      goldExampleNote TEXT DEFAULT NULL,
+      goldExampleTags TEXT DEFAULT NULL,
+      goldExampleAddedAt TEXT DEFAULT NULL,
+      goldExampleExpiresAt TEXT DEFAULT NULL,
+      provider TEXT DEFAULT NULL,
+      model TEXT DEFAULT NULL,
+      reasoningEffort TEXT DEFAULT NULL,
+      sourceId INTEGER DEFAULT NULL,
+      authorId TEXT DEFAULT NULL,
+      authorUsername TEXT DEFAULT NULL,
+      authorName TEXT DEFAULT NULL,
+      authorFollowers INTEGER DEFAULT NULL,
+      postedAt TEXT DEFAULT NULL,
+      lang TEXT DEFAULT NULL,
+      conversationId TEXT DEFAULT NULL,
+      metrics TEXT DEFAULT NULL,
+      media TEXT DEFAULT NULL,
+      referencedTweets TEXT DEFAULT NULL,
+      context TEXT DEFAULT NULL,
+      modelInput TEXT DEFAULT NULL,
+      publishedTweetId TEXT DEFAULT NULL,
+      publishedUrl TEXT DEFAULT NULL,
+      publishedAt TEXT DEFAULT NULL,
+      finalQt TEXT DEFAULT NULL,
+      finalQtRevisionId INTEGER DEFAULT NULL,
+      currentEvaluationId INTEGER DEFAULT NULL,
+      promptVersionId INTEGER DEFAULT NULL
     );
     CREATE UNIQUE INDEX IF NOT EXISTS idx_tweets_id ON tweets(id);
     CREATE INDEX IF NOT EXISTS idx_tweets_gold_example ON tweets(goldExampleType)
@@ -97,10 +766,199 @@ function initDb(): SqliteDatabase {
       key TEXT PRIMARY KEY,
       value TEXT
     );
+
+    CREATE TABLE IF NOT EXISTS processing_queue (
+      tweetId TEXT PRIMARY KEY REFERENCES tweets(id) ON DELETE CASCADE,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending','dead')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      lastError TEXT DEFAULT NULL,
+      lastErrorKind TEXT DEFAULT NULL,
+      rawResponse TEXT DEFAULT NULL,
+      nextAttemptAt TEXT NOT NULL DEFAULT (datetime('now')),
+      createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+      updatedAt TEXT DEFAULT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_processing_queue_due ON processing_queue(status, nextAttemptAt);
+
+    CREATE TABLE IF NOT EXISTS processor_status (
+      id TEXT PRIMARY KEY,
+      mode TEXT DEFAULT NULL,
+      state TEXT DEFAULT NULL,
+      pid INTEGER DEFAULT NULL,
+      startedAt TEXT DEFAULT NULL,
+      lastPollAt TEXT DEFAULT NULL,
+      nextPollAt TEXT DEFAULT NULL,
+      lastSuccessAt TEXT DEFAULT NULL,
+      lastError TEXT DEFAULT NULL,
+      lastErrorAt TEXT DEFAULT NULL,
+      lastRunSummary TEXT DEFAULT NULL,
+      updatedAt TEXT DEFAULT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS x_search_cursors (
+      query TEXT PRIMARY KEY,
+      sinceId TEXT NOT NULL,
+      untilId TEXT DEFAULT NULL,
+      windowNewestId TEXT DEFAULT NULL,
+      updatedAt TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS evaluations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tweetId TEXT NOT NULL REFERENCES tweets(id) ON DELETE CASCADE,
+      provider TEXT DEFAULT NULL,
+      model TEXT DEFAULT NULL,
+      reasoningEffort TEXT DEFAULT NULL,
+      promptVersionId INTEGER DEFAULT NULL,
+      promptVersion TEXT DEFAULT NULL,
+      examples TEXT DEFAULT NULL,
+      previousResponseId TEXT DEFAULT NULL,
+      responseId TEXT DEFAULT NULL,
+      modelInput TEXT DEFAULT NULL,
+      rawResponse TEXT DEFAULT NULL,
+      approved INTEGER DEFAULT NULL,
+      score INTEGER DEFAULT NULL,
+      quote TEXT DEFAULT NULL,
+      qt TEXT DEFAULT NULL,
+      rejectionReason TEXT DEFAULT NULL,
+      rejectionRule TEXT DEFAULT NULL,
+      categories TEXT DEFAULT NULL,
+      outputFormat TEXT DEFAULT NULL,
+      error TEXT DEFAULT NULL,
+      latencyMs INTEGER DEFAULT NULL,
+      inputTokens INTEGER DEFAULT NULL,
+      outputTokens INTEGER DEFAULT NULL,
+      totalTokens INTEGER DEFAULT NULL,
+      shadowOf INTEGER DEFAULT NULL REFERENCES evaluations(id) ON DELETE CASCADE,
+      calibrationSessionId INTEGER DEFAULT NULL,
+      createdAt TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+    CREATE INDEX IF NOT EXISTS idx_evaluations_tweet ON evaluations(tweetId, id);
+
+    CREATE TABLE IF NOT EXISTS prompt_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      body TEXT NOT NULL,
+      note TEXT DEFAULT NULL,
+      author TEXT DEFAULT NULL,
+      createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+      activatedAt TEXT DEFAULT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS calibration_sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      headResponseId TEXT DEFAULT NULL,
+      tweetCount INTEGER NOT NULL DEFAULT 0,
+      generation INTEGER NOT NULL DEFAULT 1,
+      promptVersionId INTEGER DEFAULT NULL,
+      seedSummary TEXT DEFAULT NULL,
+      rolloverReason TEXT DEFAULT NULL CHECK(rolloverReason IN ('max-tweets','prompt-change','reset')),
+      rolledOverAt TEXT DEFAULT NULL,
+      createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+      updatedAt TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS qt_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tweetId TEXT NOT NULL REFERENCES tweets(id) ON DELETE CASCADE,
+      text TEXT NOT NULL,
+      source TEXT NOT NULL CHECK(source IN ('model','human')),
+      author TEXT NOT NULL,
+      createdAt TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+    CREATE INDEX IF NOT EXISTS idx_qt_revisions_tweet ON qt_revisions(tweetId, id);
+
+    CREATE TABLE IF NOT EXISTS publications (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tweetId TEXT NOT NULL REFERENCES tweets(id) ON DELETE CASCADE,
+      text TEXT NOT NULL,
+      status TEXT NOT NULL CHECK(status IN ('scheduled','sending','posted','failed','cancelled')),
+      scheduledAt TEXT DEFAULT NULL,
+      postedAt TEXT DEFAULT NULL,
+      postedTweetId TEXT DEFAULT NULL,
+      postedUrl TEXT DEFAULT NULL,
+      dryRun INTEGER NOT NULL DEFAULT 0,
+      lastError TEXT DEFAULT NULL,
+      createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+      updatedAt TEXT DEFAULT NULL
+    );
+    -- At most one live publication per tweet; failed and cancelled ones are history
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_publications_active ON publications(tweetId)
+      WHERE status IN ('scheduled','sending','posted');
+    CREATE INDEX IF NOT EXISTS idx_publications_due ON publications(status, scheduledAt);
+
+    CREATE TABLE IF NOT EXISTS sources (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      type TEXT NOT NULL CHECK(type IN ('x-search','x-authors','feed')),
+      value TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      intervalMinutes INTEGER DEFAULT NULL,
+      lastRunAt TEXT DEFAULT NULL,
+      lastFetchedCount INTEGER DEFAULT NULL,
+      lastError TEXT DEFAULT NULL,
+      createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+      updatedAt TEXT DEFAULT NULL
+    );
+
+    -- Dashboard accounts (see src/auth.ts)
+    CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      passwordHash TEXT NOT NULL,
+      role TEXT NOT NULL CHECK(role IN ('viewer','moderator','publisher','admin')),
+      disabled INTEGER NOT NULL DEFAULT 0,
+      createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+      lastLoginAt TEXT DEFAULT NULL
+    );
+
+    -- One vote per reviewer per tweet; tweets.humanDecision is derived from these
+    CREATE TABLE IF NOT EXISTS review_votes (
+      tweetId TEXT NOT NULL REFERENCES tweets(id) ON DELETE CASCADE,
+      userId INTEGER NOT NULL REFERENCES users(id),
+      vote TEXT NOT NULL CHECK(vote IN ('APPROVED','REJECTED')),
+      reason TEXT DEFAULT NULL,
+      createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+      updatedAt TEXT DEFAULT NULL,
+      PRIMARY KEY (tweetId, userId)
+    );
+    CREATE INDEX IF NOT EXISTS idx_review_votes_user ON review_votes(userId);
+
+    -- Dashboard logins; only a hash of each token is stored
+    CREATE TABLE IF NOT EXISTS auth_sessions (
+      tokenHash TEXT PRIMARY KEY,
+      userId INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+      expiresAt TEXT NOT NULL,
+      lastSeenAt TEXT DEFAULT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON auth_sessions(userId);
+
+    -- Append-only record of human actions. tweetId has no foreign key so entries outlive
+    -- deleted tweets; the triggers reject any UPDATE or DELETE.
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      at TEXT NOT NULL DEFAULT (datetime('now')),
+      actor TEXT NOT NULL,
+      action TEXT NOT NULL,
+      tweetId TEXT DEFAULT NULL,
+      target TEXT DEFAULT NULL,
+      oldValue TEXT DEFAULT NULL,
+      newValue TEXT DEFAULT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_audit_log_tweet ON audit_log(tweetId, at);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor, at);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_at ON audit_log(at);
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+    BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+    BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
   `);
 
   // Ensure columns and indexes exist for existing databases (migration-like behavior)
   ensureColumnsAndIndexes(db);
+  ensureSearchIndex(db);
+  seedDefaultSources(db);
 
   return db;
 }
@@ -115,6 +973,61 @@ function ensureColumnsAndIndexes(db: SqliteDatabase): void {
   if (!columnNames.has("goldExampleCorrection")) {
     db.exec("ALTER TABLE tweets ADD COLUMN goldExampleCorrection TEXT DEFAULT NULL");
   }
+  if (!columnNames.has("goldExamplePinned")) {
+    db.exec("ALTER TABLE tweets ADD COLUMN goldExamplePinned INTEGER NOT NULL DEFAULT 0");
+  }
+  for (const column of ["qt", "rejectionReason", "rejectionRule", "provider", "model", "reasoningEffort", "goldExampleNote", "goldExampleTags", "goldExampleAddedAt", "goldExampleExpiresAt"]) {
+    if (!columnNames.has(column)) {
+      db.exec(`ALTER TABLE tweets ADD COLUMN ${column} TEXT DEFAULT NULL`);
+    }
+  }
+  for (const column of ["sourceId", "authorFollowers", "finalQtRevisionId", "currentEvaluationId", "promptVersionId", "calibratedScore"]) {
+    if (!columnNames.has(column)) {
+      db.exec(`ALTER TABLE tweets ADD COLUMN ${column} INTEGER DEFAULT NULL`);
+    }
+  }
+  // metrics, media, referencedTweets and context hold JSON
+  for (const column of [
+    "authorId",
+    "authorUsername",
+    "authorName",
+    "postedAt",
+    "lang",
+    "conversationId",
+    "metrics",
+    "media",
+    "referencedTweets",
+    "context",
+    "modelInput",
+    "publishedTweetId",
+    "publishedUrl",
+    "publishedAt",
+    "finalQt",
+  ]) {
+    if (!columnNames.has(column)) {
+      db.exec(`ALTER TABLE tweets ADD COLUMN ${column} TEXT DEFAULT NULL`);
+    }
+  }
+
+  const evaluationColumns = db.prepare("PRAGMA table_info(evaluations)").all() as Array<{ name: string }>;
+  const evaluationColumnNames = new Set(evaluationColumns.map((c) => c.name));
+  if (!evaluationColumnNames.has("promptVersionId")) {
+    db.exec("ALTER TABLE evaluations ADD COLUMN promptVersionId INTEGER DEFAULT NULL");
+  }
+  if (!evaluationColumnNames.has("shadowOf")) {
+    db.exec("ALTER TABLE evaluations ADD COLUMN shadowOf INTEGER DEFAULT NULL REFERENCES evaluations(id) ON DELETE CASCADE");
+  }
+  if (!evaluationColumnNames.has("calibrationSessionId")) {
+    db.exec("ALTER TABLE evaluations ADD COLUMN calibrationSessionId INTEGER DEFAULT NULL");
+  }
+  const cursorColumns = db.prepare("PRAGMA table_info(x_search_cursors)").all() as Array<{ name: string }>;
+  const cursorColumnNames = new Set(cursorColumns.map((c) => c.name));
+  for (const column of ["untilId", "windowNewestId"]) {
+    if (!cursorColumnNames.has(column)) {
+      db.exec(`ALTER TABLE x_search_cursors ADD COLUMN ${column} TEXT DEFAULT NULL`);
+    }
+  }
+  db.exec("CREATE INDEX IF NOT EXISTS idx_evaluations_shadow ON evaluations(shadowOf) WHERE shadowOf IS NOT NULL");
 
   // Ensure partial index exists for gold example filtering
   const indexes = db.prepare("PRAGMA index_list(tweets)").all() as Array<{ name: string }>;
@@ -122,101 +1035,615 @@ function ensureColumnsAndIndexes(db: SqliteDatabase): void {
   if (!indexNames.has("idx_tweets_gold_example")) {
     db.exec("CREATE INDEX idx_tweets_gold_example ON tweets(goldExampleType) WHERE goldExampleType IS NOT NULL");
   }
-}
+  if (!indexNames.has("idx_tweets_rejection_rule")) {
+    db.exec("CREATE INDEX idx_tweets_rejection_rule ON tweets(rejectionRule) WHERE rejectionRule IS NOT NULL");
+  }
+  if (!indexNames.has("idx_tweets_source")) {
+    db.exec("CREATE INDEX idx_tweets_source ON tweets(sourceId) WHERE sourceId IS NOT NULL");
+  }
+  if (!indexNames.has("idx_tweets_author_username")) {
+    db.exec("CREATE INDEX idx_tweets_author_username ON tweets(authorUsername COLLATE NOCASE)");
+  }
+  if (!indexNames.has("idx_tweets_posted_at")) {
+    db.exec("CREATE INDEX idx_tweets_posted_at ON tweets(postedAt) WHERE postedAt IS NOT NULL");
+  }
+  if (!indexNames.has("idx_tweets_calibrated_score")) {
+    db.exec("CREATE INDEX idx_tweets_calibrated_score ON tweets(calibratedScore) WHERE calibratedScore IS NOT NULL");
+  }
+  // Keyset pagination and range filters; the expressions must match SORT_KEYS
+  for (const [field, name] of [
+    ["updatedAt", "idx_tweets_updated_order"],
+    ["createdAt", "idx_tweets_created_order"],
+    ["postedAt", "idx_tweets_posted_order"],
+    ["score", "idx_tweets_score_order"],
+    ["calibratedScore", "idx_tweets_calibrated_order"],
+  ] as const) {
+    if (!indexNames.has(name)) {
+      db.exec(`CREATE INDEX ${name} ON tweets(${SORT_KEYS[field]}, id)`);
+    }
+  }
+  if (!indexNames.has("idx_tweets_disagreement")) {
+    db.exec(
+      `CREATE INDEX idx_tweets_disagreement ON tweets(${SORT_KEYS.updatedAt}, id) WHERE approved <> (humanDecision = 'APPROVED')`
+    );
+  }
 
-export function createTweetStore() {
-  const db = initDb();
+  // Before the backfills below, which read qt and rejectionReason
+  backfillLegacyDecisionColumns(db);
+  backfillRejectionRules(db);
+  backfillModelDrafts(db);
+  backfillEvaluations(db);
+  seedPromptVersions(db);
+  seedCalibrationSessions(db);
+  backfillCalibratedScores(db);
+  backfillGoldExampleAddedAt(db);
+}
 
-  const upsertWithDecision = db.prepare(`
-    INSERT INTO tweets (id, text, quote, url, approved, score, updatedAt)
-    VALUES (@id, @text, @quote, @url, @approved, @score, datetime('now'))
-    ON CONFLICT(id) DO UPDATE SET
-      text = excluded.text,
-      quote = excluded.quote,
-      url = excluded.url,
-      approved = excluded.approved,
-      score = excluded.score,
-      updatedAt = datetime('now')
+// tweets_fts mirrors the searchable columns under the tweet's rowid, kept in sync by triggers.
+// VACUUM may renumber tweets' rowids, so the index is rebuilt whenever it has drifted.
+function ensureSearchIndex(db: SqliteDatabase): void {
+  const columns = SEARCH_COLUMNS.join(", ");
+  const newValues = SEARCH_COLUMNS.map((c) => `new.${c}`).join(", ");
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS tweets_fts USING fts5(
+      tweetId UNINDEXED, ${columns}, tokenize = 'unicode61 remove_diacritics 2'
+    );
+    CREATE TRIGGER IF NOT EXISTS tweets_fts_insert AFTER INSERT ON tweets BEGIN
+      INSERT INTO tweets_fts (rowid, tweetId, ${columns}) VALUES (new.rowid, new.id, ${newValues});
+    END;
+    CREATE TRIGGER IF NOT EXISTS tweets_fts_delete AFTER DELETE ON tweets BEGIN
+      DELETE FROM tweets_fts WHERE rowid = old.rowid;
+    END;
+    CREATE TRIGGER IF NOT EXISTS tweets_fts_update AFTER UPDATE OF ${columns} ON tweets BEGIN
+      DELETE FROM tweets_fts WHERE rowid = old.rowid;
+      INSERT INTO tweets_fts (rowid, tweetId, ${columns}) VALUES (new.rowid, new.id, ${newValues});
+    END;
   `);
 
-  const insertRaw = db.prepare(`
-    INSERT INTO tweets (id, text, url)
-    VALUES (@id, @text, @url)
-    ON CONFLICT(id) DO UPDATE SET
-      text = excluded.text,
-      url = excluded.url
-  `);
+  const counts = db
+    .prepare(
+      `SELECT (SELECT COUNT(*) FROM tweets) AS tweets,
+         (SELECT COUNT(*) FROM tweets_fts) AS indexed,
+         (SELECT COUNT(*) FROM tweets_fts f JOIN tweets t ON t.rowid = f.rowid AND t.id = f.tweetId) AS matching`
+    )
+    .get() as { tweets: number; indexed: number; matching: number };
+  if (counts.matching === counts.tweets && counts.indexed === counts.tweets) {
+    return;
+  }
+  db.transaction(() => {
+    db.exec(`
+      DELETE FROM tweets_fts;
+      INSERT INTO tweets_fts (rowid, tweetId, ${columns}) SELECT rowid, id, ${columns} FROM tweets;
+    `);
+  })();
+}
 
-  return {
-    saveRaw(tweet: TweetRawInput) {
-      insertRaw.run(tweet);
-    },
-    save(decision: TweetDecisionInput) {
-      upsertWithDecision.run({
-        ...decision,
-        approved: decision.approved ? 1 : 0,
-      });
-    },
-    list(filters: TweetFilters = {}, pagination?: PaginationOptions, sort?: SortOptions) {
-      const normalizedPagination = normalizePagination(pagination);
-      const where: string[] = [];
-      const params: Record<string, unknown> = {};
+// Add the built-in sources once; deleting them later is respected
+function seedDefaultSources(db: SqliteDatabase): void {
+  const seeded = db.prepare("SELECT value FROM config WHERE key = ?").get(SOURCES_SEEDED_KEY);
+  if (seeded) {
+    return;
+  }
 
-      if (filters.hasModelDecision === true) {
-        where.push("approved IS NOT NULL");
-      } else if (filters.hasModelDecision === false) {
-        where.push("approved IS NULL");
-      }
+  const insert = db.prepare(
+    "INSERT OR IGNORE INTO sources (name, type, value) VALUES (@name, @type, @value)"
+  );
+  db.transaction(() => {
+    for (const source of DEFAULT_SOURCES) {
+      insert.run({ name: source.name, type: source.type, value: source.value });
+    }
+    db.prepare("INSERT OR REPLACE INTO config (key, value) VALUES (?, '1')").run(SOURCES_SEEDED_KEY);
+  })();
+}
 
-      if (typeof filters.approved === "boolean") {
-        where.push("approved = @approved");
-        params.approved = filters.approved ? 1 : 0;
-      }
+// Split the QT and rejection reason out of legacy `quote` text, as migration 008 does
+// (cheap no-op once every legacy row has them)
+function backfillLegacyDecisionColumns(db: SqliteDatabase): void {
+  db.exec(`
+    UPDATE tweets
+    SET rejectionReason = trim(substr(quote, length('Rejected:') + 1))
+    WHERE approved = 0 AND quote LIKE 'Rejected:%' AND rejectionReason IS NULL;
 
-      if (
-        filters.humanDecision === "APPROVED" ||
-        filters.humanDecision === "REJECTED"
-      ) {
-        where.push("humanDecision = @humanDecision");
-        params.humanDecision = filters.humanDecision;
-      } else if (filters.humanDecision === "UNSET") {
-        where.push("humanDecision IS NULL");
-      }
+    UPDATE tweets
+    SET qt = trim(
+      CASE
+        WHEN instr(quote, char(10) || 'Percentile:') > instr(quote, 'QT:')
+          THEN substr(quote, instr(quote, 'QT:') + 3, instr(quote, char(10) || 'Percentile:') - instr(quote, 'QT:') - 3)
+        ELSE substr(quote, instr(quote, 'QT:') + 3)
+      END
+    )
+    WHERE approved = 1 AND instr(quote, 'QT:') > 0 AND qt IS NULL;
+  `);
+}
 
-      if (filters.goldExampleType) {
-        where.push("goldExampleType = @goldExampleType");
-        params.goldExampleType = filters.goldExampleType;
-      } else if (filters.hasGoldExample === true) {
-        where.push("goldExampleType IS NOT NULL");
-      } else if (filters.hasGoldExample === false) {
-        where.push("goldExampleType IS NULL");
-      }
+// Classify rejections saved before rule categories existed (cheap no-op once every row is tagged)
+function backfillRejectionRules(db: SqliteDatabase): void {
+  const rows = db
+    .prepare("SELECT id, quote, rejectionReason FROM tweets WHERE approved = 0 AND rejectionRule IS NULL")
+    .all() as Array<{ id: string; quote: string; rejectionReason: string | null }>;
+  if (rows.length === 0) {
+    return;
+  }
 
-      const baseQuery = `
-        FROM tweets
-        ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
-      `;
+  const update = db.prepare("UPDATE tweets SET rejectionRule = @rule WHERE id = @id");
+  db.transaction(() => {
+    for (const row of rows) {
+      update.run({ id: row.id, rule: classifyRejection(row.rejectionReason ?? row.quote) });
+    }
+  })();
+}
 
-      // Build ORDER BY clause
-      const orderBy = sort?.orderBy ?? "updatedAt";
-      const orderDir = sort?.orderDir ?? "desc";
-      const dirSql = orderDir === "asc" ? "ASC" : "DESC";
-      let orderBySql: string;
-      switch (orderBy) {
-        case "score":
-          orderBySql = `score ${dirSql}`;
-          break;
-        case "createdAt":
-          orderBySql = `datetime(createdAt) ${dirSql}`;
-          break;
-        case "updatedAt":
-        default:
-          orderBySql = `datetime(COALESCE(updatedAt, createdAt)) ${dirSql}`;
-          break;
+// Record the stored model QT as the first draft of tweets decided before revisions existed
+function backfillModelDrafts(db: SqliteDatabase): void {
+  db.exec(`
+    INSERT INTO qt_revisions (tweetId, text, source, author, createdAt)
+    SELECT id, qt, 'model', COALESCE(model, 'model'), COALESCE(updatedAt, createdAt)
+    FROM tweets t
+    WHERE qt IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM qt_revisions r WHERE r.tweetId = t.id)
+  `);
+}
+
+// The prompt in src/prompt.ts becomes v1 (and the active version) of an empty prompt_versions table
+function seedPromptVersions(db: SqliteDatabase): void {
+  const count = db.prepare("SELECT COUNT(*) AS count FROM prompt_versions").get() as { count: number };
+  if (count.count > 0) {
+    return;
+  }
+  db.transaction(() => {
+    const result = db
+      .prepare(
+        "INSERT INTO prompt_versions (body, note, author, activatedAt) VALUES (@body, @note, NULL, datetime('now'))"
+      )
+      .run({ body: builtInPrompt, note: "Seeded from src/prompt.ts" });
+    db.prepare("INSERT OR REPLACE INTO config (key, value) VALUES (?, ?)").run(
+      ACTIVE_PROMPT_VERSION_KEY,
+      String(result.lastInsertRowid)
+    );
+  })();
+}
+
+// Examples marked before the date was tracked; their last update is the best estimate
+function backfillGoldExampleAddedAt(db: SqliteDatabase): void {
+  db.exec(`
+    UPDATE tweets SET goldExampleAddedAt = COALESCE(updatedAt, createdAt)
+    WHERE goldExampleType IS NOT NULL AND goldExampleAddedAt IS NULL
+  `);
+}
+
+// Approved tweets decided before calibrated scores existed (cheap no-op once they all have one)
+function backfillCalibratedScores(db: SqliteDatabase): void {
+  const missing = db
+    .prepare("SELECT 1 FROM tweets WHERE approved = 1 AND calibratedScore IS NULL LIMIT 1")
+    .get();
+  if (missing) {
+    calibrateScores(db, resolveCalibrationReference());
+  }
+}
+
+// Set calibratedScore to the mid-rank percentile of each approved tweet's raw score within
+// the reference set: (reference scores below + half of those equal) / reference size.
+// Rejected tweets get NULL. Scores are 0-100, so the grouped reference stays tiny.
+function calibrateScores(db: SqliteDatabase, reference: CalibrationReference, tweetId?: string): number {
+  const referenceWhere = reference === "human"
+    ? "approved = 1 AND humanDecision = 'APPROVED'"
+    : "approved = 1";
+  return db
+    .prepare(
+      `
+      WITH ref AS MATERIALIZED (
+        SELECT score, COUNT(*) AS n FROM tweets WHERE ${referenceWhere} GROUP BY score
+      )
+      UPDATE tweets
+      SET calibratedScore = CASE WHEN approved = 1 THEN (
+        SELECT CAST(ROUND(
+          100.0 * (SUM(CASE WHEN ref.score < tweets.score THEN ref.n ELSE 0 END)
+            + 0.5 * SUM(CASE WHEN ref.score = tweets.score THEN ref.n ELSE 0 END)) / SUM(ref.n)
+        ) AS INTEGER)
+        FROM ref
+      ) END
+      WHERE approved IS NOT NULL ${tweetId ? "AND id = @tweetId" : ""}
+    `
+    )
+    .run(tweetId ? { tweetId } : {}).changes;
+}
+
+// Create the "default" session once, taking over the old global chain head
+function seedCalibrationSessions(db: SqliteDatabase): void {
+  const count = db.prepare("SELECT COUNT(*) AS count FROM calibration_sessions").get() as { count: number };
+  if (count.count > 0) {
+    return;
+  }
+  db.transaction(() => {
+    const getConfig = db.prepare("SELECT value FROM config WHERE key = ?").pluck();
+    const result = db
+      .prepare(
+        "INSERT INTO calibration_sessions (name, headResponseId, promptVersionId) VALUES ('default', @head, @promptVersionId)"
+      )
+      .run({
+        head: (getConfig.get(LEGACY_RESPONSE_ID_KEY) as string | undefined) ?? null,
+        promptVersionId: Number(getConfig.get(ACTIVE_PROMPT_VERSION_KEY)) || null,
+      });
+    db.prepare("INSERT OR REPLACE INTO config (key, value) VALUES (?, ?)").run(
+      ACTIVE_CALIBRATION_SESSION_KEY,
+      String(result.lastInsertRowid)
+    );
+    db.prepare("DELETE FROM config WHERE key = ?").run(LEGACY_RESPONSE_ID_KEY);
+  })();
+}
+
+// Copy decisions made before the evaluations table existed into it, so every decided
+// tweet has a current evaluation (cheap no-op once they all do)
+function backfillEvaluations(db: SqliteDatabase): void {
+  db.transaction(() => {
+    db.exec(`
+      INSERT INTO evaluations (tweetId, provider, model, reasoningEffort, modelInput, approved, score, quote, qt, rejectionReason, rejectionRule, createdAt)
+      SELECT id, provider, model, reasoningEffort, modelInput, approved, score, quote, qt, rejectionReason, rejectionRule, COALESCE(updatedAt, createdAt)
+      FROM tweets
+      WHERE approved IS NOT NULL AND currentEvaluationId IS NULL
+    `);
+    db.exec(`
+      UPDATE tweets
+      SET currentEvaluationId = (SELECT MAX(e.id) FROM evaluations e WHERE e.tweetId = tweets.id)
+      WHERE approved IS NOT NULL AND currentEvaluationId IS NULL
+    `);
+  })();
+}
+
+export function createTweetStore() {
+  const db = initDb();
+
+  const upsertWithDecision = db.prepare(`
+    INSERT INTO tweets (id, text, quote, qt, rejectionReason, rejectionRule, url, approved, score, provider, model, reasoningEffort, modelInput, currentEvaluationId, promptVersionId, updatedAt)
+    VALUES (@id, @text, @quote, @qt, @rejectionReason, @rejectionRule, @url, @approved, @score, @provider, @model, @reasoningEffort, @modelInput, @evaluationId, @promptVersionId, datetime('now'))
+    ON CONFLICT(id) DO UPDATE SET
+      text = excluded.text,
+      quote = excluded.quote,
+      qt = excluded.qt,
+      rejectionReason = excluded.rejectionReason,
+      rejectionRule = excluded.rejectionRule,
+      url = excluded.url,
+      approved = excluded.approved,
+      score = excluded.score,
+      provider = excluded.provider,
+      model = excluded.model,
+      reasoningEffort = excluded.reasoningEffort,
+      modelInput = excluded.modelInput,
+      currentEvaluationId = excluded.currentEvaluationId,
+      promptVersionId = excluded.promptVersionId,
+      updatedAt = datetime('now')
+  `);
+
+  function getPromptVersion(id: number): PromptVersion | null {
+    const row = db
+      .prepare(`SELECT ${PROMPT_VERSION_COLUMNS} FROM prompt_versions WHERE id = @id`)
+      .get({ id }) as PromptVersion | undefined;
+    return row ?? null;
+  }
+
+  function getCalibrationSession(id: number): CalibrationSession | null {
+    const row = db
+      .prepare(`SELECT ${CALIBRATION_SESSION_COLUMNS} FROM calibration_sessions WHERE id = @id`)
+      .get({ id }) as CalibrationSession | undefined;
+    return row ?? null;
+  }
+
+  function recordAudit(entry: AuditEntryInput) {
+    db.prepare(
+      `INSERT INTO audit_log (actor, action, tweetId, target, oldValue, newValue)
+       VALUES (@actor, @action, @tweetId, @target, @oldValue, @newValue)`
+    ).run({
+      actor: entry.actor,
+      action: entry.action,
+      tweetId: entry.tweetId ?? null,
+      target: entry.target ?? null,
+      oldValue: entry.oldValue === undefined ? null : JSON.stringify(entry.oldValue),
+      newValue: entry.newValue === undefined ? null : JSON.stringify(entry.newValue),
+    });
+  }
+
+  // The human-action mutators below log to audit_log in the same transaction, and only
+  // when the value actually changes.
+  // Only recordVote() and rederiveHumanDecisions() set humanDecision, from the votes
+  function updateHumanDecision(id: string, decision: HumanDecision | null, actor: string) {
+    db.transaction(() => {
+      const before = db.prepare("SELECT humanDecision FROM tweets WHERE id = @id").get({ id }) as
+        | { humanDecision: HumanDecision | null }
+        | undefined;
+      db.prepare(
+        `
+        UPDATE tweets
+        SET humanDecision = @decision, updatedAt = datetime('now')
+        WHERE id = @id
+      `
+      ).run({ id, decision });
+      if (before && before.humanDecision !== decision) {
+        recordAudit({ actor, action: "tweet.human-decision", tweetId: id, oldValue: before.humanDecision, newValue: decision });
+      }
+    })();
+  }
+
+  const countVotes = db.prepare(`
+    SELECT COALESCE(SUM(vote = 'APPROVED'), 0) AS approvals, COALESCE(SUM(vote = 'REJECTED'), 0) AS rejections
+    FROM review_votes WHERE tweetId = @tweetId
+  `);
+
+  // With SCORE_CALIBRATION_REFERENCE=human the reference set follows humanDecision, so a
+  // changed decision moves the other approved tweets' percentiles too
+  function recalibrateAfterHumanDecisions() {
+    const reference = resolveCalibrationReference();
+    if (reference === "human") {
+      calibrateScores(db, reference);
+    }
+  }
+
+  // Records the reviewer's vote (a null vote withdraws it) and re-derives the tweet's
+  // humanDecision; null when the tweet doesn't exist
+  function castVote(
+    tweetId: string,
+    reviewer: Reviewer,
+    vote: HumanDecision | null,
+    reason: string | null,
+    rule: ConsensusRule = resolveConsensusRule()
+  ): VoteResult | null {
+    return db.transaction(() => {
+      const result = recordVote(tweetId, reviewer, vote, reason, rule);
+      if (result?.decisionChanged) {
+        recalibrateAfterHumanDecisions();
+      }
+      return result ? result.vote : null;
+    })();
+  }
+
+  // castVote() without the recalibration, for callers that recalibrate once per batch
+  function recordVote(
+    tweetId: string,
+    reviewer: Reviewer,
+    vote: HumanDecision | null,
+    reason: string | null,
+    rule: ConsensusRule
+  ): { vote: VoteResult; decisionChanged: boolean } | null {
+    return db.transaction(() => {
+      const tweet = db.prepare("SELECT humanDecision FROM tweets WHERE id = @id").get({ id: tweetId }) as
+        | { humanDecision: HumanDecision | null }
+        | undefined;
+      if (!tweet) {
+        return null;
+      }
+      const key = { tweetId, userId: reviewer.id };
+      const before = db
+        .prepare("SELECT vote, reason FROM review_votes WHERE tweetId = @tweetId AND userId = @userId")
+        .get(key) as { vote: HumanDecision; reason: string | null } | undefined;
+      if (vote) {
+        db.prepare(
+          `
+          INSERT INTO review_votes (tweetId, userId, vote, reason) VALUES (@tweetId, @userId, @vote, @reason)
+          ON CONFLICT(tweetId, userId) DO UPDATE SET
+            vote = excluded.vote, reason = excluded.reason, updatedAt = datetime('now')
+        `
+        ).run({ ...key, vote, reason });
+      } else {
+        db.prepare("DELETE FROM review_votes WHERE tweetId = @tweetId AND userId = @userId").run(key);
+      }
+      const after = vote ? { vote, reason } : null;
+      if (before?.vote !== after?.vote || before?.reason !== after?.reason) {
+        recordAudit({ actor: reviewer.username, action: "tweet.vote", tweetId, oldValue: before ?? null, newValue: after });
+      }
+
+      const { approvals, rejections } = countVotes.get({ tweetId }) as { approvals: number; rejections: number };
+      const humanDecision = deriveHumanDecision(approvals, rejections, rule);
+      const decisionChanged = humanDecision !== tweet.humanDecision;
+      if (decisionChanged) {
+        updateHumanDecision(tweetId, humanDecision, reviewer.username);
+      }
+      return { vote: { humanDecision, approvals, rejections, myVote: vote }, decisionChanged };
+    })();
+  }
+
+  function setGoldExample(id: string, type: GoldExampleType | null, correction: string | null, actor: string) {
+    db.transaction(() => {
+      const before = db
+        .prepare("SELECT goldExampleType AS type, goldExampleCorrection AS correction FROM tweets WHERE id = @id")
+        .get({ id }) as { type: GoldExampleType | null; correction: string | null } | undefined;
+      // Clearing the example also drops its pin, note, tags and expiry; changing its type re-adds it
+      db.prepare(
+        `
+        UPDATE tweets
+        SET goldExamplePinned = CASE WHEN @type IS NULL THEN 0 ELSE goldExamplePinned END,
+            goldExampleNote = CASE WHEN @type IS NULL THEN NULL ELSE goldExampleNote END,
+            goldExampleTags = CASE WHEN @type IS NULL THEN NULL ELSE goldExampleTags END,
+            goldExampleExpiresAt = CASE WHEN @type IS NULL THEN NULL ELSE goldExampleExpiresAt END,
+            goldExampleAddedAt = CASE
+              WHEN @type IS NULL THEN NULL
+              WHEN goldExampleType IS @type THEN goldExampleAddedAt
+              ELSE datetime('now')
+            END,
+            goldExampleType = @type,
+            goldExampleCorrection = @correction,
+            updatedAt = datetime('now')
+        WHERE id = @id
+      `
+      ).run({ id, type, correction });
+      if (before && (before.type !== type || before.correction !== correction)) {
+        recordAudit({ actor, action: "tweet.gold-example", tweetId: id, oldValue: before, newValue: { type, correction } });
+      }
+    })();
+  }
+
+  // Returns a skip reason, or null once the tweet is updated
+  function applyBulkItem(
+    tweet: BulkTarget,
+    action: BulkAction,
+    actor: Reviewer,
+    rule: ConsensusRule
+  ): string | null {
+    switch (action.type) {
+      case "human-decision":
+        // Casts (or withdraws) the actor's vote
+        if (tweet.myVote === action.decision) {
+          return "unchanged";
+        }
+        recordVote(tweet.id, actor, action.decision, null, rule);
+        return null;
+      case "gold-example":
+        if (tweet.goldExampleType === action.goldExampleType && tweet.goldExampleCorrection === action.correction) {
+          return "unchanged";
+        }
+        setGoldExample(tweet.id, action.goldExampleType, action.correction, actor.username);
+        return null;
+      case "queue": {
+        if (tweet.approved !== null) {
+          return "already has a model decision";
+        }
+        const result = db
+          .prepare(
+            `
+            INSERT INTO processing_queue (tweetId) VALUES (@tweetId)
+            ON CONFLICT(tweetId) DO UPDATE SET
+              status = 'pending', attempts = 0, nextAttemptAt = datetime('now'), updatedAt = datetime('now')
+            WHERE processing_queue.status = 'dead'
+          `
+          )
+          .run({ tweetId: tweet.id });
+        if (result.changes === 0) {
+          return "already queued";
+        }
+        recordAudit({ actor: actor.username, action: "tweet.queue", tweetId: tweet.id });
+        return null;
+      }
+      case "delete": {
+        const published = db
+          .prepare("SELECT 1 FROM publications WHERE tweetId = @id AND status IN ('scheduled','sending','posted')")
+          .get({ id: tweet.id });
+        if (published) {
+          return "has a scheduled or posted publication";
+        }
+        // Evaluations, QT revisions, votes, queue entries and old publications cascade
+        db.prepare("DELETE FROM tweets WHERE id = @id").run({ id: tweet.id });
+        const { id, myVote, ...deleted } = tweet;
+        recordAudit({ actor: actor.username, action: "tweet.delete", tweetId: id, oldValue: deleted });
+        return null;
       }
+    }
+  }
+
+  const insertQtRevision = db.prepare(`
+    INSERT INTO qt_revisions (tweetId, text, source, author)
+    VALUES (@tweetId, @text, @source, @author)
+  `);
+
+  // The first source to find a tweet keeps the credit. Metadata from a source that
+  // knows less (e.g. a feed without follower counts) doesn't wipe what's already stored.
+  const insertRaw = db.prepare(`
+    INSERT INTO tweets (id, text, url, sourceId, authorId, authorUsername, authorName, authorFollowers, postedAt, lang, conversationId, metrics, media, referencedTweets)
+    VALUES (@id, @text, @url, @sourceId, @authorId, @authorUsername, @authorName, @authorFollowers, @postedAt, @lang, @conversationId, @metrics, @media, @referencedTweets)
+    ON CONFLICT(id) DO UPDATE SET
+      text = excluded.text,
+      url = excluded.url,
+      sourceId = COALESCE(tweets.sourceId, excluded.sourceId),
+      authorId = COALESCE(excluded.authorId, tweets.authorId),
+      authorUsername = COALESCE(excluded.authorUsername, tweets.authorUsername),
+      authorName = COALESCE(excluded.authorName, tweets.authorName),
+      authorFollowers = COALESCE(excluded.authorFollowers, tweets.authorFollowers),
+      postedAt = COALESCE(excluded.postedAt, tweets.postedAt),
+      lang = COALESCE(excluded.lang, tweets.lang),
+      conversationId = COALESCE(excluded.conversationId, tweets.conversationId),
+      metrics = COALESCE(excluded.metrics, tweets.metrics),
+      media = COALESCE(excluded.media, tweets.media),
+      referencedTweets = COALESCE(excluded.referencedTweets, tweets.referencedTweets)
+  `);
+
+  return {
+    saveRaw(tweet: TweetRawInput) {
+      insertRaw.run({
+        id: tweet.id,
+        text: tweet.text,
+        url: tweet.url,
+        sourceId: tweet.sourceId ?? null,
+        ...metadataColumns(tweet.metadata),
+      });
+    },
+    // Re-evaluations overwrite `qt`; the draft it replaces stays in qt_revisions
+    save(decision: TweetDecisionInput) {
+      db.transaction(() => {
+        upsertWithDecision.run({
+          ...decision,
+          approved: decision.approved ? 1 : 0,
+        });
+        if (decision.qt) {
+          insertQtRevision.run({
+            tweetId: decision.id,
+            text: decision.qt,
+            source: "model",
+            author: `${decision.provider}/${decision.model}`,
+          });
+        }
+        // Against the history so far; recalibrateScores() catches older tweets up
+        calibrateScores(db, resolveCalibrationReference(), decision.id);
+      })();
+    },
+    // Ids of every tweet matching the filters, newest first; at most `limit`
+    listTweetIds(filters: TweetFilters, limit: number): string[] {
+      const { whereSql, params } = buildFilterClause(filters);
+      return db
+        .prepare(
+          `SELECT id FROM tweets ${whereSql}
+           ORDER BY datetime(COALESCE(updatedAt, createdAt)) DESC, id DESC
+           LIMIT @limit`
+        )
+        .pluck()
+        .all({ ...params, limit }) as string[];
+    },
+    // All-or-nothing: a failure on any item rolls back the whole batch
+    applyBulkAction(ids: string[], action: BulkAction, actor: Reviewer): BulkResult {
+      const lookup = db.prepare(
+        `SELECT id, text, approved, humanDecision, goldExampleType, goldExampleCorrection,
+           (SELECT vote FROM review_votes v WHERE v.tweetId = tweets.id AND v.userId = @userId) AS myVote
+         FROM tweets WHERE id = @id`
+      );
+      const rule = resolveConsensusRule();
+      return db.transaction(() => {
+        const results: BulkItemResult[] = [...new Set(ids)].map((id) => {
+          const tweet = lookup.get({ id, userId: actor.id }) as BulkTarget | undefined;
+          if (!tweet) {
+            return { id, status: "not-found" };
+          }
+          const skipped = applyBulkItem(tweet, action, actor, rule);
+          return skipped ? { id, status: "skipped", reason: skipped } : { id, status: "updated" };
+        });
+        const updated = results.filter((r) => r.status === "updated").length;
+        if (action.type === "delete" && updated > 0) {
+          // Removed approvals shift everyone else's percentile
+          calibrateScores(db, resolveCalibrationReference());
+        } else if (action.type === "human-decision" && updated > 0) {
+          recalibrateAfterHumanDecisions();
+        }
+        return {
+          action: action.type,
+          updated,
+          skipped: results.filter((r) => r.status === "skipped").length,
+          notFound: results.filter((r) => r.status === "not-found").length,
+          results,
+        };
+      })();
+    },
+    // Recompute every calibrated score against the current history
+    recalibrateScores(reference: CalibrationReference = resolveCalibrationReference()): { updated: number; reference: CalibrationReference } {
+      return { updated: db.transaction(() => calibrateScores(db, reference))(), reference };
+    },
+    list(filters: TweetFilters = {}, pagination?: PaginationOptions, sort?: SortOptions) {
+      const normalizedPagination = normalizePagination(pagination);
+      const { whereSql, params } = buildFilterClause(filters);
+
+      const baseQuery = `
+        FROM tweets
+        ${whereSql}
+      `;
+
+      const orderBySql = orderByClause(sort?.orderBy ?? "updatedAt", sort?.orderDir ?? "desc");
 
       const sql = `
-        SELECT id, text, quote, url, approved, score, createdAt, updatedAt, humanDecision, goldExampleType, goldExampleCorrection
+        SELECT ${TWEET_COLUMNS}
         ${baseQuery}
         ORDER BY ${orderBySql}
         LIMIT @limit OFFSET @offset
@@ -226,33 +1653,13 @@ export function createTweetStore() {
         ...params,
         limit: normalizedPagination.limit,
         offset: normalizedPagination.offset,
-      }) as Array<{
-        id: string;
-        text: string;
-        quote: string;
-        url: string;
-        approved: number | null;
-        score: number;
-        createdAt: string;
-        updatedAt: string | null;
-        humanDecision: HumanDecision | null;
-        goldExampleType: GoldExampleType | null;
-        goldExampleCorrection: string | null;
-      }>;
+      }) as TweetRow[];
 
       const totalRow = db
         .prepare(`SELECT COUNT(*) as total ${baseQuery}`)
         .get(params) as { total: number };
 
-      const tweets = rows.map((row) => ({
-        ...row,
-        approved: row.approved === null ? null : Boolean(row.approved),
-        score: Number(row.score) || 0,
-        updatedAt: row.updatedAt ?? null,
-        humanDecision: row.humanDecision ?? null,
-        goldExampleType: row.goldExampleType ?? null,
-        goldExampleCorrection: row.goldExampleCorrection ?? null,
-      }));
+      const tweets = rows.map(toTweetRecord);
 
       return {
         tweets,
@@ -261,121 +1668,1585 @@ export function createTweetStore() {
         pageSize: normalizedPagination.pageSize,
       };
     },
+    // Keyset pages: only the page's own rows are read, and rows arriving meanwhile don't shift them
+    listByCursor(filters: TweetFilters = {}, options: CursorPageOptions = {}, sort?: SortOptions): CursorPage {
+      const { pageSize } = normalizePagination({ pageSize: options.pageSize });
+      const orderBy = sort?.orderBy ?? "updatedAt";
+      const orderDir = sort?.orderDir ?? "desc";
+      const cursor = options.cursor ?? null;
+      const { whereSql, params } = buildFilterClause(filters);
+
+      let pageSql = `${whereSql} ORDER BY ${orderByClause(orderBy, orderDir)}`;
+      let pageParams = params;
+      if (cursor) {
+        const clause = cursorClause(cursor);
+        pageSql = `${whereSql ? `${whereSql} AND` : "WHERE"} ${clause.conditionSql} ORDER BY ${clause.orderSql}`;
+        pageParams = { ...params, ...clause.params };
+      }
+      // One extra row tells whether there is another page in the scan direction
+      const rows = db
+        .prepare(`SELECT ${TWEET_COLUMNS}, ${SORT_KEYS[orderBy]} AS sortKey FROM tweets ${pageSql} LIMIT @limit`)
+        .all({ ...pageParams, limit: pageSize + 1 }) as (TweetRow & { sortKey: string | number | null })[];
+      const more = rows.length > pageSize;
+      const page = rows.slice(0, pageSize);
+      if (cursor?.before) {
+        page.reverse();
+      }
+
+      const hasNext = cursor?.before ? true : more;
+      const hasPrevious = cursor?.before ? more : cursor !== null;
+      // Paging back to the first page lands on offset 0 whatever the cursor said
+      const offset = cursor && hasPrevious ? cursor.offset : 0;
+      const cursorAt = (row: (typeof rows)[number], before: boolean, rowOffset: number) =>
+        encodeCursor({ orderBy, orderDir, key: row.sortKey, id: row.id, offset: rowOffset, before });
+      const first = page[0];
+      const last = page[page.length - 1];
+
+      const total = options.withTotal
+        ? (db.prepare(`SELECT COUNT(*) FROM tweets ${whereSql}`).pluck().get(params) as number)
+        : null;
+
+      return {
+        tweets: page.map(({ sortKey, ...row }) => toTweetRecord(row)),
+        pageSize,
+        offset,
+        total,
+        nextCursor: hasNext && last ? cursorAt(last, false, offset + page.length) : null,
+        prevCursor: hasPrevious && first ? cursorAt(first, true, Math.max(0, offset - pageSize)) : null,
+      };
+    },
+    // The best-matching fragment of each tweet, matches wrapped in SNIPPET_OPEN/SNIPPET_CLOSE.
+    // With publicSearch, unapproved tweets only take fragments from PUBLIC_SEARCH_COLUMNS.
+    getSearchSnippets(tweetIds: string[], search: string, publicSearch = false): Map<string, string> {
+      const snippets = (query: string, approved: boolean | null) =>
+        db
+          .prepare(
+            `SELECT tweetId, snippet(tweets_fts, -1, @open, @close, '…', 12) AS snippet
+             FROM tweets_fts
+             WHERE tweets_fts MATCH @query
+               AND rowid IN (
+                 SELECT rowid FROM tweets
+                 WHERE id IN (SELECT value FROM json_each(@tweetIds))
+                   ${approved === null ? "" : "AND (approved IS 1) = @approved"}
+               )`
+          )
+          .all({
+            query,
+            open: SNIPPET_OPEN,
+            close: SNIPPET_CLOSE,
+            tweetIds: JSON.stringify(tweetIds),
+            approved: approved ? 1 : 0,
+          }) as { tweetId: string; snippet: string }[];
+      const rows = publicSearch
+        ? [...snippets(search, true), ...snippets(restrictToColumns(search, PUBLIC_SEARCH_COLUMNS), false)]
+        : snippets(search, null);
+      return new Map(rows.map((row) => [row.tweetId, row.snippet]));
+    },
     get(id: string): TweetRecord | null {
       const row = db
         .prepare(
           `
-        SELECT id, text, quote, url, approved, score, createdAt, updatedAt, humanDecision, goldExampleType, goldExampleCorrection
+        SELECT ${TWEET_COLUMNS}
         FROM tweets
         WHERE id = @id
       `
         )
-        .get({ id }) as
-        | {
-            id: string;
-            text: string;
-            quote: string;
-            url: string;
-            approved: number | null;
-            score: number;
-            createdAt: string;
-            updatedAt: string | null;
-            humanDecision: HumanDecision | null;
-            goldExampleType: GoldExampleType | null;
-            goldExampleCorrection: string | null;
-          }
-        | undefined;
+        .get({ id }) as TweetRow | undefined;
 
       if (!row) {
         return null;
       }
 
-      return {
-        ...row,
-        approved: row.approved === null ? null : Boolean(row.approved),
-        score: Number(row.score) || 0,
-        updatedAt: row.updatedAt ?? null,
-        humanDecision: row.humanDecision ?? null,
-        goldExampleType: row.goldExampleType ?? null,
-        goldExampleCorrection: row.goldExampleCorrection ?? null,
-      };
+      return toTweetRecord(row);
     },
-    updateHumanDecision(id: string, decision: HumanDecision | null) {
-      db.prepare(
-        `
-        UPDATE tweets
-        SET humanDecision = @decision, updatedAt = datetime('now')
-        WHERE id = @id
-      `
-      ).run({ id, decision });
+    castVote,
+    listVotes(tweetId: string): ReviewVote[] {
+      return db
+        .prepare(
+          `SELECT ${REVIEW_VOTE_COLUMNS} FROM review_votes v JOIN users u ON u.id = v.userId
+           WHERE v.tweetId = @tweetId
+           ORDER BY COALESCE(v.updatedAt, v.createdAt) DESC`
+        )
+        .all({ tweetId }) as ReviewVote[];
+    },
+    // Vote counts for a page of tweets; tweets without votes are left out
+    getVoteSummaries(tweetIds: string[], userId: number): Map<string, VoteSummary> {
+      const rows = db
+        .prepare(
+          `SELECT tweetId,
+             SUM(vote = 'APPROVED') AS approvals,
+             SUM(vote = 'REJECTED') AS rejections,
+             MAX(CASE WHEN userId = @userId THEN vote END) AS myVote
+           FROM review_votes
+           WHERE tweetId IN (SELECT value FROM json_each(@tweetIds))
+           GROUP BY tweetId`
+        )
+        .all({ tweetIds: JSON.stringify(tweetIds), userId }) as (VoteSummary & { tweetId: string })[];
+      return new Map(rows.map(({ tweetId, ...summary }) => [tweetId, summary]));
+    },
+    // Re-applies the rule to every tweet with votes, e.g. after CONSENSUS_* changes;
+    // returns how many decisions changed
+    rederiveHumanDecisions(rule: ConsensusRule = resolveConsensusRule()): number {
+      const rows = db
+        .prepare(
+          `SELECT t.id, t.humanDecision,
+             SUM(v.vote = 'APPROVED') AS approvals,
+             SUM(v.vote = 'REJECTED') AS rejections
+           FROM tweets t JOIN review_votes v ON v.tweetId = t.id
+           GROUP BY t.id`
+        )
+        .all() as { id: string; humanDecision: HumanDecision | null; approvals: number; rejections: number }[];
+      return db.transaction(() => {
+        let changed = 0;
+        for (const row of rows) {
+          const decision = deriveHumanDecision(row.approvals, row.rejections, rule);
+          if (decision !== row.humanDecision) {
+            updateHumanDecision(row.id, decision, "consensus");
+            changed += 1;
+          }
+        }
+        if (changed > 0) {
+          recalibrateAfterHumanDecisions();
+        }
+        return changed;
+      })();
+    },
+    getVoteAgreementTotals(): VoteAgreementTotals {
+      // Pairs are counted within each tweet: n votes make n(n-1)/2 pairs
+      return db
+        .prepare(
+          `WITH per_tweet AS (
+             SELECT tweetId, COUNT(*) AS votes, SUM(vote = 'APPROVED') AS approvals
+             FROM review_votes GROUP BY tweetId HAVING COUNT(*) >= 2
+           )
+           SELECT
+             COUNT(*) AS multiVoteTweets,
+             COALESCE(SUM(approvals = 0 OR approvals = votes), 0) AS unanimous,
+             COALESCE(SUM(approvals > 0 AND approvals < votes), 0) AS contested,
+             COALESCE(SUM(votes * (votes - 1) / 2), 0) AS votePairs,
+             COALESCE(SUM(approvals * (approvals - 1) / 2 + (votes - approvals) * (votes - approvals - 1) / 2), 0) AS agreeingPairs
+           FROM per_tweet`
+        )
+        .get() as VoteAgreementTotals;
+    },
+    // Most active reviewers first
+    getReviewerVoteCounts(): ReviewerVoteCounts[] {
+      return db
+        .prepare(
+          `SELECT u.username,
+             COUNT(*) AS votes,
+             SUM(v.vote = 'APPROVED') AS approvals,
+             SUM(t.humanDecision IS NOT NULL) AS decided,
+             COALESCE(SUM(v.vote = t.humanDecision), 0) AS matchingDecision,
+             SUM(t.approved IS NOT NULL) AS modelCompared,
+             COALESCE(SUM((t.approved = 1) = (v.vote = 'APPROVED')), 0) AS matchingModel
+           FROM review_votes v
+           JOIN users u ON u.id = v.userId
+           JOIN tweets t ON t.id = v.tweetId
+           GROUP BY v.userId
+           ORDER BY votes DESC, u.username`
+        )
+        .all() as ReviewerVoteCounts[];
+    },
+    // Every pair of reviewers who voted on at least one common tweet
+    getReviewerPairCounts(): ReviewerPairCounts[] {
+      return db
+        .prepare(
+          `SELECT ua.username AS first, ub.username AS second,
+             COUNT(*) AS shared,
+             SUM(a.vote = b.vote) AS agreed,
+             SUM(a.vote = 'APPROVED') AS firstApprovals,
+             SUM(b.vote = 'APPROVED') AS secondApprovals
+           FROM review_votes a
+           JOIN review_votes b ON b.tweetId = a.tweetId AND b.userId > a.userId
+           JOIN users ua ON ua.id = a.userId
+           JOIN users ub ON ub.id = b.userId
+           GROUP BY a.userId, b.userId
+           ORDER BY shared DESC, first, second`
+        )
+        .all() as ReviewerPairCounts[];
     },
     has(id: string): boolean {
       const row = db.prepare("SELECT 1 FROM tweets WHERE id = @id").get({ id });
       return !!row;
     },
+    saveContext(id: string, context: TweetContext) {
+      db.prepare("UPDATE tweets SET context = @context WHERE id = @id").run({
+        id,
+        context: JSON.stringify(context),
+      });
+    },
     hasModelDecision(id: string): boolean {
       const row = db
         .prepare("SELECT 1 FROM tweets WHERE id = @id AND approved IS NOT NULL")
         .get({ id });
       return !!row;
     },
-    setGoldExample(id: string, type: GoldExampleType | null, correction?: string | null) {
-      db.prepare(
+    setGoldExample,
+    // Curation metadata only; does not touch updatedAt, which orders the "recent" selection
+    // `expiresAt` is any date SQLite parses; returns the stored details, or null for anything but a gold example
+    updateGoldExampleDetails(id: string, details: GoldExampleDetails, actor: string): GoldExampleDetails | null {
+      return db.transaction(() => {
+        const before = db
+          .prepare(
+            `SELECT goldExampleNote AS note, goldExampleTags AS tags, goldExampleExpiresAt AS expiresAt
+             FROM tweets WHERE id = @id AND goldExampleType IS NOT NULL`
+          )
+          .get({ id }) as { note: string | null; tags: string | null; expiresAt: string | null } | undefined;
+        if (!before) {
+          return null;
+        }
+        const tags = details.tags.length ? JSON.stringify(details.tags) : null;
+        const expiresAt = db
+          .prepare(
+            `UPDATE tweets SET goldExampleNote = @note, goldExampleTags = @tags, goldExampleExpiresAt = datetime(@expiresAt)
+             WHERE id = @id RETURNING goldExampleExpiresAt`
+          )
+          .pluck()
+          .get({ id, note: details.note, tags, expiresAt: details.expiresAt }) as string | null;
+        const after = { ...details, expiresAt };
+        if (before.note !== details.note || before.tags !== tags || before.expiresAt !== expiresAt) {
+          recordAudit({
+            actor,
+            action: "tweet.gold-example-details",
+            tweetId: id,
+            oldValue: { note: before.note, tags: before.tags ? JSON.parse(before.tags) : [], expiresAt: before.expiresAt },
+            newValue: after,
+          });
+        }
+        return after;
+      })();
+    },
+    // How often each gold example went into a production prompt since it was added
+    getGoldExampleUsage(): GoldExampleUsage[] {
+      return db
+        .prepare(
+          `
+          SELECT
+            t.id AS tweetId,
+            COUNT(DISTINCT used.evaluationId) AS injected,
+            MAX(used.createdAt) AS lastInjectedAt,
+            (
+              SELECT COUNT(*) FROM evaluations e
+              WHERE e.shadowOf IS NULL AND e.createdAt >= t.goldExampleAddedAt AND e.tweetId != t.id
+            ) AS evaluationsSinceAdded
+          FROM tweets t
+          LEFT JOIN (
+            SELECT e.id AS evaluationId, e.createdAt, je.value ->> '$.tweetId' AS tweetId
+            FROM evaluations e, json_each(e.examples) je
+            WHERE e.shadowOf IS NULL AND e.examples IS NOT NULL
+          ) used ON used.tweetId = t.id AND used.createdAt >= t.goldExampleAddedAt
+          WHERE t.goldExampleType IS NOT NULL
+          GROUP BY t.id
         `
-        UPDATE tweets
-        SET goldExampleType = @type,
-            goldExampleCorrection = @correction,
-            updatedAt = datetime('now')
-        WHERE id = @id
-      `
-      ).run({ id, type, correction: correction ?? null });
+        )
+        .all() as GoldExampleUsage[];
+    },
+    // Production decisions in the `size` calls just before or after `at`, leaving out `excludeTweetId`
+    getDecisionWindow(at: string, side: "before" | "after", size: number, excludeTweetId: string): DecisionWindow {
+      return db
+        .prepare(
+          `
+          WITH calls AS (
+            SELECT e.approved, t.humanDecision
+            FROM evaluations e
+            JOIN tweets t ON t.id = e.tweetId
+            WHERE e.shadowOf IS NULL AND e.approved IS NOT NULL AND e.tweetId != @excludeTweetId
+              AND ${side === "before" ? "e.createdAt < @at" : "e.createdAt >= @at"}
+            ORDER BY e.createdAt ${side === "before" ? "DESC" : "ASC"}, e.id ${side === "before" ? "DESC" : "ASC"}
+            LIMIT @size
+          )
+          SELECT
+            COUNT(*) AS evaluations,
+            AVG(approved) AS approvalRate,
+            COUNT(humanDecision) AS labeled,
+            AVG(CASE WHEN humanDecision IS NULL THEN NULL ELSE (approved = 1) = (humanDecision = 'APPROVED') END) AS humanAgreement
+          FROM calls
+        `
+        )
+        .get({ at, size, excludeTweetId }) as DecisionWindow;
+    },
+    // Only gold examples can be pinned; returns false for anything else
+    setGoldExamplePinned(id: string, pinned: boolean, actor: string): boolean {
+      return db.transaction(() => {
+        const before = db
+          .prepare("SELECT goldExamplePinned FROM tweets WHERE id = @id AND goldExampleType IS NOT NULL")
+          .pluck()
+          .get({ id }) as number | undefined;
+        if (before === undefined) {
+          return false;
+        }
+        db.prepare("UPDATE tweets SET goldExamplePinned = @pinned WHERE id = @id").run({ id, pinned: pinned ? 1 : 0 });
+        if (Boolean(before) !== pinned) {
+          recordAudit({ actor, action: "tweet.gold-example-pin", tweetId: id, oldValue: Boolean(before), newValue: pinned });
+        }
+        return true;
+      })();
     },
     getGoldExamples(type?: GoldExampleType): TweetRecord[] {
       const sql = type
-        ? `SELECT id, text, quote, url, approved, score, createdAt, updatedAt, humanDecision, goldExampleType, goldExampleCorrection
+        ? `SELECT ${TWEET_COLUMNS}
            FROM tweets WHERE goldExampleType = @type ORDER BY updatedAt DESC`
-        : `SELECT id, text, quote, url, approved, score, createdAt, updatedAt, humanDecision, goldExampleType, goldExampleCorrection
+        : `SELECT ${TWEET_COLUMNS}
            FROM tweets WHERE goldExampleType IS NOT NULL ORDER BY goldExampleType, updatedAt DESC`;
 
-      const rows = db.prepare(sql).all(type ? { type } : {}) as Array<{
-        id: string;
-        text: string;
-        quote: string;
-        url: string;
-        approved: number | null;
-        score: number;
-        createdAt: string;
-        updatedAt: string | null;
-        humanDecision: HumanDecision | null;
-        goldExampleType: GoldExampleType | null;
-        goldExampleCorrection: string | null;
-      }>;
-
-      return rows.map((row) => ({
-        ...row,
-        approved: row.approved === null ? null : Boolean(row.approved),
-        score: Number(row.score) || 0,
-        updatedAt: row.updatedAt ?? null,
-        humanDecision: row.humanDecision ?? null,
-        goldExampleType: row.goldExampleType ?? null,
-        goldExampleCorrection: row.goldExampleCorrection ?? null,
-      }));
+      const rows = db.prepare(sql).all(type ? { type } : {}) as TweetRow[];
+
+      return rows.map(toTweetRecord);
     },
-    close() {
-      db.close();
+    // Tweets a human has approved or rejected, newest label first; the eval harness replays these
+    getLabeledTweets(limit?: number): TweetRecord[] {
+      const rows = db
+        .prepare(
+          `SELECT ${TWEET_COLUMNS}
+           FROM tweets WHERE humanDecision IS NOT NULL
+           ORDER BY updatedAt DESC, id DESC
+           LIMIT @limit`
+        )
+        .all({ limit: limit ?? -1 }) as TweetRow[];
+
+      return rows.map(toTweetRecord);
     },
-    getConfig(key: string): string | null {
-      const row = db.prepare("SELECT value FROM config WHERE key = @key").get({ key }) as { value: string } | undefined;
-      return row?.value ?? null;
+    enqueue(tweetId: string) {
+      db.prepare(
+        `
+        INSERT INTO processing_queue (tweetId)
+        VALUES (@tweetId)
+        ON CONFLICT(tweetId) DO NOTHING
+      `
+      ).run({ tweetId });
     },
-    setConfig(key: string, value: string | null) {
-      if (value === null) {
-        db.prepare("DELETE FROM config WHERE key = @key").run({ key });
-      } else {
-        db.prepare("INSERT OR REPLACE INTO config (key, value) VALUES (@key, @value)").run({ key, value });
-      }
+    getQueueItem(tweetId: string): QueueItem | null {
+      const row = db
+        .prepare(`SELECT ${QUEUE_COLUMNS} FROM processing_queue WHERE tweetId = @tweetId`)
+        .get({ tweetId }) as QueueItem | undefined;
+      return row ?? null;
     },
-  };
+    // Pending items whose backoff has elapsed, oldest first
+    getDueQueueItems(limit?: number): QueueItem[] {
+      return db
+        .prepare(
+          `
+        SELECT ${QUEUE_COLUMNS}
+        FROM processing_queue
+        WHERE status = 'pending' AND datetime(nextAttemptAt) <= datetime('now')
+        ORDER BY datetime(nextAttemptAt) ASC, createdAt ASC
+        ${limit ? "LIMIT @limit" : ""}
+      `
+        )
+        .all(limit ? { limit } : {}) as QueueItem[];
+    },
+    listQueue(status?: QueueStatus): Array<QueueItem & { text: string; url: string }> {
+      return db
+        .prepare(
+          `
+        SELECT ${prefixColumns("q", QUEUE_COLUMNS)}, t.text, t.url
+        FROM processing_queue q
+        JOIN tweets t ON t.id = q.tweetId
+        ${status ? "WHERE q.status = @status" : ""}
+        ORDER BY datetime(COALESCE(q.updatedAt, q.createdAt)) DESC
+      `
+        )
+        .all(status ? { status } : {}) as Array<QueueItem & { text: string; url: string }>;
+    },
+    // Successful processing removes the item; the decision itself lives on the tweet
+    completeQueueItem(tweetId: string) {
+      db.prepare("DELETE FROM processing_queue WHERE tweetId = @tweetId").run({ tweetId });
+    },
+    // Record a failed attempt: back off exponentially, or dead-letter once attempts run out
+    recordQueueFailure(tweetId: string, failure: QueueFailure, policy: RetryPolicy): QueueItem {
+      const record = db.transaction(() => {
+        db.prepare(
+          `INSERT INTO processing_queue (tweetId) VALUES (@tweetId) ON CONFLICT(tweetId) DO NOTHING`
+        ).run({ tweetId });
+        const current = db
+          .prepare("SELECT attempts FROM processing_queue WHERE tweetId = @tweetId")
+          .get({ tweetId }) as { attempts: number };
+
+        const attempts = current.attempts + 1;
+        const dead = attempts >= policy.maxAttempts;
+        const delaySeconds = backoffDelaySeconds(attempts, policy);
+
+        db.prepare(
+          `
+          UPDATE processing_queue
+          SET status = @status,
+              attempts = @attempts,
+              lastError = @error,
+              lastErrorKind = @kind,
+              rawResponse = COALESCE(@rawResponse, rawResponse),
+              nextAttemptAt = datetime('now', @delay),
+              updatedAt = datetime('now')
+          WHERE tweetId = @tweetId
+        `
+        ).run({
+          tweetId,
+          status: dead ? "dead" : "pending",
+          attempts,
+          error: failure.error,
+          kind: failure.kind,
+          rawResponse: failure.rawResponse ?? null,
+          delay: `+${delaySeconds} seconds`,
+        });
+      });
+      record();
+
+      return db
+        .prepare(`SELECT ${QUEUE_COLUMNS} FROM processing_queue WHERE tweetId = @tweetId`)
+        .get({ tweetId }) as QueueItem;
+    },
+    // Reset a (dead-lettered) item so it is picked up on the next run
+    requeue(tweetId: string): boolean {
+      const result = db
+        .prepare(
+          `
+        UPDATE processing_queue
+        SET status = 'pending', attempts = 0, nextAttemptAt = datetime('now'), updatedAt = datetime('now')
+        WHERE tweetId = @tweetId
+      `
+        )
+        .run({ tweetId });
+      return result.changes > 0;
+    },
+    getQueueCounts(): QueueCounts {
+      const row = db
+        .prepare(
+          `
+        SELECT
+          COALESCE(SUM(status = 'pending'), 0) AS pending,
+          COALESCE(SUM(status = 'pending' AND datetime(nextAttemptAt) <= datetime('now')), 0) AS due,
+          COALESCE(SUM(status = 'dead'), 0) AS dead
+        FROM processing_queue
+      `
+        )
+        .get() as QueueCounts;
+      return row;
+    },
+    // Append a model call to the tweet's history. The tweet must exist (saveRaw first);
+    // pass the returned id to save() to make it the current decision.
+    recordEvaluation(input: EvaluationInput): number {
+      const result = db
+        .prepare(
+          `
+          INSERT INTO evaluations (tweetId, provider, model, reasoningEffort, promptVersionId, promptVersion, examples, previousResponseId, responseId, modelInput, rawResponse, approved, score, quote, qt, rejectionReason, rejectionRule, categories, outputFormat, error, latencyMs, inputTokens, outputTokens, totalTokens, shadowOf, calibrationSessionId)
+          VALUES (@tweetId, @provider, @model, @reasoningEffort, @promptVersionId, @promptVersion, @examples, @previousResponseId, @responseId, @modelInput, @rawResponse, @approved, @score, @quote, @qt, @rejectionReason, @rejectionRule, @categories, @outputFormat, @error, @latencyMs, @inputTokens, @outputTokens, @totalTokens, @shadowOf, @calibrationSessionId)
+        `
+        )
+        .run({
+          tweetId: input.tweetId,
+          provider: input.provider,
+          model: input.model,
+          reasoningEffort: input.reasoningEffort,
+          promptVersionId: input.promptVersionId,
+          promptVersion: input.promptVersion,
+          examples: JSON.stringify(input.examples),
+          previousResponseId: input.previousResponseId,
+          responseId: input.responseId,
+          modelInput: input.modelInput,
+          rawResponse: input.rawResponse,
+          approved: input.approved === undefined ? null : input.approved ? 1 : 0,
+          score: input.score ?? null,
+          quote: input.quote ?? null,
+          qt: input.qt ?? null,
+          rejectionReason: input.rejectionReason ?? null,
+          rejectionRule: input.rejectionRule ?? null,
+          categories: input.categories ? JSON.stringify(input.categories) : null,
+          outputFormat: input.outputFormat ?? null,
+          error: input.error ?? null,
+          latencyMs: input.latencyMs,
+          inputTokens: input.usage?.inputTokens ?? null,
+          outputTokens: input.usage?.outputTokens ?? null,
+          totalTokens: input.usage?.totalTokens ?? null,
+          shadowOf: input.shadowOf ?? null,
+          calibrationSessionId: input.calibrationSessionId ?? null,
+        });
+      return Number(result.lastInsertRowid);
+    },
+    getEvaluation(id: number): Evaluation | null {
+      const row = db.prepare(`SELECT ${EVALUATION_COLUMNS} FROM evaluations WHERE id = ?`).get(id) as EvaluationRow | undefined;
+      return row ? toEvaluation(row) : null;
+    },
+    // Production calls, newest first (shadow calls are listed by listShadowComparisons)
+    listEvaluations(tweetId: string): Evaluation[] {
+      const rows = db
+        .prepare(
+          `SELECT ${EVALUATION_COLUMNS} FROM evaluations
+           WHERE tweetId = @tweetId AND shadowOf IS NULL ORDER BY id DESC`
+        )
+        .all({ tweetId }) as EvaluationRow[];
+      return rows.map(toEvaluation);
+    },
+    // Newest shadow call first. "disagreements" are calls where both sides parsed and the
+    // approve/reject decision differs; "errors" are shadow calls that failed to parse.
+    listShadowComparisons(kind: ShadowComparisonKind = "disagreements", limit = 50, offset = 0): ShadowComparison[] {
+      const condition = {
+        disagreements: "p.approved IS NOT NULL AND s.approved IS NOT NULL AND p.approved != s.approved",
+        errors: "s.approved IS NULL",
+        all: "1 = 1",
+      }[kind];
+      const pairs = db
+        .prepare(
+          `
+          SELECT s.id AS shadowId, p.id AS productionId, t.id AS tweetId, t.text, t.url, t.humanDecision
+          FROM evaluations s
+          JOIN evaluations p ON p.id = s.shadowOf
+          JOIN tweets t ON t.id = s.tweetId
+          WHERE ${condition}
+          ORDER BY s.id DESC
+          LIMIT @limit OFFSET @offset
+        `
+        )
+        .all({ limit, offset }) as Array<Omit<ShadowComparison, "production" | "shadow"> & { shadowId: number; productionId: number }>;
+
+      const getEvaluation = db.prepare(`SELECT ${EVALUATION_COLUMNS} FROM evaluations WHERE id = ?`);
+      return pairs.map(({ shadowId, productionId, ...tweet }) => ({
+        ...tweet,
+        production: toEvaluation(getEvaluation.get(productionId) as EvaluationRow),
+        shadow: toEvaluation(getEvaluation.get(shadowId) as EvaluationRow),
+      }));
+    },
+    recordAudit,
+    // Newest first
+    listAuditLog(filters: AuditFilters = {}, pagination?: PaginationOptions) {
+      const normalizedPagination = normalizePagination(pagination);
+      const conditions: string[] = [];
+      const params: Record<string, unknown> = {};
+      if (filters.tweetId) {
+        conditions.push("tweetId = @tweetId");
+        params.tweetId = filters.tweetId;
+      }
+      if (filters.actor) {
+        conditions.push("actor = @actor COLLATE NOCASE");
+        params.actor = filters.actor;
+      }
+      if (filters.action) {
+        conditions.push("(action = @action OR action LIKE @action || '.%')");
+        params.action = filters.action;
+      }
+      if (filters.from) {
+        conditions.push("at >= datetime(@from)");
+        params.from = filters.from;
+      }
+      if (filters.to) {
+        conditions.push("at < datetime(@to)");
+        params.to = filters.to;
+      }
+      const whereSql = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+      const rows = db
+        .prepare(
+          `SELECT ${AUDIT_COLUMNS} FROM audit_log ${whereSql}
+           ORDER BY at DESC, id DESC
+           LIMIT @limit OFFSET @offset`
+        )
+        .all({ ...params, limit: normalizedPagination.limit, offset: normalizedPagination.offset }) as AuditRow[];
+      const total = db.prepare(`SELECT COUNT(*) FROM audit_log ${whereSql}`).pluck().get(params) as number;
+
+      return {
+        entries: rows.map(toAuditEntry),
+        total,
+        page: normalizedPagination.page,
+        pageSize: normalizedPagination.pageSize,
+      };
+    },
+    countUsers(): number {
+      return db.prepare("SELECT COUNT(*) FROM users").pluck().get() as number;
+    },
+    listUsers(): User[] {
+      const rows = db.prepare(`SELECT ${USER_COLUMNS} FROM users ORDER BY username`).all() as UserRow[];
+      return rows.map(toUser);
+    },
+    getUser(id: number): User | null {
+      const row = db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = @id`).get({ id }) as UserRow | undefined;
+      return row ? toUser(row) : null;
+    },
+    // Null on a duplicate username (case-insensitive)
+    createUser(username: string, passwordHash: string, role: UserRole): User | null {
+      const row = db
+        .prepare(
+          `INSERT INTO users (username, passwordHash, role) VALUES (@username, @passwordHash, @role)
+           ON CONFLICT(username) DO NOTHING
+           RETURNING ${USER_COLUMNS}`
+        )
+        .get({ username, passwordHash, role }) as UserRow | undefined;
+      return row ? toUser(row) : null;
+    },
+    // For login only; never returned by the API
+    getUserCredentials(username: string): { user: User; passwordHash: string } | null {
+      const row = db
+        .prepare(`SELECT ${USER_COLUMNS}, passwordHash FROM users WHERE username = @username`)
+        .get({ username }) as (UserRow & { passwordHash: string }) | undefined;
+      if (!row) {
+        return null;
+      }
+      const { passwordHash, ...user } = row;
+      return { user: toUser(user), passwordHash };
+    },
+    // Disabling a user or changing their password signs them out everywhere
+    updateUser(id: number, update: { role?: UserRole; disabled?: boolean; passwordHash?: string }): User | null {
+      return db.transaction(() => {
+        const row = db
+          .prepare(
+            `UPDATE users SET
+               role = COALESCE(@role, role),
+               disabled = COALESCE(@disabled, disabled),
+               passwordHash = COALESCE(@passwordHash, passwordHash)
+             WHERE id = @id
+             RETURNING ${USER_COLUMNS}`
+          )
+          .get({
+            id,
+            role: update.role ?? null,
+            disabled: update.disabled === undefined ? null : update.disabled ? 1 : 0,
+            passwordHash: update.passwordHash ?? null,
+          }) as UserRow | undefined;
+        if (row && (update.disabled || update.passwordHash)) {
+          db.prepare("DELETE FROM auth_sessions WHERE userId = @id").run({ id });
+        }
+        return row ? toUser(row) : null;
+      })();
+    },
+    createAuthSession(tokenHash: string, userId: number, expiresAt: string) {
+      db.transaction(() => {
+        db.prepare("DELETE FROM auth_sessions WHERE expiresAt <= datetime('now')").run();
+        db.prepare(
+          "INSERT INTO auth_sessions (tokenHash, userId, expiresAt) VALUES (@tokenHash, @userId, @expiresAt)"
+        ).run({ tokenHash, userId, expiresAt });
+        db.prepare("UPDATE users SET lastLoginAt = datetime('now') WHERE id = @userId").run({ userId });
+      })();
+    },
+    // The signed-in user, or null for unknown, expired or disabled sessions
+    getSessionUser(tokenHash: string): User | null {
+      const row = db
+        .prepare(
+          `SELECT ${USER_COLUMNS.split(", ").map((column) => `u.${column}`).join(", ")}
+           FROM auth_sessions s JOIN users u ON u.id = s.userId
+           WHERE s.tokenHash = @tokenHash AND s.expiresAt > datetime('now') AND u.disabled = 0`
+        )
+        .get({ tokenHash }) as UserRow | undefined;
+      if (!row) {
+        return null;
+      }
+      db.prepare("UPDATE auth_sessions SET lastSeenAt = datetime('now') WHERE tokenHash = @tokenHash").run({ tokenHash });
+      return toUser(row);
+    },
+    deleteAuthSession(tokenHash: string) {
+      db.prepare("DELETE FROM auth_sessions WHERE tokenHash = @tokenHash").run({ tokenHash });
+    },
+    getShadowSummary(): ShadowSummary {
+      return db
+        .prepare(
+          `
+          SELECT
+            COALESCE(SUM(p.approved IS NOT NULL AND s.approved IS NOT NULL), 0) AS compared,
+            COALESCE(SUM(p.approved IS NOT NULL AND s.approved IS NOT NULL AND p.approved = s.approved), 0) AS agreed,
+            COALESCE(SUM(p.approved IS NOT NULL AND s.approved IS NOT NULL AND p.approved != s.approved), 0) AS disagreed,
+            COALESCE(SUM(s.approved IS NULL), 0) AS errors
+          FROM evaluations s
+          JOIN evaluations p ON p.id = s.shadowOf
+        `
+        )
+        .get() as ShadowSummary;
+    },
+    // Newest first
+    listPromptVersions(): PromptVersion[] {
+      return db
+        .prepare(`SELECT ${PROMPT_VERSION_COLUMNS} FROM prompt_versions ORDER BY id DESC`)
+        .all() as PromptVersion[];
+    },
+    getPromptVersion,
+    getActivePromptVersion(): PromptVersion | null {
+      const id = Number(db.prepare("SELECT value FROM config WHERE key = ?").pluck().get(ACTIVE_PROMPT_VERSION_KEY));
+      return id ? getPromptVersion(id) : null;
+    },
+    createPromptVersion(input: PromptVersionInput): PromptVersion {
+      const result = db
+        .prepare("INSERT INTO prompt_versions (body, note, author) VALUES (@body, @note, @author)")
+        .run({ body: input.body, note: input.note ?? null, author: input.author ?? null });
+      return getPromptVersion(Number(result.lastInsertRowid))!;
+    },
+    activatePromptVersion(id: number): boolean {
+      return db.transaction(() => {
+        const result = db
+          .prepare("UPDATE prompt_versions SET activatedAt = datetime('now') WHERE id = @id")
+          .run({ id });
+        if (result.changes === 0) {
+          return false;
+        }
+        db.prepare("INSERT OR REPLACE INTO config (key, value) VALUES (?, ?)").run(ACTIVE_PROMPT_VERSION_KEY, String(id));
+        return true;
+      })();
+    },
+    listCalibrationSessions(): CalibrationSession[] {
+      return db
+        .prepare(`SELECT ${CALIBRATION_SESSION_COLUMNS} FROM calibration_sessions ORDER BY id ASC`)
+        .all() as CalibrationSession[];
+    },
+    getCalibrationSession,
+    getCalibrationSessionByName(name: string): CalibrationSession | null {
+      const row = db
+        .prepare(`SELECT ${CALIBRATION_SESSION_COLUMNS} FROM calibration_sessions WHERE name = @name`)
+        .get({ name }) as CalibrationSession | undefined;
+      return row ?? null;
+    },
+    getActiveCalibrationSession(): CalibrationSession | null {
+      const id = Number(db.prepare("SELECT value FROM config WHERE key = ?").pluck().get(ACTIVE_CALIBRATION_SESSION_KEY));
+      return id ? getCalibrationSession(id) : null;
+    },
+    // Returns null if the name is taken
+    createCalibrationSession(name: string, promptVersionId: number | null): CalibrationSession | null {
+      const result = db
+        .prepare(
+          "INSERT INTO calibration_sessions (name, promptVersionId) VALUES (@name, @promptVersionId) ON CONFLICT(name) DO NOTHING"
+        )
+        .run({ name, promptVersionId });
+      return result.changes ? getCalibrationSession(Number(result.lastInsertRowid)) : null;
+    },
+    activateCalibrationSession(id: number): boolean {
+      if (!getCalibrationSession(id)) {
+        return false;
+      }
+      db.prepare("INSERT OR REPLACE INTO config (key, value) VALUES (?, ?)").run(ACTIVE_CALIBRATION_SESSION_KEY, String(id));
+      return true;
+    },
+    // Record a call made from `expectedHead`. The head only moves if no other process moved
+    // it in the meantime (compare-and-swap), so concurrent runs can't rewind each other's
+    // chain. Returns false when the head had moved (or the session rolled over).
+    advanceCalibrationSession(id: number, generation: number, expectedHead: string | null, responseId: string | null): boolean {
+      const params = { id, generation, expectedHead, responseId };
+      if (responseId) {
+        const moved = db
+          .prepare(
+            `
+            UPDATE calibration_sessions
+            SET headResponseId = @responseId, tweetCount = tweetCount + 1, updatedAt = datetime('now')
+            WHERE id = @id AND generation = @generation AND headResponseId IS @expectedHead
+          `
+          )
+          .run(params);
+        if (moved.changes > 0) {
+          return true;
+        }
+      }
+      // Providers without a server-side chain only count the call
+      const counted = db
+        .prepare(
+          `
+          UPDATE calibration_sessions
+          SET tweetCount = tweetCount + 1, updatedAt = datetime('now')
+          WHERE id = @id AND generation = @generation
+        `
+        )
+        .run(params);
+      return !responseId && counted.changes > 0;
+    },
+    // Start a new generation with an empty chain. Only the caller that still sees
+    // `generation` wins, so two processes can't both roll the same session over.
+    rolloverCalibrationSession(
+      id: number,
+      generation: number,
+      update: { promptVersionId: number | null; seedSummary: string | null; reason: CalibrationRolloverReason }
+    ): CalibrationSession | null {
+      db.prepare(
+        `
+        UPDATE calibration_sessions
+        SET headResponseId = NULL,
+            tweetCount = 0,
+            generation = generation + 1,
+            promptVersionId = @promptVersionId,
+            seedSummary = @seedSummary,
+            rolloverReason = @reason,
+            rolledOverAt = datetime('now'),
+            updatedAt = datetime('now')
+        WHERE id = @id AND generation = @generation
+      `
+      ).run({ id, generation, ...update });
+      return getCalibrationSession(id);
+    },
+    // Latest parsed production decisions, for rollover seeds
+    getRecentDecisions(limit: number): RecentDecision[] {
+      const rows = db
+        .prepare(
+          `
+          SELECT approved, score, rejectionRule
+          FROM evaluations
+          WHERE shadowOf IS NULL AND approved IS NOT NULL
+          ORDER BY id DESC
+          LIMIT @limit
+        `
+        )
+        .all({ limit }) as Array<{ approved: number; score: number | null; rejectionRule: RejectionRuleId | null }>;
+      return rows.map((row) => ({ approved: Boolean(row.approved), score: row.score ?? 0, rejectionRule: row.rejectionRule }));
+    },
+    listQtRevisions(tweetId: string): QtRevision[] {
+      return db
+        .prepare(`SELECT ${QT_REVISION_COLUMNS} FROM qt_revisions WHERE tweetId = @tweetId ORDER BY id ASC`)
+        .all({ tweetId }) as QtRevision[];
+    },
+    // Save a human edit; with `makeFinal` it also becomes the tweet's final QT
+    addQtRevision(tweetId: string, text: string, author: string, makeFinal = true): QtRevision {
+      return db.transaction(() => {
+        const result = insertQtRevision.run({ tweetId, text, source: "human", author });
+        const id = Number(result.lastInsertRowid);
+        if (makeFinal) {
+          db.prepare(
+            "UPDATE tweets SET finalQt = @text, finalQtRevisionId = @id, updatedAt = datetime('now') WHERE id = @tweetId"
+          ).run({ tweetId, text, id });
+        }
+        return db
+          .prepare(`SELECT ${QT_REVISION_COLUMNS} FROM qt_revisions WHERE id = @id`)
+          .get({ id }) as QtRevision;
+      })();
+    },
+    // Pick one of the tweet's revisions as the final QT; null goes back to the model's latest draft
+    setFinalQt(tweetId: string, revisionId: number | null): boolean {
+      if (revisionId === null) {
+        const result = db
+          .prepare("UPDATE tweets SET finalQt = NULL, finalQtRevisionId = NULL, updatedAt = datetime('now') WHERE id = @tweetId")
+          .run({ tweetId });
+        return result.changes > 0;
+      }
+      const result = db
+        .prepare(
+          `
+          UPDATE tweets
+          SET finalQt = r.text, finalQtRevisionId = r.id, updatedAt = datetime('now')
+          FROM (SELECT id, text FROM qt_revisions WHERE id = @revisionId AND tweetId = @tweetId) AS r
+          WHERE tweets.id = @tweetId
+        `
+        )
+        .run({ tweetId, revisionId });
+      return result.changes > 0;
+    },
+    createPublication(input: PublicationInput): Publication {
+      const result = db
+        .prepare(
+          `
+          INSERT INTO publications (tweetId, text, status, scheduledAt)
+          VALUES (@tweetId, @text, @status, CASE WHEN @scheduledAt IS NULL THEN NULL ELSE datetime(@scheduledAt) END)
+        `
+        )
+        .run({
+          tweetId: input.tweetId,
+          text: input.text,
+          status: input.scheduledAt ? "scheduled" : "sending",
+          scheduledAt: input.scheduledAt,
+        });
+      return toPublication(
+        db
+          .prepare(`SELECT ${PUBLICATION_COLUMNS} FROM publications WHERE id = @id`)
+          .get({ id: Number(result.lastInsertRowid) }) as PublicationRow
+      );
+    },
+    getPublication(id: number): Publication | null {
+      const row = db
+        .prepare(`SELECT ${PUBLICATION_COLUMNS} FROM publications WHERE id = @id`)
+        .get({ id }) as PublicationRow | undefined;
+      return row ? toPublication(row) : null;
+    },
+    // The scheduled, in-flight or posted publication for a tweet, if any
+    getActivePublication(tweetId: string): Publication | null {
+      const row = db
+        .prepare(
+          `SELECT ${PUBLICATION_COLUMNS} FROM publications
+           WHERE tweetId = @tweetId AND status IN ('scheduled','sending','posted')`
+        )
+        .get({ tweetId }) as PublicationRow | undefined;
+      return row ? toPublication(row) : null;
+    },
+    listPublications(status?: PublicationStatus): Array<Publication & { tweetText: string; tweetUrl: string }> {
+      const rows = db
+        .prepare(
+          `
+        SELECT ${prefixColumns("p", PUBLICATION_COLUMNS)}, t.text AS tweetText, t.url AS tweetUrl
+        FROM publications p
+        JOIN tweets t ON t.id = p.tweetId
+        ${status ? "WHERE p.status = @status" : ""}
+        ORDER BY datetime(COALESCE(p.scheduledAt, p.createdAt)) DESC
+      `
+        )
+        .all(status ? { status } : {}) as Array<PublicationRow & { tweetText: string; tweetUrl: string }>;
+      return rows.map((row) => ({ ...toPublication(row), tweetText: row.tweetText, tweetUrl: row.tweetUrl }));
+    },
+    // A process that dies between claiming a post and recording the outcome leaves it in
+    // "sending", which would block the tweet for good; after `staleMinutes` it counts as failed.
+    // It may have reached X before the crash, hence the error text.
+    failStalePublications(staleMinutes: number): number {
+      return db
+        .prepare(
+          `UPDATE publications
+           SET status = 'failed',
+               lastError = 'Interrupted while sending; check whether it was posted before retrying.',
+               updatedAt = datetime('now')
+           WHERE status = 'sending'
+             AND datetime(COALESCE(updatedAt, createdAt)) <= datetime('now', '-' || @staleMinutes || ' minutes')`
+        )
+        .run({ staleMinutes }).changes;
+    },
+    // Atomically move due scheduled posts to "sending" so concurrent schedulers can't double-post
+    claimDuePublications(limit = 10): Publication[] {
+      const claim = db.transaction(() => {
+        const rows = db
+          .prepare(
+            `SELECT ${PUBLICATION_COLUMNS} FROM publications
+             WHERE status = 'scheduled' AND datetime(scheduledAt) <= datetime('now')
+             ORDER BY datetime(scheduledAt) ASC
+             LIMIT @limit`
+          )
+          .all({ limit }) as PublicationRow[];
+        const mark = db.prepare(
+          "UPDATE publications SET status = 'sending', updatedAt = datetime('now') WHERE id = @id"
+        );
+        for (const row of rows) {
+          mark.run({ id: row.id });
+        }
+        return rows.map((row) => toPublication({ ...row, status: "sending" }));
+      });
+      return claim();
+    },
+    markPublicationPosted(id: number, posted: { postedTweetId: string; postedUrl: string; dryRun: boolean }) {
+      db.transaction(() => {
+        db.prepare(
+          `
+          UPDATE publications
+          SET status = 'posted',
+              postedAt = datetime('now'),
+              postedTweetId = @postedTweetId,
+              postedUrl = @postedUrl,
+              dryRun = @dryRun,
+              lastError = NULL,
+              updatedAt = datetime('now')
+          WHERE id = @id
+        `
+        ).run({ id, ...posted, dryRun: posted.dryRun ? 1 : 0 });
+        db.prepare(
+          `
+          UPDATE tweets
+          SET publishedTweetId = @postedTweetId,
+              publishedUrl = @postedUrl,
+              publishedAt = datetime('now')
+          WHERE id = (SELECT tweetId FROM publications WHERE id = @id)
+        `
+        ).run({ id, postedTweetId: posted.postedTweetId, postedUrl: posted.postedUrl });
+      })();
+    },
+    // Only while still sending, so a post cancelled mid-flight stays cancelled
+    markPublicationFailed(id: number, error: string) {
+      db.prepare(
+        `UPDATE publications SET status = 'failed', lastError = @error, updatedAt = datetime('now')
+         WHERE id = @id AND status = 'sending'`
+      ).run({ id, error });
+    },
+    // Edit or reschedule a scheduled or failed publication; returns false otherwise
+    updatePublication(id: number, update: PublicationUpdate): boolean {
+      const assignments = ["status = 'scheduled'", "updatedAt = datetime('now')"];
+      const params: Record<string, unknown> = { id, scheduledAt: update.scheduledAt ?? null };
+      if (update.text !== undefined) {
+        assignments.push("text = @text");
+        params.text = update.text;
+      }
+      if (update.scheduledAt !== undefined) {
+        assignments.push("scheduledAt = datetime(@scheduledAt)");
+      }
+      // A failed immediate post needs a send time before it can go back on the schedule
+      const result = db
+        .prepare(
+          `UPDATE publications SET ${assignments.join(", ")}
+           WHERE id = @id AND status IN ('scheduled','failed')
+             AND COALESCE(@scheduledAt, scheduledAt) IS NOT NULL`
+        )
+        .run(params);
+      return result.changes > 0;
+    },
+    // A "sending" post can be cancelled too, to release one stuck in flight; if it does reach
+    // X after all, markPublicationPosted still records it
+    cancelPublication(id: number): boolean {
+      const result = db
+        .prepare(
+          `UPDATE publications SET status = 'cancelled', updatedAt = datetime('now')
+           WHERE id = @id AND status IN ('scheduled','sending','failed')`
+        )
+        .run({ id });
+      return result.changes > 0;
+    },
+    getProcessorStatus(): ProcessorStatus | null {
+      const row = db
+        .prepare(`SELECT ${PROCESSOR_STATUS_COLUMNS} FROM processor_status WHERE id = @id`)
+        .get({ id: PROCESSOR_STATUS_ID }) as
+        | (Omit<ProcessorStatus, "lastRunSummary"> & { lastRunSummary: string | null })
+        | undefined;
+      if (!row) {
+        return null;
+      }
+      return {
+        ...row,
+        lastRunSummary: row.lastRunSummary ? JSON.parse(row.lastRunSummary) : null,
+      };
+    },
+    // Partial update of the processor's status row; only the given fields change
+    updateProcessorStatus(update: ProcessorStatusUpdate) {
+      const fields = Object.keys(update).filter((key) =>
+        PROCESSOR_STATUS_FIELDS.includes(key as keyof ProcessorStatusUpdate)
+      ) as Array<keyof ProcessorStatusUpdate>;
+
+      const params: Record<string, unknown> = { id: PROCESSOR_STATUS_ID };
+      for (const field of fields) {
+        const value = update[field];
+        params[field] =
+          field === "lastRunSummary" && value !== null && value !== undefined
+            ? JSON.stringify(value)
+            : value ?? null;
+      }
+
+      db.prepare("INSERT INTO processor_status (id) VALUES (@id) ON CONFLICT(id) DO NOTHING").run({
+        id: PROCESSOR_STATUS_ID,
+      });
+      db.prepare(
+        `
+        UPDATE processor_status
+        SET ${[...fields.map((field) => `${field} = @${field}`), "updatedAt = datetime('now')"].join(", ")}
+        WHERE id = @id
+      `
+      ).run(params);
+    },
+    // sinceId is stored as '' while the query's first window is still unfinished
+    getSearchCursor(query: string): SearchCursor | null {
+      const row = db
+        .prepare("SELECT sinceId, untilId, windowNewestId FROM x_search_cursors WHERE query = @query")
+        .get({ query }) as { sinceId: string; untilId: string | null; windowNewestId: string | null } | undefined;
+      return row ? { ...row, sinceId: row.sinceId || null } : null;
+    },
+    setSearchCursor(query: string, cursor: SearchCursor) {
+      db.prepare(
+        `
+        INSERT INTO x_search_cursors (query, sinceId, untilId, windowNewestId, updatedAt)
+        VALUES (@query, @sinceId, @untilId, @windowNewestId, datetime('now'))
+        ON CONFLICT(query) DO UPDATE SET
+          sinceId = excluded.sinceId,
+          untilId = excluded.untilId,
+          windowNewestId = excluded.windowNewestId,
+          updatedAt = excluded.updatedAt
+      `
+      ).run({ query, ...cursor, sinceId: cursor.sinceId ?? "" });
+    },
+    listSources(options: { enabledOnly?: boolean } = {}): TweetSourceRecord[] {
+      const rows = db
+        .prepare(
+          `SELECT ${SOURCE_COLUMNS} FROM sources
+           ${options.enabledOnly ? "WHERE enabled = 1" : ""}
+           ORDER BY id ASC`
+        )
+        .all() as SourceRow[];
+      return rows.map(toSourceRecord);
+    },
+    getSource(id: number): TweetSourceRecord | null {
+      const row = db
+        .prepare(`SELECT ${SOURCE_COLUMNS} FROM sources WHERE id = @id`)
+        .get({ id }) as SourceRow | undefined;
+      return row ? toSourceRecord(row) : null;
+    },
+    createSource(input: TweetSourceInput): TweetSourceRecord {
+      const result = db
+        .prepare(
+          `
+          INSERT INTO sources (name, type, value, enabled, intervalMinutes)
+          VALUES (@name, @type, @value, @enabled, @intervalMinutes)
+        `
+        )
+        .run({
+          name: input.name.trim(),
+          type: input.type,
+          value: input.value.trim(),
+          enabled: input.enabled === false ? 0 : 1,
+          intervalMinutes: input.intervalMinutes ?? null,
+        });
+      const row = db
+        .prepare(`SELECT ${SOURCE_COLUMNS} FROM sources WHERE id = @id`)
+        .get({ id: Number(result.lastInsertRowid) }) as SourceRow;
+      return toSourceRecord(row);
+    },
+    // Partial update; only the given fields change. Returns false if the source doesn't exist.
+    updateSource(id: number, update: TweetSourceUpdate): boolean {
+      const params: Record<string, unknown> = { id };
+      const assignments: string[] = ["updatedAt = datetime('now')"];
+      if (update.name !== undefined) {
+        assignments.push("name = @name");
+        params.name = update.name.trim();
+      }
+      if (update.type !== undefined) {
+        assignments.push("type = @type");
+        params.type = update.type;
+      }
+      if (update.value !== undefined) {
+        assignments.push("value = @value");
+        params.value = update.value.trim();
+      }
+      if (update.enabled !== undefined) {
+        assignments.push("enabled = @enabled");
+        params.enabled = update.enabled ? 1 : 0;
+      }
+      if (update.intervalMinutes !== undefined) {
+        assignments.push("intervalMinutes = @intervalMinutes");
+        params.intervalMinutes = update.intervalMinutes;
+      }
+      const result = db
+        .prepare(`UPDATE sources SET ${assignments.join(", ")} WHERE id = @id`)
+        .run(params);
+      return result.changes > 0;
+    },
+    // Tweets keep their sourceId so historical stats still group by it
+    deleteSource(id: number): boolean {
+      return db.prepare("DELETE FROM sources WHERE id = @id").run({ id }).changes > 0;
+    },
+    recordSourceRun(id: number, outcome: { fetched: number } | { error: string }) {
+      db.prepare(
+        `
+        UPDATE sources
+        SET lastRunAt = datetime('now'),
+            lastFetchedCount = @fetched,
+            lastError = @error
+        WHERE id = @id
+      `
+      ).run({
+        id,
+        fetched: "fetched" in outcome ? outcome.fetched : null,
+        error: "error" in outcome ? outcome.error : null,
+      });
+    },
+    // Tweet and decision counts per source, to see which sources produce approvals
+    getSourceStats(): SourceStats[] {
+      return db
+        .prepare(
+          `
+          SELECT
+            sourceId,
+            COUNT(*) AS tweets,
+            COALESCE(SUM(approved IS NOT NULL), 0) AS decided,
+            COALESCE(SUM(approved = 1), 0) AS approved,
+            COALESCE(SUM(approved = 0), 0) AS rejected,
+            COALESCE(SUM(humanDecision = 'APPROVED'), 0) AS humanApproved
+          FROM tweets
+          WHERE sourceId IS NOT NULL
+          GROUP BY sourceId
+        `
+        )
+        .all() as SourceStats[];
+    },
+    getRejectionStats(options: RejectionStatsOptions = {}): RejectionStats {
+      const bucket = options.bucket ?? "day";
+      const { whereSql, params } = buildStatsRange(["approved = 0", "rejectionRule IS NOT NULL"], options);
+      const periodSql = bucketExpression(bucket, DECIDED_AT);
+
+      const totals = db
+        .prepare(
+          `SELECT rejectionRule AS rule, COUNT(*) AS count
+           FROM tweets WHERE ${whereSql}
+           GROUP BY rejectionRule ORDER BY count DESC`
+        )
+        .all(params) as RejectionStats["totals"];
+
+      const series = db
+        .prepare(
+          `SELECT ${periodSql} AS period, rejectionRule AS rule, COUNT(*) AS count
+           FROM tweets WHERE ${whereSql}
+           GROUP BY period, rejectionRule ORDER BY period ASC, count DESC`
+        )
+        .all(params) as RejectionStats["series"];
+
+      return { bucket, totals, series };
+    },
+    // Model vs human agreement, overall and bucketed over time
+    getAgreementStats(options: StatsOptions = {}): AgreementStats {
+      const bucket = options.bucket ?? "day";
+      const { whereSql, params } = buildStatsRange(["approved IS NOT NULL", "humanDecision IS NOT NULL"], options);
+      const counts = `
+        COUNT(*) AS labeled,
+        COALESCE(SUM((approved = 1) = (humanDecision = 'APPROVED')), 0) AS agreed,
+        COALESCE(SUM(approved = 1 AND humanDecision = 'REJECTED'), 0) AS falseApprovals,
+        COALESCE(SUM(approved = 0 AND humanDecision = 'APPROVED'), 0) AS falseRejections
+      `;
+
+      const totals = db.prepare(`SELECT ${counts} FROM tweets WHERE ${whereSql}`).get(params) as AgreementCounts;
+      const series = db
+        .prepare(
+          `SELECT ${bucketExpression(bucket, DECIDED_AT)} AS period, ${counts}
+           FROM tweets WHERE ${whereSql}
+           GROUP BY period ORDER BY period ASC`
+        )
+        .all(params) as AgreementStats["series"];
+
+      return { bucket, totals, series };
+    },
+    getScoreDistribution(options: StatsOptions = {}, binSize = 10): ScoreDistribution {
+      const { whereSql, params } = buildStatsRange(["approved IS NOT NULL", "humanDecision IS NOT NULL"], options);
+      // A score of 100 goes in the top bin
+      const rows = db
+        .prepare(
+          `SELECT
+             approved,
+             CASE WHEN approved = 1 THEN MIN(CAST(score / @binSize AS INTEGER) * @binSize, 100 - @binSize) END AS bin,
+             COALESCE(SUM(humanDecision = 'APPROVED'), 0) AS humanApproved,
+             COALESCE(SUM(humanDecision = 'REJECTED'), 0) AS humanRejected
+           FROM tweets WHERE ${whereSql}
+           GROUP BY approved, bin`
+        )
+        .all({ ...params, binSize }) as { approved: number; bin: number | null; humanApproved: number; humanRejected: number }[];
+
+      const bins = Array.from({ length: Math.ceil(100 / binSize) }, (_, i) => {
+        const row = rows.find((r) => r.approved === 1 && r.bin === i * binSize);
+        return { bin: i * binSize, humanApproved: row?.humanApproved ?? 0, humanRejected: row?.humanRejected ?? 0 };
+      });
+      const rejected = rows.find((r) => r.approved === 0);
+      return {
+        binSize,
+        bins,
+        modelRejected: { humanApproved: rejected?.humanApproved ?? 0, humanRejected: rejected?.humanRejected ?? 0 },
+      };
+    },
+    // Model and human approval rates per period and per source
+    getApprovalRateStats(options: StatsOptions = {}): ApprovalRateStats {
+      const bucket = options.bucket ?? "day";
+      const { whereSql, params } = buildStatsRange(["approved IS NOT NULL"], options);
+      const counts = `
+        COUNT(*) AS decided,
+        COALESCE(SUM(approved = 1), 0) AS approved,
+        COUNT(humanDecision) AS labeled,
+        COALESCE(SUM(humanDecision = 'APPROVED'), 0) AS humanApproved
+      `;
+
+      const series = db
+        .prepare(
+          `SELECT ${bucketExpression(bucket, DECIDED_AT)} AS period, ${counts}
+           FROM tweets WHERE ${whereSql}
+           GROUP BY period ORDER BY period ASC`
+        )
+        .all(params) as ApprovalRateStats["series"];
+      const sources = db
+        .prepare(
+          `SELECT sourceId, ${counts}
+           FROM tweets WHERE ${whereSql}
+           GROUP BY sourceId ORDER BY decided DESC`
+        )
+        .all(params) as ApprovalRateStats["sources"];
+
+      return { bucket, series, sources };
+    },
+    // Newest first; null prompt ids are the built-in prompt
+    listPromptChanges(limit: number): PromptChange[] {
+      return db
+        .prepare(
+          `SELECT at, promptVersionId, previousPromptVersionId FROM (
+             SELECT
+               createdAt AS at,
+               promptVersionId,
+               LAG(promptVersionId) OVER (ORDER BY createdAt, id) AS previousPromptVersionId,
+               ROW_NUMBER() OVER (ORDER BY createdAt, id) AS position
+             FROM evaluations
+             WHERE shadowOf IS NULL
+           )
+           WHERE position > 1 AND promptVersionId IS NOT previousPromptVersionId
+           ORDER BY at DESC
+           LIMIT @limit`
+        )
+        .all({ limit }) as PromptChange[];
+    },
+    close() {
+      db.close();
+    },
+    getConfig(key: string): string | null {
+      const row = db.prepare("SELECT value FROM config WHERE key = @key").get({ key }) as { value: string } | undefined;
+      return row?.value ?? null;
+    },
+    setConfig(key: string, value: string | null) {
+      if (value === null) {
+        db.prepare("DELETE FROM config WHERE key = @key").run({ key });
+      } else {
+        db.prepare("INSERT OR REPLACE INTO config (key, value) VALUES (@key, @value)").run({ key, value });
+      }
+    },
+  };
+}
+
+function toTweetRecord(row: TweetRow): TweetRecord {
+  return {
+    ...row,
+    approved: row.approved === null ? null : Boolean(row.approved),
+    score: Number(row.score) || 0,
+    calibratedScore: row.calibratedScore ?? null,
+    updatedAt: row.updatedAt ?? null,
+    humanDecision: row.humanDecision ?? null,
+    goldExampleType: row.goldExampleType ?? null,
+    goldExampleCorrection: row.goldExampleCorrection ?? null,
+    goldExamplePinned: Boolean(row.goldExamplePinned),
+    goldExampleNote: row.goldExampleNote ?? null,
+    goldExampleTags: row.goldExampleTags ? JSON.parse(row.goldExampleTags) : [],
+    goldExampleAddedAt: row.goldExampleAddedAt ?? null,
+    goldExampleExpiresAt: row.goldExampleExpiresAt ?? null,
+    qt: row.qt ?? null,
+    rejectionReason: row.rejectionReason ?? null,
+    rejectionRule: row.rejectionRule ?? null,
+    provider: row.provider ?? null,
+    model: row.model ?? null,
+    reasoningEffort: row.reasoningEffort ?? null,
+    sourceId: row.sourceId ?? null,
+    authorId: row.authorId ?? null,
+    authorUsername: row.authorUsername ?? null,
+    authorName: row.authorName ?? null,
+    authorFollowers: row.authorFollowers ?? null,
+    postedAt: row.postedAt ?? null,
+    lang: row.lang ?? null,
+    conversationId: row.conversationId ?? null,
+    metrics: row.metrics ? JSON.parse(row.metrics) : null,
+    media: row.media ? JSON.parse(row.media) : [],
+    referencedTweets: row.referencedTweets ? JSON.parse(row.referencedTweets) : [],
+    context: row.context ? JSON.parse(row.context) : null,
+    modelInput: row.modelInput ?? null,
+    publishedTweetId: row.publishedTweetId ?? null,
+    publishedUrl: row.publishedUrl ?? null,
+    publishedAt: row.publishedAt ?? null,
+    finalQt: row.finalQt ?? null,
+    finalQtRevisionId: row.finalQtRevisionId ?? null,
+    currentEvaluationId: row.currentEvaluationId ?? null,
+    promptVersionId: row.promptVersionId ?? null,
+  };
+}
+
+function toEvaluation(row: EvaluationRow): Evaluation {
+  return {
+    ...row,
+    approved: row.approved === null ? null : Boolean(row.approved),
+    examples: row.examples ? JSON.parse(row.examples) : [],
+    categories: row.categories ? JSON.parse(row.categories) : [],
+  };
+}
+
+// Metadata as column values; absent pieces are null so existing values are kept on upsert
+function metadataColumns(metadata?: TweetMetadata) {
+  const author = metadata?.author;
+  return {
+    authorId: author?.id ?? null,
+    authorUsername: author && author.username !== "unknown" ? author.username : null,
+    authorName: author?.name ?? null,
+    authorFollowers: author?.followersCount ?? null,
+    postedAt: metadata?.postedAt ?? null,
+    lang: metadata?.lang ?? null,
+    conversationId: metadata?.conversationId ?? null,
+    metrics: metadata?.metrics ? JSON.stringify(metadata.metrics) : null,
+    media: metadata?.media.length ? JSON.stringify(metadata.media) : null,
+    referencedTweets: metadata?.referencedTweets.length ? JSON.stringify(metadata.referencedTweets) : null,
+  };
+}
+
+function toPublication(row: PublicationRow): Publication {
+  return { ...row, dryRun: Boolean(row.dryRun) };
+}
+
+function toSourceRecord(row: SourceRow): TweetSourceRecord {
+  return { ...row, enabled: Boolean(row.enabled) };
+}
+
+function prefixColumns(alias: string, columns: string): string {
+  return columns
+    .split(",")
+    .map((column) => `${alias}.${column.trim()}`)
+    .join(", ");
+}
+
+function bucketExpression(bucket: StatsBucket, column: string): string {
+  switch (bucket) {
+    case "week":
+      // Monday of the week containing the timestamp
+      return `date(${column}, 'weekday 0', '-6 days')`;
+    case "month":
+      return `strftime('%Y-%m', ${column})`;
+    case "day":
+    default:
+      return `date(${column})`;
+  }
+}
+
+// When a tweet was last decided, as the stats see it
+const DECIDED_AT = "COALESCE(updatedAt, createdAt)";
+
+// WHERE clause for the stats queries: `where` plus the optional from/to range on DECIDED_AT
+function buildStatsRange(where: string[], options: StatsOptions): { whereSql: string; params: Record<string, unknown> } {
+  const conditions = [...where];
+  const params: Record<string, unknown> = {};
+  if (options.from) {
+    conditions.push(`datetime(${DECIDED_AT}) >= datetime(@from)`);
+    params.from = options.from;
+  }
+  if (options.to) {
+    conditions.push(`datetime(${DECIDED_AT}) < datetime(@to)`);
+    params.to = options.to;
+  }
+  return { whereSql: conditions.join(" AND "), params };
+}
+
+// Ties break on id so every row has a fixed place, which cursors rely on. Tweets without a
+// calibrated score stay at the end in either direction.
+function orderByClause(orderBy: SortField, orderDir: SortDirection): string {
+  const dirSql = orderDir === "asc" ? "ASC" : "DESC";
+  const nulls = orderBy === "calibratedScore" ? " NULLS LAST" : "";
+  return `${SORT_KEYS[orderBy]} ${dirSql}${nulls}, id ${dirSql}`;
+}
+
+// Condition for the rows on the cursor's side of its row, and the order to scan them in:
+// the list order after the row, or backwards from it for a `before` cursor
+function cursorClause(cursor: TweetCursor): { conditionSql: string; orderSql: string; params: Record<string, unknown> } {
+  const key = SORT_KEYS[cursor.orderBy];
+  const descending = (cursor.orderDir === "desc") !== cursor.before;
+  const past = descending ? "<" : ">";
+  const params = { cursorKey: cursor.key, cursorId: cursor.id };
+  const orderSql = `${key} ${descending ? "DESC" : "ASC"} NULLS ${cursor.before ? "FIRST" : "LAST"}, id ${descending ? "DESC" : "ASC"}`;
+
+  if (cursor.key === null) {
+    // Only calibratedScore has nulls, and they come last
+    const conditionSql = cursor.before
+      ? `(${key} IS NOT NULL OR id ${past} @cursorId)`
+      : `(${key} IS NULL AND id ${past} @cursorId)`;
+    return { conditionSql, orderSql, params };
+  }
+  // Rather than a row value comparison, which SQLite won't seek an expression index with
+  const pastRow = `${key} ${past}= @cursorKey AND (${key} ${past} @cursorKey OR id ${past} @cursorId)`;
+  const nullable = cursor.orderBy === "calibratedScore" && !cursor.before;
+  return { conditionSql: nullable ? `((${pastRow}) OR ${key} IS NULL)` : `(${pastRow})`, orderSql, params };
+}
+
+// WHERE clause (possibly empty) and its named parameters for list() and listTweetIds()
+function buildFilterClause(filters: TweetFilters): { whereSql: string; params: Record<string, unknown> } {
+  const where: string[] = [];
+  const params: Record<string, unknown> = {};
+
+  if (filters.hasModelDecision === true) {
+    where.push("approved IS NOT NULL");
+  } else if (filters.hasModelDecision === false) {
+    where.push("approved IS NULL");
+  }
+
+  if (typeof filters.approved === "boolean") {
+    where.push("approved = @approved");
+    params.approved = filters.approved ? 1 : 0;
+  }
+
+  if (
+    filters.humanDecision === "APPROVED" ||
+    filters.humanDecision === "REJECTED"
+  ) {
+    where.push("humanDecision = @humanDecision");
+    params.humanDecision = filters.humanDecision;
+  } else if (filters.humanDecision === "UNSET") {
+    where.push("humanDecision IS NULL");
+  }
+
+  if (filters.goldExampleType) {
+    where.push("goldExampleType = @goldExampleType");
+    params.goldExampleType = filters.goldExampleType;
+  } else if (filters.hasGoldExample === true) {
+    where.push("goldExampleType IS NOT NULL");
+  } else if (filters.hasGoldExample === false) {
+    where.push("goldExampleType IS NULL");
+  }
+
+  if (filters.rejectionRule) {
+    where.push("rejectionRule = @rejectionRule");
+    params.rejectionRule = filters.rejectionRule;
+  }
+
+  if (filters.sourceId !== undefined) {
+    where.push("sourceId = @sourceId");
+    params.sourceId = filters.sourceId;
+  }
+
+  if (filters.authorUsername) {
+    where.push("authorUsername = @authorUsername COLLATE NOCASE");
+    params.authorUsername = filters.authorUsername.replace(/^@/, "");
+  }
+
+  // Through the postedAt sort key (equal whenever postedAt is set) so its index applies
+  if (filters.postedFrom) {
+    where.push(`postedAt IS NOT NULL AND ${SORT_KEYS.postedAt} >= datetime(@postedFrom)`);
+    params.postedFrom = filters.postedFrom;
+  }
+  if (filters.postedTo) {
+    where.push(`postedAt IS NOT NULL AND ${SORT_KEYS.postedAt} < datetime(@postedTo)`);
+    params.postedTo = filters.postedTo;
+  }
+  if (filters.createdFrom) {
+    where.push(`${SORT_KEYS.createdAt} >= datetime(@createdFrom)`);
+    params.createdFrom = filters.createdFrom;
+  }
+  if (filters.createdTo) {
+    where.push(`${SORT_KEYS.createdAt} < datetime(@createdTo)`);
+    params.createdTo = filters.createdTo;
+  }
+  if (filters.updatedFrom) {
+    where.push(`${SORT_KEYS.updatedAt} >= datetime(@updatedFrom)`);
+    params.updatedFrom = filters.updatedFrom;
+  }
+  if (filters.updatedTo) {
+    where.push(`${SORT_KEYS.updatedAt} < datetime(@updatedTo)`);
+    params.updatedTo = filters.updatedTo;
+  }
+
+  if (filters.lang) {
+    where.push("lang = @lang");
+    params.lang = filters.lang;
+  }
+
+  if (filters.minCalibratedScore !== undefined) {
+    where.push("calibratedScore >= @minCalibratedScore");
+    params.minCalibratedScore = filters.minCalibratedScore;
+  }
+  if (filters.maxCalibratedScore !== undefined) {
+    where.push("calibratedScore <= @maxCalibratedScore");
+    params.maxCalibratedScore = filters.maxCalibratedScore;
+  }
+  if (filters.minScore !== undefined) {
+    where.push("score >= @minScore");
+    params.minScore = filters.minScore;
+  }
+  if (filters.maxScore !== undefined) {
+    where.push("score <= @maxScore");
+    params.maxScore = filters.maxScore;
+  }
+
+  // NULL unless both have decided; written as in idx_tweets_disagreement so it applies
+  if (filters.disagreement) {
+    where.push("approved <> (humanDecision = 'APPROVED')");
+  }
+
+  if (filters.needsVoteFrom !== undefined) {
+    where.push(
+      "humanDecision IS NULL AND NOT EXISTS (SELECT 1 FROM review_votes v WHERE v.tweetId = tweets.id AND v.userId = @needsVoteFrom)"
+    );
+    params.needsVoteFrom = filters.needsVoteFrom;
+  }
+
+  if (filters.search) {
+    const matching = "rowid IN (SELECT rowid FROM tweets_fts WHERE tweets_fts MATCH @search)";
+    if (filters.publicSearch) {
+      where.push(`(approved = 1 AND ${matching} OR rowid IN (SELECT rowid FROM tweets_fts WHERE tweets_fts MATCH @publicSearch))`);
+      params.publicSearch = restrictToColumns(filters.search, PUBLIC_SEARCH_COLUMNS);
+    } else {
+      where.push(matching);
+    }
+    params.search = filters.search;
+  }
+
+  return { whereSql: where.length ? `WHERE ${where.join(" AND ")}` : "", params };
+}
+
+function toAuditEntry(row: AuditRow): AuditEntry {
+  return {
+    ...row,
+    oldValue: row.oldValue === null ? null : JSON.parse(row.oldValue),
+    newValue: row.newValue === null ? null : JSON.parse(row.newValue),
+  };
+}
+
+function toUser(row: UserRow): User {
+  return { ...row, disabled: Boolean(row.disabled) };
 }
 
 function normalizePagination(
@@ -0,0 +1,132 @@
+import "dotenv/config";
+import { createTweetStore } from "./tweetStore.js";
+import { generatePassword, hashPassword, parseRole, validatePassword } from "./auth.js";
+
+// Manage dashboard accounts from the command line; this is how the first admin is created.
+//   npm run users -- create <username> --role admin [--password-stdin]
+//   npm run users -- list
+//   npm run users -- set-role <username> <role>
+//   npm run users -- reset-password <username> [--password-stdin]
+//   npm run users -- disable <username> | enable <username>
+
+type TweetStore = ReturnType<typeof createTweetStore>;
+
+// Recorded as the actor in the audit log
+const CLI_ACTOR = "cli";
+
+const USAGE = "Usage: users create <username> --role <viewer|moderator|publisher|admin> [--password-stdin]"
+  + " | list | set-role <username> <role> | reset-password <username> [--password-stdin]"
+  + " | disable <username> | enable <username>";
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8").replace(/\r?\n$/, "");
+}
+
+// From stdin when asked (so it stays out of shell history), otherwise generated and printed once
+async function resolvePassword(flags: string[]): Promise<{ password: string; generated: boolean }> {
+  if (!flags.includes("--password-stdin")) {
+    return { password: generatePassword(), generated: true };
+  }
+  const password = await readStdin();
+  const error = validatePassword(password);
+  if (error) {
+    throw new Error(error);
+  }
+  return { password, generated: false };
+}
+
+function requireUser(store: TweetStore, username: string | undefined) {
+  if (!username) {
+    throw new Error(USAGE);
+  }
+  const credentials = store.getUserCredentials(username);
+  if (!credentials) {
+    throw new Error(`No user named ${username}`);
+  }
+  return credentials.user;
+}
+
+async function main() {
+  let store: TweetStore | null = null;
+  try {
+    const [command, ...rest] = process.argv.slice(2);
+    const flags = rest.filter((arg) => arg.startsWith("--"));
+    const positional = rest.filter((arg, i) => !arg.startsWith("--") && rest[i - 1] !== "--role");
+    store = createTweetStore();
+
+    if (command === "create") {
+      const [username] = positional;
+      const roleIndex = rest.indexOf("--role");
+      const role = parseRole(roleIndex >= 0 ? rest[roleIndex + 1] : null);
+      if (!username || !role) {
+        throw new Error(USAGE);
+      }
+      const { password, generated } = await resolvePassword(flags);
+      const user = store.createUser(username, await hashPassword(password), role);
+      if (!user) {
+        throw new Error(`A user named ${username} already exists`);
+      }
+      store.recordAudit({
+        actor: CLI_ACTOR,
+        action: "user.create",
+        target: `user:${user.id}`,
+        newValue: { username: user.username, role: user.role },
+      });
+      console.log(`Created ${user.role} ${user.username}`);
+      if (generated) {
+        console.log(`Password (shown once): ${password}`);
+      }
+    } else if (command === "list") {
+      for (const user of store.listUsers()) {
+        const status = user.disabled ? " (disabled)" : "";
+        console.log(`${user.username}\t${user.role}${status}\tlast login ${user.lastLoginAt ?? "never"}`);
+      }
+    } else if (command === "set-role") {
+      const user = requireUser(store, positional[0]);
+      const role = parseRole(positional[1]);
+      if (!role) {
+        throw new Error(USAGE);
+      }
+      store.updateUser(user.id, { role });
+      store.recordAudit({ actor: CLI_ACTOR, action: "user.update", target: `user:${user.id}`, oldValue: { role: user.role }, newValue: { role } });
+      console.log(`${user.username} is now ${role}`);
+    } else if (command === "reset-password") {
+      const user = requireUser(store, positional[0]);
+      const { password, generated } = await resolvePassword(flags);
+      store.updateUser(user.id, { passwordHash: await hashPassword(password) });
+      store.recordAudit({ actor: CLI_ACTOR, action: "user.update", target: `user:${user.id}`, newValue: { passwordChanged: true } });
+      console.log(`Password reset for ${user.username}; existing sessions were signed out`);
+      if (generated) {
+        console.log(`Password (shown once): ${password}`);
+      }
+    } else if (command === "disable" || command === "enable") {
+      const user = requireUser(store, positional[0]);
+      store.updateUser(user.id, { disabled: command === "disable" });
+      store.recordAudit({
+        actor: CLI_ACTOR,
+        action: "user.update",
+        target: `user:${user.id}`,
+        oldValue: { disabled: user.disabled },
+        newValue: { disabled: command === "disable" },
+      });
+      console.log(`${user.username} ${command}d`);
+    } else {
+      throw new Error(USAGE);
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error("Unknown error", error);
+    }
+    process.exitCode = 1;
+  } finally {
+    store?.close();
+  }
+}
+
+main();
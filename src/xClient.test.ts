@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+import { normalizeFeedTweet } from "./tweetMetadata.js";
+import { createTweetStore } from "./tweetStore.js";
+import { searchFromCursor, type XSearchResult } from "./xClient.js";
+
+const dir = mkdtempSync(path.join(tmpdir(), "kasfam-xsearch-"));
+process.env.SQLITE_DB_PATH = path.join(dir, "app.db");
+const store = createTweetStore();
+after(() => {
+  store.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+type SearchCall = { query?: string; sinceId?: string | null; untilId?: string | null };
+
+// Answers each search with the next scripted page run, newest id first
+function fakeClient(results: Array<{ ids: string[]; complete: boolean; rateLimited?: boolean }>) {
+  const calls: SearchCall[] = [];
+  return {
+    calls,
+    async searchTweets(options: SearchCall = {}): Promise<XSearchResult> {
+      calls.push({ sinceId: options.sinceId ?? null, untilId: options.untilId ?? null });
+      const { ids, complete, rateLimited = false } = results.shift()!;
+      return {
+        query: options.query ?? "",
+        tweets: ids.map((id) => normalizeFeedTweet({ id, text: `tweet ${id}` })!),
+        newestId: ids[0] ?? null,
+        oldestId: ids[ids.length - 1] ?? null,
+        pages: 1,
+        complete,
+        rateLimited,
+      };
+    },
+  };
+}
+
+const quiet = () => {};
+const ids = (tweets: { id: string }[]) => tweets.map((tweet) => tweet.id);
+
+test("a finished window moves since_id to its newest tweet", async () => {
+  const client = fakeClient([{ ids: ["105", "101"], complete: true }, { ids: [], complete: true }]);
+  assert.deepEqual(ids(await searchFromCursor(client, store, "q1", true, quiet)), ["105", "101"]);
+  assert.deepEqual(store.getSearchCursor("q1"), { sinceId: "105", untilId: null, windowNewestId: null });
+
+  // Nothing new keeps the cursor where it was
+  await searchFromCursor(client, store, "q1", true, quiet);
+  assert.deepEqual(client.calls, [{ sinceId: null, untilId: null }, { sinceId: "105", untilId: null }]);
+  assert.deepEqual(store.getSearchCursor("q1"), { sinceId: "105", untilId: null, windowNewestId: null });
+});
+
+test("an unfinished window is read down to its since_id before newer tweets", async () => {
+  store.setSearchCursor("q2", { sinceId: "100", untilId: null, windowNewestId: null });
+  const client = fakeClient([
+    // Run 1: budget spent after 120..110
+    { ids: ["120", "110"], complete: false },
+    // Run 2: rate limited after 108..106 of the older part
+    { ids: ["108", "106"], complete: false, rateLimited: true },
+    // Run 3: the rest of the window, then what arrived since 120
+    { ids: ["104", "102"], complete: true },
+    { ids: ["130"], complete: true },
+  ]);
+
+  await searchFromCursor(client, store, "q2", true, quiet);
+  assert.deepEqual(store.getSearchCursor("q2"), { sinceId: "100", untilId: "110", windowNewestId: "120" });
+  await searchFromCursor(client, store, "q2", true, quiet);
+  assert.deepEqual(store.getSearchCursor("q2"), { sinceId: "100", untilId: "106", windowNewestId: "120" });
+  assert.deepEqual(ids(await searchFromCursor(client, store, "q2", true, quiet)), ["104", "102", "130"]);
+  assert.deepEqual(store.getSearchCursor("q2"), { sinceId: "130", untilId: null, windowNewestId: null });
+
+  assert.deepEqual(client.calls, [
+    { sinceId: "100", untilId: null },
+    { sinceId: "100", untilId: "110" },
+    { sinceId: "100", untilId: "106" },
+    { sinceId: "120", untilId: null },
+  ]);
+});
+
+test("a query's unfinished first window has no lower bound", async () => {
+  const client = fakeClient([
+    { ids: ["50", "40"], complete: false },
+    { ids: ["30"], complete: true },
+    { ids: [], complete: true },
+  ]);
+  await searchFromCursor(client, store, "q3", true, quiet);
+  assert.deepEqual(store.getSearchCursor("q3"), { sinceId: null, untilId: "40", windowNewestId: "50" });
+  await searchFromCursor(client, store, "q3", true, quiet);
+  assert.deepEqual(client.calls.slice(1), [{ sinceId: null, untilId: "40" }, { sinceId: "50", untilId: null }]);
+  assert.deepEqual(store.getSearchCursor("q3"), { sinceId: "50", untilId: null, windowNewestId: null });
+});
+
+test("--limit runs read from the cursor without moving it", async () => {
+  store.setSearchCursor("q4", { sinceId: "10", untilId: "30", windowNewestId: "40" });
+  const client = fakeClient([{ ids: ["25", "12"], complete: true }, { ids: ["45"], complete: true }]);
+  assert.deepEqual(ids(await searchFromCursor(client, store, "q4", false, quiet)), ["25", "12", "45"]);
+  assert.deepEqual(client.calls, [{ sinceId: "10", untilId: "30" }, { sinceId: "40", untilId: null }]);
+  assert.deepEqual(store.getSearchCursor("q4"), { sinceId: "10", untilId: "30", windowNewestId: "40" });
+});
@@ -1,17 +1,33 @@
-import { TwitterApi } from "twitter-api-v2";
-
-export type XTweet = {
-  id: string;
-  text: string;
-  url: string;
-  author: {
-    username: string;
-  };
-};
+import {
+  ApiResponseError,
+  TwitterApi,
+  type ApiV2Includes,
+  type TweetV2,
+  type Tweetv2FieldsParams,
+} from "twitter-api-v2";
+import { readPositiveIntEnv } from "./env.js";
+import { normalizeMetrics, type FetchedTweet, type TweetMedia } from "./tweetMetadata.js";
+import type { SearchCursor } from "./tweetStore.js";
+
+export type XTweet = FetchedTweet;
 
 type SearchOptions = {
   query?: string;
-  maxResults?: number;
+  maxResults?: number;  // Page size (10-100)
+  sinceId?: string | null;  // Only return tweets newer than this id
+  untilId?: string | null;  // Only return tweets older than this id
+  maxPages?: number;  // Page budget per call
+};
+
+export type XSearchResult = {
+  query: string;
+  tweets: XTweet[];
+  newestId: string | null;  // Newest id seen, to use as the next sinceId
+  oldestId: string | null;  // Oldest id seen, where an incomplete search resumes
+  pages: number;
+  // False when pages were left unread (budget spent or rate limited)
+  complete: boolean;
+  rateLimited: boolean;
 };
 
 type OAuth1Credentials = {
@@ -21,8 +37,32 @@ type OAuth1Credentials = {
   accessTokenSecret: string;
 };
 
-const DEFAULT_QUERY = "kaspa -from:kaspaunchained -is:retweet lang:en";
+export const DEFAULT_QUERY = "kaspa -from:kaspaunchained -is:retweet lang:en";
 const DEFAULT_MAX_RESULTS = 100;
+const DEFAULT_MAX_PAGES = 5;
+const DEFAULT_MAX_RATE_LIMIT_SLEEP_SECONDS = 60;
+const MAX_IDS_PER_LOOKUP = 100;
+
+// Fields and expansions requested for every tweet lookup
+const TWEET_FIELDS: Partial<Tweetv2FieldsParams> = {
+  "tweet.fields": [
+    "author_id",
+    "created_at",
+    "conversation_id",
+    "lang",
+    "public_metrics",
+    "referenced_tweets",
+    "attachments",
+  ],
+  expansions: [
+    "author_id",
+    "attachments.media_keys",
+    "referenced_tweets.id",
+    "referenced_tweets.id.author_id",
+  ],
+  "user.fields": ["username", "name", "public_metrics"],
+  "media.fields": ["type", "url", "preview_image_url"],
+};
 
 function getCredentials(): OAuth1Credentials {
   const apiKey = process.env.X_API_KEY;
@@ -63,36 +103,62 @@ export function createXClient(credentials?: OAuth1Credentials) {
 
   const readOnlyClient = client.readOnly;
 
-  async function searchTweets(options: SearchOptions = {}): Promise<XTweet[]> {
+  async function searchTweets(options: SearchOptions = {}): Promise<XSearchResult> {
     const query = options.query ?? DEFAULT_QUERY;
-    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
-
-    const result = await readOnlyClient.v2.search(query, {
-      max_results: Math.min(maxResults, 100),
-      "tweet.fields": ["author_id", "created_at"],
-      expansions: ["author_id"],
-      "user.fields": ["username"],
-    });
-
-    const users = new Map<string, string>();
-    if (result.includes?.users) {
-      for (const user of result.includes.users) {
-        users.set(user.id, user.username);
-      }
-    }
+    const maxResults = Math.max(10, Math.min(options.maxResults ?? DEFAULT_MAX_RESULTS, 100));
+    const maxPages = options.maxPages ?? getMaxPages();
+    const sinceId = options.sinceId ?? undefined;
+    const untilId = options.untilId ?? undefined;
 
     const tweets: XTweet[] = [];
-    for (const tweet of result.data?.data ?? []) {
-      const username = users.get(tweet.author_id ?? "") ?? "unknown";
-      tweets.push({
-        id: tweet.id,
-        text: tweet.text,
-        url: `https://x.com/${username}/status/${tweet.id}`,
-        author: { username },
-      });
+    let newestId: string | null = null;
+    let oldestId: string | null = null;
+    let nextToken: string | undefined = undefined;
+    let pages = 0;
+    let rateLimited = false;
+
+    while (pages < maxPages) {
+      const page = await withRateLimit(() =>
+        readOnlyClient.v2.search(query, {
+          max_results: maxResults,
+          ...(sinceId ? { since_id: sinceId } : {}),
+          ...(untilId ? { until_id: untilId } : {}),
+          ...(nextToken ? { next_token: nextToken } : {}),
+          ...TWEET_FIELDS,
+        })
+      );
+      if (!page) {
+        rateLimited = true;
+        break;
+      }
+      pages++;
+
+      tweets.push(...toXTweets(page.data?.data ?? [], page.data?.includes));
+      // Results are newest-first, so the first page carries the newest id
+      newestId = newestId ?? page.meta?.newest_id ?? null;
+      oldestId = page.meta?.oldest_id ?? oldestId;
+      nextToken = page.meta?.next_token;
+      if (!nextToken) {
+        break;
+      }
+
+      // Out of requests for this window: wait if the reset is close, otherwise defer
+      const { remaining, reset } = page.rateLimit ?? {};
+      if (remaining === 0 && reset !== undefined && !(await sleepUntilReset(reset))) {
+        rateLimited = true;
+        break;
+      }
     }
 
-    return tweets;
+    return {
+      query,
+      tweets,
+      newestId,
+      oldestId,
+      pages,
+      complete: !nextToken && !rateLimited,
+      rateLimited,
+    };
   }
 
   async function getTweetsByIds(ids: string[]): Promise<XTweet[]> {
@@ -101,37 +167,180 @@ export function createXClient(credentials?: OAuth1Credentials) {
     }
 
     // Twitter API v2 supports up to 100 IDs per request
-    const result = await readOnlyClient.v2.tweets(ids, {
-      "tweet.fields": ["author_id", "created_at"],
-      expansions: ["author_id"],
-      "user.fields": ["username"],
-    });
-
-    const users = new Map<string, string>();
-    if (result.includes?.users) {
-      for (const user of result.includes.users) {
-        users.set(user.id, user.username);
-      }
-    }
-
     const tweets: XTweet[] = [];
-    for (const tweet of result.data ?? []) {
-      const username = users.get(tweet.author_id ?? "") ?? "unknown";
-      tweets.push({
-        id: tweet.id,
-        text: tweet.text,
-        url: `https://x.com/${username}/status/${tweet.id}`,
-        author: { username },
-      });
+    for (let i = 0; i < ids.length; i += MAX_IDS_PER_LOOKUP) {
+      const chunk = ids.slice(i, i + MAX_IDS_PER_LOOKUP);
+      const result = await withRateLimit(() =>
+        readOnlyClient.v2.tweets(chunk, {
+          ...TWEET_FIELDS,
+        })
+      );
+      if (!result) {
+        throw new Error(`X API rate limit reached after ${tweets.length} of ${ids.length} tweets`);
+      }
+      tweets.push(...toXTweets(result.data ?? [], result.includes));
     }
 
     return tweets;
   }
 
+  // Posts as the account the OAuth tokens belong to
+  async function postQuoteTweet(text: string, quotedTweetId: string): Promise<{ id: string; url: string }> {
+    const result = await client.v2.tweet(text, { quote_tweet_id: quotedTweetId });
+    return { id: result.data.id, url: `https://x.com/i/web/status/${result.data.id}` };
+  }
+
   return {
     searchTweets,
     getTweetsByIds,
+    postQuoteTweet,
   };
 }
 
 export type XClient = ReturnType<typeof createXClient>;
+
+type SearchCursors = {
+  getSearchCursor(query: string): SearchCursor | null;
+  setSearchCursor(query: string, cursor: SearchCursor): void;
+};
+
+// Incremental search: resume from the stored since_id cursor for the query. A window left
+// unfinished (page budget spent or rate limited) is finished first, before newer tweets.
+// The cursor isn't advanced for --limit runs, since truncated tweets would never be fetched again.
+export async function searchFromCursor(
+  client: Pick<XClient, "searchTweets">,
+  cursors: SearchCursors,
+  query: string,
+  advanceCursor: boolean,
+  log: (msg: string) => void = console.log
+): Promise<XTweet[]> {
+  const cursor = cursors.getSearchCursor(query);
+  const tweets: XTweet[] = [];
+  let sinceId = cursor?.sinceId ?? null;
+
+  if (cursor?.untilId) {
+    const gap = await client.searchTweets({ query, sinceId, untilId: cursor.untilId });
+    log(`X API search: ${gap.tweets.length} older tweets in ${gap.pages} page(s) before ${cursor.untilId}`);
+    tweets.push(...gap.tweets);
+    if (!gap.complete) {
+      warnIncompleteSearch(gap);
+      if (advanceCursor && gap.oldestId) {
+        cursors.setSearchCursor(query, { ...cursor, untilId: gap.oldestId });
+      }
+      return tweets;
+    }
+    sinceId = cursor.windowNewestId ?? sinceId;
+    if (advanceCursor) {
+      cursors.setSearchCursor(query, { sinceId, untilId: null, windowNewestId: null });
+    }
+  }
+
+  const result = await client.searchTweets({ query, sinceId });
+  log(
+    `X API search: ${result.tweets.length} new tweets in ${result.pages} page(s)` +
+      (sinceId ? ` since ${sinceId}` : "")
+  );
+  tweets.push(...result.tweets);
+
+  if (!result.complete) {
+    warnIncompleteSearch(result);
+  }
+  if (!advanceCursor || !result.newestId) {
+    return tweets;
+  }
+  // An unfinished window keeps its since_id and resumes below the oldest tweet read
+  cursors.setSearchCursor(
+    query,
+    result.complete
+      ? { sinceId: result.newestId, untilId: null, windowNewestId: null }
+      : { sinceId, untilId: result.oldestId, windowNewestId: result.newestId }
+  );
+  return tweets;
+}
+
+function warnIncompleteSearch(result: XSearchResult): void {
+  console.warn(
+    result.rateLimited
+      ? "Warning: X API rate limit reached, deferring remaining pages to the next run"
+      : "Warning: X_SEARCH_MAX_PAGES budget spent; the next run resumes with the older tweets in this window"
+  );
+}
+
+function toXTweets(data: TweetV2[], includes: ApiV2Includes = {}): XTweet[] {
+  const users = new Map((includes.users ?? []).map((user) => [user.id, user]));
+  const media = new Map((includes.media ?? []).map((item) => [item.media_key, item]));
+  const referenced = new Map((includes.tweets ?? []).map((tweet) => [tweet.id, tweet]));
+
+  return data.map((tweet) => {
+    const user = users.get(tweet.author_id ?? "");
+    const username = user?.username ?? "unknown";
+    return {
+      id: tweet.id,
+      text: tweet.text,
+      url: `https://x.com/${username}/status/${tweet.id}`,
+      author: {
+        id: tweet.author_id ?? null,
+        username,
+        name: user?.name ?? null,
+        followersCount: user?.public_metrics?.followers_count ?? null,
+      },
+      postedAt: tweet.created_at ?? null,
+      lang: tweet.lang ?? null,
+      conversationId: tweet.conversation_id ?? null,
+      metrics: normalizeMetrics(tweet.public_metrics),
+      media: (tweet.attachments?.media_keys ?? []).flatMap((key): TweetMedia[] => {
+        const item = media.get(key);
+        return item
+          ? [{ type: item.type, url: item.url ?? null, previewUrl: item.preview_image_url ?? null }]
+          : [];
+      }),
+      referencedTweets: (tweet.referenced_tweets ?? []).map((ref) => {
+        const full = referenced.get(ref.id);
+        const refAuthor = users.get(full?.author_id ?? "");
+        return {
+          type: ref.type,
+          id: ref.id,
+          ...(full ? { text: full.text } : {}),
+          ...(refAuthor ? { authorUsername: refAuthor.username } : {}),
+        };
+      }),
+    };
+  });
+}
+
+// Run a request; on a 429 sleep until the window resets (if soon enough) and retry once.
+// Resolves to null when the wait would be too long, so callers can defer instead of failing.
+async function withRateLimit<T>(request: () => Promise<T>): Promise<T | null> {
+  try {
+    return await request();
+  } catch (error) {
+    if (!(error instanceof ApiResponseError) || !error.rateLimitError) {
+      throw error;
+    }
+    const reset = error.rateLimit?.reset;
+    if (reset === undefined || !(await sleepUntilReset(reset))) {
+      return null;
+    }
+    return await request();
+  }
+}
+
+// Sleep until the rate-limit window resets (unix seconds); false if that's longer than allowed
+async function sleepUntilReset(resetEpochSeconds: number): Promise<boolean> {
+  const waitMs = resetEpochSeconds * 1000 - Date.now() + 1000;
+  if (waitMs > getMaxRateLimitSleepSeconds() * 1000) {
+    return false;
+  }
+  if (waitMs > 0) {
+    await new Promise<void>((resolve) => setTimeout(resolve, waitMs));
+  }
+  return true;
+}
+
+function getMaxPages(): number {
+  return readPositiveIntEnv("X_SEARCH_MAX_PAGES", DEFAULT_MAX_PAGES);
+}
+
+function getMaxRateLimitSleepSeconds(): number {
+  return readPositiveIntEnv("X_RATE_LIMIT_MAX_SLEEP_SECONDS", DEFAULT_MAX_RATE_LIMIT_SLEEP_SECONDS);
+}